@@ -1,6 +1,7 @@
 import esbuild from "esbuild";
 import process from "process";
 import builtins from "builtin-modules";
+import path from "path";
 
 const banner =
 `/*
@@ -11,6 +12,35 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+// Bundles `inline-worker:<path>` imports separately and inlines them as a string,
+// so the search worker ships inside main.js and can be started from a blob URL
+const inlineWorkerPlugin = {
+	name: "inline-worker",
+	setup(build) {
+		build.onResolve({ filter: /^inline-worker:/ }, (args) => ({
+			path: path.resolve(args.resolveDir, args.path.substring("inline-worker:".length) + ".ts"),
+			namespace: "inline-worker",
+		}));
+		build.onLoad({ filter: /.*/, namespace: "inline-worker" }, async (args) => {
+			const result = await esbuild.build({
+				entryPoints: [args.path],
+				bundle: true,
+				write: false,
+				metafile: true,
+				format: "iife",
+				target: "es2018",
+				minify: prod,
+				logLevel: "silent",
+			});
+			return {
+				contents: `export default ${JSON.stringify(result.outputFiles[0].text)};`,
+				loader: "js",
+				watchFiles: Object.keys(result.metafile.inputs).map((input) => path.resolve(input)),
+			};
+		});
+	},
+};
+
 // Main plugin build
 const mainContext = await esbuild.context({
 	banner: {
@@ -39,6 +69,7 @@ const mainContext = await esbuild.context({
 	sourcemap: prod ? false : "inline",
 	treeShaking: true,
 	outfile: "main.js",
+	plugins: [inlineWorkerPlugin],
 });
 
 // Preload script build
@@ -6,6 +6,60 @@ interface SearchResult {
     name: string;
     score: number;
     snippet: string;
+    matchRanges?: [number, number][];
+    matchedAlias?: string;
+    matchedProperty?: { key: string; value: string };
+    modified?: number;
+    created?: number;
+    subpath?: string;
+    location?: MatchLocation;
+    heading?: string;
+    matchCount?: number;
+    passages?: SearchResultPassage[];
+    task?: TaskInfo;
+    fileType?: 'note' | 'canvas' | 'image' | 'audio' | 'video' | 'pdf' | 'other';
+}
+
+interface SearchResultPassage {
+    snippet: string;
+    matchRanges: [number, number][];
+    location?: MatchLocation;
+    heading?: string;
+}
+
+interface TaskInfo {
+    line: number;
+    checked: boolean;
+    heading?: string;
+    due?: number;
+}
+
+interface MatchLocation {
+    line: number;
+    ch: number;
+    length: number;
+}
+
+interface SearchOptions {
+    caseSensitive: boolean;
+    wholeWord: boolean;
+    regex: boolean;
+    sort: 'relevance' | 'modified' | 'created' | 'name';
+}
+
+interface RecentSearch {
+    query: string;
+    options: SearchOptions;
+}
+
+interface SavedSearch extends RecentSearch {
+    name: string;
+}
+
+interface IndexStatus {
+    indexed: number;
+    total: number;
+    isIndexing: boolean;
 }
 
 interface FilePreviewData {
@@ -18,16 +72,26 @@ interface FilePreviewData {
 declare global {
     interface Window {
         electronAPI: {
-            openFile: (filePath: string) => void;
-            searchContent: (query: string) => void;
+            openFile: (filePath: string, subpath?: string, location?: MatchLocation, query?: string) => void;
+            searchContent: (query: string, options: SearchOptions, requestId: number) => void;
             getRecentFiles: () => void;
             getFilePreview: (filePath: string) => void;
+            getIndexStatus: () => void;
+            getSearchHistory: () => void;
+            saveSearch: (name: string, query: string, options: SearchOptions) => void;
+            setTaskChecked: (filePath: string, line: number, text: string, checked: boolean) => void;
+            createNote: (title: string) => void;
+            appendToDailyNote: (text: string) => void;
             resizeWindow: (width: number, height: number) => void;
             closeWindow: () => void;
-            onSearchResults: (callback: (results: SearchResult[]) => void) => void;
+            onSearchResults: (callback: (results: SearchResult[], requestId: number, done: boolean, suggestion: string) => void) => void;
             onRecentFiles: (callback: (results: SearchResult[]) => void) => void;
             onFilePreview: (callback: (data: FilePreviewData) => void) => void;
             onResetSearch: (callback: () => void) => void;
+            onIndexStatus: (callback: (status: IndexStatus) => void) => void;
+            onSearchHistory: (callback: (savedSearches: SavedSearch[], recentSearches: RecentSearch[]) => void) => void;
+            onTaskChecked: (callback: (filePath: string, line: number, checked: boolean, found: boolean) => void) => void;
+            onCaptureResult: (callback: (success: boolean, fileName: string) => void) => void;
         };
     }
 }
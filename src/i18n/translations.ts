@@ -25,6 +25,84 @@ export interface Translation {
     recordingHotkey: string;
     pressKeyCombination: string;
     hotkeyRecorded: string;
+    indexingProgress: string;
+    matchedAlias: string;
+    settingFoldDiacriticsName: string;
+    settingFoldDiacriticsDesc: string;
+    toggleCaseSensitive: string;
+    toggleWholeWord: string;
+    toggleRegex: string;
+    invalidRegex: string;
+    searching: string;
+    settingLearnFromHistoryName: string;
+    settingLearnFromHistoryDesc: string;
+    commandResetHistory: string;
+    historyReset: string;
+    settingExcludePatternsName: string;
+    settingExcludePatternsDesc: string;
+    settingIncludePatternsName: string;
+    settingIncludePatternsDesc: string;
+    settingExcludedFilesModeName: string;
+    settingExcludedFilesModeDesc: string;
+    excludedFilesHide: string;
+    excludedFilesDownrank: string;
+    didYouMean: string;
+    saveSearch: string;
+    saveSearchNamePlaceholder: string;
+    savedSearches: string;
+    recentSearches: string;
+    commandOpenSavedSearch: string;
+    savedSearchPlaceholder: string;
+    noSavedSearches: string;
+    settingSavedSearchesDesc: string;
+    deleteSavedSearch: string;
+    settingBoostLinkedNotesName: string;
+    settingBoostLinkedNotesDesc: string;
+    sortOrder: string;
+    sortRelevance: string;
+    sortModified: string;
+    sortCreated: string;
+    sortName: string;
+    settingCreatedPropertyName: string;
+    settingCreatedPropertyDesc: string;
+    toggleTask: string;
+    settingIndexCodeBlocksName: string;
+    settingIndexCodeBlocksDesc: string;
+    settingIndexCommentsName: string;
+    settingIndexCommentsDesc: string;
+    settingIndexFrontmatterName: string;
+    settingIndexFrontmatterDesc: string;
+    matchCount: string;
+    toggleMatches: string;
+    fileTypeCanvas: string;
+    fileTypeImage: string;
+    fileTypeAudio: string;
+    fileTypeVideo: string;
+    fileTypePdf: string;
+    fileTypeOther: string;
+    createNoteHint: string;
+    captureToDailyNote: string;
+    captureHint: string;
+    capturedToDailyNote: string;
+    captureFailed: string;
+    settingQuickCaptureHeading: string;
+    settingNewNoteFolderName: string;
+    settingNewNoteFolderDesc: string;
+    settingNewNoteTemplateName: string;
+    settingNewNoteTemplateDesc: string;
+    settingCaptureFormatName: string;
+    settingCaptureFormatDesc: string;
+    captureFormatBullet: string;
+    captureFormatTask: string;
+    settingCaptureTimestampName: string;
+    settingCaptureTimestampDesc: string;
+    addHotkey: string;
+    deleteHotkey: string;
+    hotkeyActionSearch: string;
+    hotkeyActionCapture: string;
+    hotkeyActionDailyNote: string;
+    hotkeyActionSearchFolder: string;
+    hotkeyActionSearchTag: string;
 }
 
 export const translations: Record<string, Translation> = {
@@ -44,7 +122,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: 'Global hotkey {0} registered',
         settingsTitle: 'Global search settings',
         settingHotkeyName: 'Global hotkey',
-        settingHotkeyDesc: 'System-wide hotkey to invoke the search (e.g., CommandOrControl+Shift+O)',
+        settingHotkeyDesc: 'System-wide hotkeys, each opening the search, the quick capture, today’s daily note, or a search in a folder or tag (e.g., CommandOrControl+Shift+O)',
         settingHotkeyExamples: 'Examples: CommandOrControl+Shift+O, Alt+Space, CommandOrControl+Alt+N',
         settingHotkeyNote: 'Note: CommandOrControl automatically uses Cmd on macOS and Ctrl on Windows/Linux',
         settingLanguageName: 'Language',
@@ -54,7 +132,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: 'Record hotkey',
         recordingHotkey: 'Recording... Press your key combination',
         pressKeyCombination: 'Press any key combination',
-        hotkeyRecorded: 'Hotkey recorded: {0}'
+        hotkeyRecorded: 'Hotkey recorded: {0}',
+        indexingProgress: 'Indexing notes... {0}/{1}',
+        matchedAlias: 'Alias: {0}',
+        settingFoldDiacriticsName: 'Ignore accents',
+        settingFoldDiacriticsDesc: 'Match letters with and without accents, e.g. "zurich" finds "Zürich". Changing this rebuilds the search index.',
+        toggleCaseSensitive: 'Match case (Alt+C)',
+        toggleWholeWord: 'Match whole word (Alt+W)',
+        toggleRegex: 'Use regular expression (Alt+R)',
+        invalidRegex: 'Invalid regular expression',
+        searching: 'Searching…',
+        settingLearnFromHistoryName: 'Learn from opened notes',
+        settingLearnFromHistoryDesc: 'Rank notes you often open from the search window, and the ones you opened for similar searches, higher',
+        commandResetHistory: 'Reset search history',
+        historyReset: 'Search history reset',
+        settingExcludePatternsName: 'Excluded files',
+        settingExcludePatternsDesc: 'One pattern per line, e.g. Templates/ or Archive/**/*.md (* and ** match any characters, ** also across folders). Files excluded in Obsidian\'s Files and links settings are always excluded',
+        settingIncludePatternsName: 'Only search in',
+        settingIncludePatternsDesc: 'One pattern per line, same syntax as above. When set, files matching none of the patterns are excluded',
+        settingExcludedFilesModeName: 'Excluded files in results',
+        settingExcludedFilesModeDesc: 'Hide excluded files, or still show them below all other results',
+        excludedFilesHide: 'Hide',
+        excludedFilesDownrank: 'Show last',
+        didYouMean: 'Did you mean {0}?',
+        saveSearch: 'Save search (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: 'Name of the saved search, Enter to save',
+        savedSearches: 'Saved searches',
+        recentSearches: 'Recent searches',
+        commandOpenSavedSearch: 'Open saved search',
+        savedSearchPlaceholder: 'Choose a saved search...',
+        noSavedSearches: 'No saved searches yet. Save one with the ☆ button in the search window.',
+        settingSavedSearchesDesc: 'Searches saved with the ☆ button in the search window. They are listed when the search is empty and in the "Open saved search" command.',
+        deleteSavedSearch: 'Delete saved search',
+        settingBoostLinkedNotesName: 'Boost well-linked notes',
+        settingBoostLinkedNotesDesc: 'Rank notes that many other notes link to higher',
+        sortOrder: 'Sort results (Alt+S)',
+        sortRelevance: 'Relevance',
+        sortModified: 'Modified',
+        sortCreated: 'Created',
+        sortName: 'Name',
+        settingCreatedPropertyName: 'Creation date property',
+        settingCreatedPropertyDesc: 'Frontmatter property holding a note\'s creation date, used by created: and the sort by creation date. The file creation time is used when empty or missing.',
+        toggleTask: 'Check off or reopen the task (Ctrl+Enter)',
+        settingIndexCodeBlocksName: 'Search code blocks',
+        settingIndexCodeBlocksDesc: 'Include the contents of code blocks in the search',
+        settingIndexCommentsName: 'Search comments',
+        settingIndexCommentsDesc: 'Include %%comments%% and HTML comments, which are hidden in reading view',
+        settingIndexFrontmatterName: 'Search frontmatter text',
+        settingIndexFrontmatterDesc: 'Include the raw YAML of the frontmatter, property names included. Property values are searched either way',
+        matchCount: 'Matches: {0}',
+        toggleMatches: 'Show or hide the matching lines (→ / ←)',
+        fileTypeCanvas: 'Canvas',
+        fileTypeImage: 'Image',
+        fileTypeAudio: 'Audio',
+        fileTypeVideo: 'Video',
+        fileTypePdf: 'PDF',
+        fileTypeOther: 'File',
+        createNoteHint: 'No results. Shift+Enter creates the note “{0}”',
+        captureToDailyNote: 'Add to today’s daily note',
+        captureHint: 'Type the text to add after +',
+        capturedToDailyNote: 'Added to {0}',
+        captureFailed: 'Could not write to the vault',
+        settingQuickCaptureHeading: 'Quick capture',
+        settingNewNoteFolderName: 'Folder for new notes',
+        settingNewNoteFolderDesc: 'Where Shift+Enter in the search window creates a note named after a search without results. When empty, Obsidian’s default location for new notes is used',
+        settingNewNoteTemplateName: 'Template for new notes',
+        settingNewNoteTemplateDesc: 'Path of a note that new notes start with. {{title}}, {{date}} and {{time}} in it are filled in',
+        settingCaptureFormatName: 'Daily note entries',
+        settingCaptureFormatDesc: 'How text typed after + in the search window is added to today’s daily note',
+        captureFormatBullet: 'Bullet',
+        captureFormatTask: 'Task',
+        settingCaptureTimestampName: 'Entry timestamp',
+        settingCaptureTimestampDesc: 'Moment.js format of the time written before each entry, e.g. HH:mm. Leave empty for no timestamp',
+        addHotkey: 'Add hotkey',
+        deleteHotkey: 'Remove hotkey',
+        hotkeyActionSearch: 'Search',
+        hotkeyActionCapture: 'Quick capture',
+        hotkeyActionDailyNote: 'Open today’s daily note',
+        hotkeyActionSearchFolder: 'Search in folder',
+        hotkeyActionSearchTag: 'Search in tag'
     },
     pl: {
         commandName: 'Otwórz wyszukiwarkę globalną',
@@ -72,7 +228,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: 'Globalny skrót {0} zarejestrowany',
         settingsTitle: 'Ustawienia global search',
         settingHotkeyName: 'Globalny skrót klawiszowy',
-        settingHotkeyDesc: 'Skrót systemowy do wywołania wyszukiwarki (np. CommandOrControl+Shift+O)',
+        settingHotkeyDesc: 'Skróty systemowe, z których każdy otwiera wyszukiwarkę, szybkie notowanie, dzisiejszą notatkę dzienną albo wyszukiwanie w folderze lub tagu (np. CommandOrControl+Shift+O)',
         settingHotkeyExamples: 'Przykłady: CommandOrControl+Shift+O, Alt+Space, CommandOrControl+Alt+N',
         settingHotkeyNote: 'Uwaga: CommandOrControl automatycznie używa Cmd na macOS i Ctrl na Windows/Linux',
         settingLanguageName: 'Język',
@@ -82,7 +238,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: 'Nagraj skrót',
         recordingHotkey: 'Nagrywanie... Naciśnij kombinację klawiszy',
         pressKeyCombination: 'Naciśnij dowolną kombinację klawiszy',
-        hotkeyRecorded: 'Nagrany skrót: {0}'
+        hotkeyRecorded: 'Nagrany skrót: {0}',
+        indexingProgress: 'Indeksowanie notatek... {0}/{1}',
+        matchedAlias: 'Alias: {0}',
+        settingFoldDiacriticsName: 'Ignoruj znaki diakrytyczne',
+        settingFoldDiacriticsDesc: 'Dopasowuj litery ze znakami diakrytycznymi i bez nich, np. "zolw" znajdzie "żółw". Zmiana przebudowuje indeks wyszukiwania.',
+        toggleCaseSensitive: 'Uwzględniaj wielkość liter (Alt+C)',
+        toggleWholeWord: 'Tylko całe wyrazy (Alt+W)',
+        toggleRegex: 'Użyj wyrażenia regularnego (Alt+R)',
+        invalidRegex: 'Nieprawidłowe wyrażenie regularne',
+        searching: 'Wyszukiwanie…',
+        settingLearnFromHistoryName: 'Ucz się z otwieranych notatek',
+        settingLearnFromHistoryDesc: 'Wyżej pokazuj notatki często otwierane z okna wyszukiwania oraz te otwierane przy podobnych wyszukiwaniach',
+        commandResetHistory: 'Wyczyść historię wyszukiwania',
+        historyReset: 'Historia wyszukiwania wyczyszczona',
+        settingExcludePatternsName: 'Wykluczone pliki',
+        settingExcludePatternsDesc: 'Jeden wzorzec w wierszu, np. Templates/ lub Archive/**/*.md (* i ** pasują do dowolnych znaków, ** także w podfolderach). Pliki wykluczone w ustawieniach Obsidiana (Pliki i linki) są zawsze wykluczone',
+        settingIncludePatternsName: 'Szukaj tylko w',
+        settingIncludePatternsDesc: 'Jeden wzorzec w wierszu, ta sama składnia co wyżej. Gdy ustawione, pliki niepasujące do żadnego wzorca są wykluczone',
+        settingExcludedFilesModeName: 'Wykluczone pliki w wynikach',
+        settingExcludedFilesModeDesc: 'Ukryj wykluczone pliki lub pokazuj je pod wszystkimi innymi wynikami',
+        excludedFilesHide: 'Ukryj',
+        excludedFilesDownrank: 'Pokazuj na końcu',
+        didYouMean: 'Czy chodziło o {0}?',
+        saveSearch: 'Zapisz wyszukiwanie (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: 'Nazwa zapisanego wyszukiwania, Enter, aby zapisać',
+        savedSearches: 'Zapisane wyszukiwania',
+        recentSearches: 'Ostatnie wyszukiwania',
+        commandOpenSavedSearch: 'Otwórz zapisane wyszukiwanie',
+        savedSearchPlaceholder: 'Wybierz zapisane wyszukiwanie...',
+        noSavedSearches: 'Brak zapisanych wyszukiwań. Zapisz je przyciskiem ☆ w oknie wyszukiwania.',
+        settingSavedSearchesDesc: 'Wyszukiwania zapisane przyciskiem ☆ w oknie wyszukiwania. Są wyświetlane przy pustym wyszukiwaniu i w poleceniu "Otwórz zapisane wyszukiwanie".',
+        deleteSavedSearch: 'Usuń zapisane wyszukiwanie',
+        settingBoostLinkedNotesName: 'Promuj często linkowane notatki',
+        settingBoostLinkedNotesDesc: 'Wyżej pozycjonuj notatki, do których linkuje wiele innych notatek',
+        sortOrder: 'Sortuj wyniki (Alt+S)',
+        sortRelevance: 'Trafność',
+        sortModified: 'Zmodyfikowano',
+        sortCreated: 'Utworzono',
+        sortName: 'Nazwa',
+        settingCreatedPropertyName: 'Właściwość daty utworzenia',
+        settingCreatedPropertyDesc: 'Właściwość frontmatter z datą utworzenia notatki, używana przez created: i sortowanie według daty utworzenia. Gdy jest pusta lub jej brak, używany jest czas utworzenia pliku.',
+        toggleTask: 'Odhacz lub otwórz ponownie zadanie (Ctrl+Enter)',
+        settingIndexCodeBlocksName: 'Przeszukuj bloki kodu',
+        settingIndexCodeBlocksDesc: 'Uwzględniaj zawartość bloków kodu w wyszukiwaniu',
+        settingIndexCommentsName: 'Przeszukuj komentarze',
+        settingIndexCommentsDesc: 'Uwzględniaj %%komentarze%% i komentarze HTML, ukryte w widoku czytania',
+        settingIndexFrontmatterName: 'Przeszukuj tekst frontmatter',
+        settingIndexFrontmatterDesc: 'Uwzględniaj surowy YAML frontmatter, łącznie z nazwami właściwości. Wartości właściwości są przeszukiwane zawsze',
+        matchCount: 'Trafienia: {0}',
+        toggleMatches: 'Pokaż lub ukryj pasujące wiersze (→ / ←)',
+        fileTypeCanvas: 'Kanwa',
+        fileTypeImage: 'Obraz',
+        fileTypeAudio: 'Audio',
+        fileTypeVideo: 'Wideo',
+        fileTypePdf: 'PDF',
+        fileTypeOther: 'Plik',
+        createNoteHint: 'Brak wyników. Shift+Enter tworzy notatkę „{0}”',
+        captureToDailyNote: 'Dodaj do dzisiejszej notatki dziennej',
+        captureHint: 'Wpisz tekst do dodania po +',
+        capturedToDailyNote: 'Dodano do {0}',
+        captureFailed: 'Nie udało się zapisać w sejfie',
+        settingQuickCaptureHeading: 'Szybkie notowanie',
+        settingNewNoteFolderName: 'Folder nowych notatek',
+        settingNewNoteFolderDesc: 'Gdzie Shift+Enter w oknie wyszukiwania tworzy notatkę nazwaną jak wyszukiwanie bez wyników. Gdy puste, używana jest domyślna lokalizacja nowych notatek w Obsidian',
+        settingNewNoteTemplateName: 'Szablon nowych notatek',
+        settingNewNoteTemplateDesc: 'Ścieżka notatki, od której zaczynają się nowe notatki. {{title}}, {{date}} i {{time}} są w niej uzupełniane',
+        settingCaptureFormatName: 'Wpisy w notatce dziennej',
+        settingCaptureFormatDesc: 'Jak tekst wpisany po + w oknie wyszukiwania jest dodawany do dzisiejszej notatki dziennej',
+        captureFormatBullet: 'Punkt listy',
+        captureFormatTask: 'Zadanie',
+        settingCaptureTimestampName: 'Znacznik czasu wpisu',
+        settingCaptureTimestampDesc: 'Format Moment.js czasu zapisywanego przed każdym wpisem, np. HH:mm. Pozostaw puste, aby pominąć czas',
+        addHotkey: 'Dodaj skrót',
+        deleteHotkey: 'Usuń skrót',
+        hotkeyActionSearch: 'Wyszukiwanie',
+        hotkeyActionCapture: 'Szybkie notowanie',
+        hotkeyActionDailyNote: 'Otwórz dzisiejszą notatkę dzienną',
+        hotkeyActionSearchFolder: 'Szukaj w folderze',
+        hotkeyActionSearchTag: 'Szukaj w tagu'
     },
     de: {
         commandName: 'Globale suche öffnen',
@@ -100,7 +334,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: 'Globale tastenkombination {0} registriert',
         settingsTitle: 'Global search einstellungen',
         settingHotkeyName: 'Globale tastenkombination',
-        settingHotkeyDesc: 'Systemweite tastenkombination zum aufrufen der suche (z.B. CommandOrControl+Shift+O)',
+        settingHotkeyDesc: 'Systemweite Tastenkombinationen, die jeweils die Suche, die Schnellerfassung, die heutige tägliche Notiz oder eine Suche in einem Ordner oder Tag öffnen (z.B. CommandOrControl+Shift+O)',
         settingHotkeyExamples: 'Beispiele: CommandOrControl+Shift+O, Alt+Space, CommandOrControl+Alt+N',
         settingHotkeyNote: 'Hinweis: CommandOrControl verwendet automatisch Cmd auf macOS und Ctrl auf Windows/Linux',
         settingLanguageName: 'Sprache',
@@ -110,7 +344,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: 'Tastenkombination aufzeichnen',
         recordingHotkey: 'Aufnahme... Drücken sie ihre tastenkombination',
         pressKeyCombination: 'Drücken sie eine beliebige tastenkombination',
-        hotkeyRecorded: 'Tastenkombination aufgezeichnet: {0}'
+        hotkeyRecorded: 'Tastenkombination aufgezeichnet: {0}',
+        indexingProgress: 'Notizen werden indexiert... {0}/{1}',
+        matchedAlias: 'Alias: {0}',
+        settingFoldDiacriticsName: 'Akzente ignorieren',
+        settingFoldDiacriticsDesc: 'Buchstaben mit und ohne Akzente finden, z. B. findet "zurich" auch "Zürich". Eine Änderung baut den Suchindex neu auf.',
+        toggleCaseSensitive: 'Groß-/Kleinschreibung beachten (Alt+C)',
+        toggleWholeWord: 'Nur ganzes Wort (Alt+W)',
+        toggleRegex: 'Regulären Ausdruck verwenden (Alt+R)',
+        invalidRegex: 'Ungültiger regulärer Ausdruck',
+        searching: 'Suche läuft…',
+        settingLearnFromHistoryName: 'Aus geöffneten Notizen lernen',
+        settingLearnFromHistoryDesc: 'Notizen, die du oft aus dem Suchfenster öffnest oder bei ähnlichen Suchen geöffnet hast, weiter oben anzeigen',
+        commandResetHistory: 'Suchverlauf zurücksetzen',
+        historyReset: 'Suchverlauf zurückgesetzt',
+        settingExcludePatternsName: 'Ausgeschlossene Dateien',
+        settingExcludePatternsDesc: 'Ein Muster pro Zeile, z. B. Templates/ oder Archive/**/*.md (* und ** passen auf beliebige Zeichen, ** auch über Ordner hinweg). In Obsidians Einstellungen unter Dateien und Links ausgeschlossene Dateien sind immer ausgeschlossen',
+        settingIncludePatternsName: 'Nur suchen in',
+        settingIncludePatternsDesc: 'Ein Muster pro Zeile, gleiche Syntax wie oben. Wenn gesetzt, werden Dateien ausgeschlossen, die auf keines der Muster passen',
+        settingExcludedFilesModeName: 'Ausgeschlossene Dateien in Ergebnissen',
+        settingExcludedFilesModeDesc: 'Ausgeschlossene Dateien ausblenden oder unter allen anderen Ergebnissen anzeigen',
+        excludedFilesHide: 'Ausblenden',
+        excludedFilesDownrank: 'Zuletzt anzeigen',
+        didYouMean: 'Meintest du {0}?',
+        saveSearch: 'Suche speichern (Strg/Cmd+S)',
+        saveSearchNamePlaceholder: 'Name der gespeicherten Suche, Enter zum Speichern',
+        savedSearches: 'Gespeicherte Suchen',
+        recentSearches: 'Letzte Suchen',
+        commandOpenSavedSearch: 'Gespeicherte Suche öffnen',
+        savedSearchPlaceholder: 'Gespeicherte Suche auswählen...',
+        noSavedSearches: 'Noch keine gespeicherten Suchen. Speichere eine mit der Schaltfläche ☆ im Suchfenster.',
+        settingSavedSearchesDesc: 'Mit der Schaltfläche ☆ im Suchfenster gespeicherte Suchen. Sie werden bei leerer Suche und im Befehl "Gespeicherte Suche öffnen" angezeigt.',
+        deleteSavedSearch: 'Gespeicherte Suche löschen',
+        settingBoostLinkedNotesName: 'Stark verlinkte Notizen bevorzugen',
+        settingBoostLinkedNotesDesc: 'Notizen, auf die viele andere Notizen verlinken, weiter oben anzeigen',
+        sortOrder: 'Ergebnisse sortieren (Alt+S)',
+        sortRelevance: 'Relevanz',
+        sortModified: 'Geändert',
+        sortCreated: 'Erstellt',
+        sortName: 'Name',
+        settingCreatedPropertyName: 'Eigenschaft für das Erstellungsdatum',
+        settingCreatedPropertyDesc: 'Frontmatter-Eigenschaft mit dem Erstellungsdatum einer Notiz, verwendet von created: und der Sortierung nach Erstellungsdatum. Ist sie leer oder fehlt, wird die Erstellungszeit der Datei verwendet.',
+        toggleTask: 'Aufgabe abhaken oder wieder öffnen (Strg+Enter)',
+        settingIndexCodeBlocksName: 'Codeblöcke durchsuchen',
+        settingIndexCodeBlocksDesc: 'Inhalt von Codeblöcken in die Suche einbeziehen',
+        settingIndexCommentsName: 'Kommentare durchsuchen',
+        settingIndexCommentsDesc: '%%Kommentare%% und HTML-Kommentare einbeziehen, die in der Leseansicht verborgen sind',
+        settingIndexFrontmatterName: 'Frontmatter-Text durchsuchen',
+        settingIndexFrontmatterDesc: 'Das rohe YAML des Frontmatters einbeziehen, samt Eigenschaftsnamen. Eigenschaftswerte werden immer durchsucht',
+        matchCount: 'Treffer: {0}',
+        toggleMatches: 'Passende Zeilen ein- oder ausblenden (→ / ←)',
+        fileTypeCanvas: 'Canvas',
+        fileTypeImage: 'Bild',
+        fileTypeAudio: 'Audio',
+        fileTypeVideo: 'Video',
+        fileTypePdf: 'PDF',
+        fileTypeOther: 'Datei',
+        createNoteHint: 'Keine Ergebnisse. Shift+Enter erstellt die Notiz „{0}“',
+        captureToDailyNote: 'Zur heutigen täglichen Notiz hinzufügen',
+        captureHint: 'Den hinzuzufügenden Text nach + eingeben',
+        capturedToDailyNote: 'Zu {0} hinzugefügt',
+        captureFailed: 'Konnte nicht in den Tresor schreiben',
+        settingQuickCaptureHeading: 'Schnellerfassung',
+        settingNewNoteFolderName: 'Ordner für neue Notizen',
+        settingNewNoteFolderDesc: 'Wo Shift+Enter im Suchfenster eine Notiz mit dem Namen einer Suche ohne Ergebnisse erstellt. Wenn leer, wird Obsidians Standardort für neue Notizen verwendet',
+        settingNewNoteTemplateName: 'Vorlage für neue Notizen',
+        settingNewNoteTemplateDesc: 'Pfad einer Notiz, mit der neue Notizen beginnen. {{title}}, {{date}} und {{time}} darin werden ausgefüllt',
+        settingCaptureFormatName: 'Einträge in der täglichen Notiz',
+        settingCaptureFormatDesc: 'Wie nach + im Suchfenster eingegebener Text zur heutigen täglichen Notiz hinzugefügt wird',
+        captureFormatBullet: 'Aufzählungspunkt',
+        captureFormatTask: 'Aufgabe',
+        settingCaptureTimestampName: 'Zeitstempel der Einträge',
+        settingCaptureTimestampDesc: 'Moment.js-Format der Uhrzeit vor jedem Eintrag, z. B. HH:mm. Leer lassen für keinen Zeitstempel',
+        addHotkey: 'Tastenkombination hinzufügen',
+        deleteHotkey: 'Tastenkombination entfernen',
+        hotkeyActionSearch: 'Suche',
+        hotkeyActionCapture: 'Schnellerfassung',
+        hotkeyActionDailyNote: 'Heutige tägliche Notiz öffnen',
+        hotkeyActionSearchFolder: 'Im Ordner suchen',
+        hotkeyActionSearchTag: 'Im Tag suchen'
     },
     fr: {
         commandName: 'Ouvrir la recherche globale',
@@ -128,7 +440,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: 'Raccourci global {0} enregistré',
         settingsTitle: 'Paramètres de global search',
         settingHotkeyName: 'Raccourci global',
-        settingHotkeyDesc: 'Raccourci système pour invoquer la recherche (par ex. CommandOrControl+Shift+O)',
+        settingHotkeyDesc: 'Raccourcis système qui ouvrent chacun la recherche, la saisie rapide, la note quotidienne du jour ou une recherche dans un dossier ou une étiquette (par ex. CommandOrControl+Shift+O)',
         settingHotkeyExamples: 'Exemples: CommandOrControl+Shift+O, Alt+Espace, CommandOrControl+Alt+N',
         settingHotkeyNote: 'Note: CommandOrControl utilise automatiquement Cmd sur macOS et Ctrl sur Windows/Linux',
         settingLanguageName: 'Langue',
@@ -138,7 +450,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: 'Enregistrer le raccourci',
         recordingHotkey: 'Enregistrement... Appuyez sur votre combinaison de touches',
         pressKeyCombination: 'Appuyez sur n\'importe quelle combinaison de touches',
-        hotkeyRecorded: 'Raccourci enregistré: {0}'
+        hotkeyRecorded: 'Raccourci enregistré: {0}',
+        indexingProgress: 'Indexation des notes... {0}/{1}',
+        matchedAlias: 'Alias : {0}',
+        settingFoldDiacriticsName: 'Ignorer les accents',
+        settingFoldDiacriticsDesc: 'Faire correspondre les lettres avec et sans accents, par ex. "ete" trouve "été". La modification reconstruit l’index de recherche.',
+        toggleCaseSensitive: 'Respecter la casse (Alt+C)',
+        toggleWholeWord: 'Mot entier uniquement (Alt+W)',
+        toggleRegex: 'Utiliser une expression régulière (Alt+R)',
+        invalidRegex: 'Expression régulière non valide',
+        searching: 'Recherche…',
+        settingLearnFromHistoryName: 'Apprendre des notes ouvertes',
+        settingLearnFromHistoryDesc: 'Classer plus haut les notes souvent ouvertes depuis la fenêtre de recherche et celles ouvertes pour des recherches similaires',
+        commandResetHistory: 'Réinitialiser l’historique de recherche',
+        historyReset: 'Historique de recherche réinitialisé',
+        settingExcludePatternsName: 'Fichiers exclus',
+        settingExcludePatternsDesc: 'Un motif par ligne, par ex. Templates/ ou Archive/**/*.md (* et ** correspondent à n’importe quels caractères, ** aussi à travers les dossiers). Les fichiers exclus dans les paramètres Fichiers et liens d’Obsidian sont toujours exclus',
+        settingIncludePatternsName: 'Rechercher uniquement dans',
+        settingIncludePatternsDesc: 'Un motif par ligne, même syntaxe que ci-dessus. Si renseigné, les fichiers ne correspondant à aucun motif sont exclus',
+        settingExcludedFilesModeName: 'Fichiers exclus dans les résultats',
+        settingExcludedFilesModeDesc: 'Masquer les fichiers exclus, ou les afficher après tous les autres résultats',
+        excludedFilesHide: 'Masquer',
+        excludedFilesDownrank: 'Afficher en dernier',
+        didYouMean: 'Vouliez-vous dire {0} ?',
+        saveSearch: 'Enregistrer la recherche (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: 'Nom de la recherche, Entrée pour enregistrer',
+        savedSearches: 'Recherches enregistrées',
+        recentSearches: 'Recherches récentes',
+        commandOpenSavedSearch: 'Ouvrir une recherche enregistrée',
+        savedSearchPlaceholder: 'Choisir une recherche enregistrée...',
+        noSavedSearches: 'Aucune recherche enregistrée. Enregistrez-en une avec le bouton ☆ de la fenêtre de recherche.',
+        settingSavedSearchesDesc: 'Recherches enregistrées avec le bouton ☆ de la fenêtre de recherche. Elles sont listées quand la recherche est vide et dans la commande "Ouvrir une recherche enregistrée".',
+        deleteSavedSearch: 'Supprimer la recherche enregistrée',
+        settingBoostLinkedNotesName: 'Favoriser les notes très liées',
+        settingBoostLinkedNotesDesc: 'Classer plus haut les notes vers lesquelles beaucoup d’autres notes pointent',
+        sortOrder: 'Trier les résultats (Alt+S)',
+        sortRelevance: 'Pertinence',
+        sortModified: 'Modifié',
+        sortCreated: 'Créé',
+        sortName: 'Nom',
+        settingCreatedPropertyName: 'Propriété de date de création',
+        settingCreatedPropertyDesc: 'Propriété du frontmatter contenant la date de création d’une note, utilisée par created: et le tri par date de création. L’heure de création du fichier est utilisée si elle est vide ou absente.',
+        toggleTask: 'Cocher ou rouvrir la tâche (Ctrl+Entrée)',
+        settingIndexCodeBlocksName: 'Rechercher dans les blocs de code',
+        settingIndexCodeBlocksDesc: 'Inclure le contenu des blocs de code dans la recherche',
+        settingIndexCommentsName: 'Rechercher dans les commentaires',
+        settingIndexCommentsDesc: 'Inclure les %%commentaires%% et commentaires HTML, masqués en mode lecture',
+        settingIndexFrontmatterName: 'Rechercher dans le texte du frontmatter',
+        settingIndexFrontmatterDesc: 'Inclure le YAML brut du frontmatter, noms de propriétés compris. Les valeurs des propriétés sont recherchées dans tous les cas',
+        matchCount: 'Correspondances : {0}',
+        toggleMatches: 'Afficher ou masquer les lignes correspondantes (→ / ←)',
+        fileTypeCanvas: 'Canvas',
+        fileTypeImage: 'Image',
+        fileTypeAudio: 'Audio',
+        fileTypeVideo: 'Vidéo',
+        fileTypePdf: 'PDF',
+        fileTypeOther: 'Fichier',
+        createNoteHint: 'Aucun résultat. Maj+Entrée crée la note « {0} »',
+        captureToDailyNote: 'Ajouter à la note quotidienne du jour',
+        captureHint: 'Saisissez le texte à ajouter après +',
+        capturedToDailyNote: 'Ajouté à {0}',
+        captureFailed: 'Impossible d’écrire dans le coffre',
+        settingQuickCaptureHeading: 'Saisie rapide',
+        settingNewNoteFolderName: 'Dossier des nouvelles notes',
+        settingNewNoteFolderDesc: 'Où Maj+Entrée dans la fenêtre de recherche crée une note portant le nom d’une recherche sans résultat. Si vide, l’emplacement par défaut d’Obsidian pour les nouvelles notes est utilisé',
+        settingNewNoteTemplateName: 'Modèle des nouvelles notes',
+        settingNewNoteTemplateDesc: 'Chemin d’une note par laquelle commencent les nouvelles notes. {{title}}, {{date}} et {{time}} y sont remplis',
+        settingCaptureFormatName: 'Entrées de la note quotidienne',
+        settingCaptureFormatDesc: 'Comment le texte saisi après + dans la fenêtre de recherche est ajouté à la note quotidienne du jour',
+        captureFormatBullet: 'Puce',
+        captureFormatTask: 'Tâche',
+        settingCaptureTimestampName: 'Horodatage des entrées',
+        settingCaptureTimestampDesc: 'Format Moment.js de l’heure écrite avant chaque entrée, par ex. HH:mm. Laissez vide pour ne pas l’ajouter',
+        addHotkey: 'Ajouter un raccourci',
+        deleteHotkey: 'Supprimer le raccourci',
+        hotkeyActionSearch: 'Recherche',
+        hotkeyActionCapture: 'Saisie rapide',
+        hotkeyActionDailyNote: 'Ouvrir la note quotidienne du jour',
+        hotkeyActionSearchFolder: 'Rechercher dans le dossier',
+        hotkeyActionSearchTag: 'Rechercher dans l’étiquette'
     },
     es: {
         commandName: 'Abrir búsqueda global',
@@ -156,7 +546,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: 'Atajo global {0} registrado',
         settingsTitle: 'Configuración de global search',
         settingHotkeyName: 'Atajo global',
-        settingHotkeyDesc: 'Atajo de teclado del sistema para invocar la búsqueda (ej. CommandOrControl+Shift+O)',
+        settingHotkeyDesc: 'Atajos de teclado del sistema que abren la búsqueda, la captura rápida, la nota diaria de hoy o una búsqueda en una carpeta o etiqueta (ej. CommandOrControl+Shift+O)',
         settingHotkeyExamples: 'Ejemplos: CommandOrControl+Shift+O, Alt+Espacio, CommandOrControl+Alt+N',
         settingHotkeyNote: 'Nota: CommandOrControl usa automáticamente Cmd en macOS y Ctrl en Windows/Linux',
         settingLanguageName: 'Idioma',
@@ -166,7 +556,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: 'Grabar atajo',
         recordingHotkey: 'Grabando... Presiona tu combinación de teclas',
         pressKeyCombination: 'Presiona cualquier combinación de teclas',
-        hotkeyRecorded: 'Atajo grabado: {0}'
+        hotkeyRecorded: 'Atajo grabado: {0}',
+        indexingProgress: 'Indexando notas... {0}/{1}',
+        matchedAlias: 'Alias: {0}',
+        settingFoldDiacriticsName: 'Ignorar acentos',
+        settingFoldDiacriticsDesc: 'Coincidir letras con y sin acentos, p. ej. "cancion" encuentra "canción". Al cambiarlo se reconstruye el índice de búsqueda.',
+        toggleCaseSensitive: 'Coincidir mayúsculas y minúsculas (Alt+C)',
+        toggleWholeWord: 'Solo palabras completas (Alt+W)',
+        toggleRegex: 'Usar expresión regular (Alt+R)',
+        invalidRegex: 'Expresión regular no válida',
+        searching: 'Buscando…',
+        settingLearnFromHistoryName: 'Aprender de las notas abiertas',
+        settingLearnFromHistoryDesc: 'Mostrar más arriba las notas que abres a menudo desde la ventana de búsqueda y las que abriste en búsquedas similares',
+        commandResetHistory: 'Restablecer el historial de búsqueda',
+        historyReset: 'Historial de búsqueda restablecido',
+        settingExcludePatternsName: 'Archivos excluidos',
+        settingExcludePatternsDesc: 'Un patrón por línea, p. ej. Templates/ o Archive/**/*.md (* y ** coinciden con cualquier carácter, ** también entre carpetas). Los archivos excluidos en los ajustes Archivos y enlaces de Obsidian siempre se excluyen',
+        settingIncludePatternsName: 'Buscar solo en',
+        settingIncludePatternsDesc: 'Un patrón por línea, misma sintaxis que arriba. Si se define, se excluyen los archivos que no coincidan con ningún patrón',
+        settingExcludedFilesModeName: 'Archivos excluidos en los resultados',
+        settingExcludedFilesModeDesc: 'Ocultar los archivos excluidos o mostrarlos debajo de los demás resultados',
+        excludedFilesHide: 'Ocultar',
+        excludedFilesDownrank: 'Mostrar al final',
+        didYouMean: '¿Quisiste decir {0}?',
+        saveSearch: 'Guardar búsqueda (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: 'Nombre de la búsqueda, Enter para guardar',
+        savedSearches: 'Búsquedas guardadas',
+        recentSearches: 'Búsquedas recientes',
+        commandOpenSavedSearch: 'Abrir búsqueda guardada',
+        savedSearchPlaceholder: 'Elige una búsqueda guardada...',
+        noSavedSearches: 'Aún no hay búsquedas guardadas. Guarda una con el botón ☆ de la ventana de búsqueda.',
+        settingSavedSearchesDesc: 'Búsquedas guardadas con el botón ☆ de la ventana de búsqueda. Se muestran cuando la búsqueda está vacía y en el comando "Abrir búsqueda guardada".',
+        deleteSavedSearch: 'Eliminar búsqueda guardada',
+        settingBoostLinkedNotesName: 'Priorizar notas muy enlazadas',
+        settingBoostLinkedNotesDesc: 'Clasificar más arriba las notas enlazadas desde muchas otras notas',
+        sortOrder: 'Ordenar resultados (Alt+S)',
+        sortRelevance: 'Relevancia',
+        sortModified: 'Modificado',
+        sortCreated: 'Creado',
+        sortName: 'Nombre',
+        settingCreatedPropertyName: 'Propiedad de fecha de creación',
+        settingCreatedPropertyDesc: 'Propiedad del frontmatter con la fecha de creación de una nota, usada por created: y la ordenación por fecha de creación. Si está vacía o falta, se usa la hora de creación del archivo.',
+        toggleTask: 'Marcar o reabrir la tarea (Ctrl+Intro)',
+        settingIndexCodeBlocksName: 'Buscar en bloques de código',
+        settingIndexCodeBlocksDesc: 'Incluir el contenido de los bloques de código en la búsqueda',
+        settingIndexCommentsName: 'Buscar en comentarios',
+        settingIndexCommentsDesc: 'Incluir %%comentarios%% y comentarios HTML, ocultos en la vista de lectura',
+        settingIndexFrontmatterName: 'Buscar en el texto del frontmatter',
+        settingIndexFrontmatterDesc: 'Incluir el YAML sin procesar del frontmatter, con los nombres de las propiedades. Los valores de las propiedades se buscan siempre',
+        matchCount: 'Coincidencias: {0}',
+        toggleMatches: 'Mostrar u ocultar las líneas coincidentes (→ / ←)',
+        fileTypeCanvas: 'Lienzo',
+        fileTypeImage: 'Imagen',
+        fileTypeAudio: 'Audio',
+        fileTypeVideo: 'Vídeo',
+        fileTypePdf: 'PDF',
+        fileTypeOther: 'Archivo',
+        createNoteHint: 'Sin resultados. Mayús+Intro crea la nota «{0}»',
+        captureToDailyNote: 'Añadir a la nota diaria de hoy',
+        captureHint: 'Escribe el texto que añadir después de +',
+        capturedToDailyNote: 'Añadido a {0}',
+        captureFailed: 'No se pudo escribir en la bóveda',
+        settingQuickCaptureHeading: 'Captura rápida',
+        settingNewNoteFolderName: 'Carpeta de notas nuevas',
+        settingNewNoteFolderDesc: 'Dónde Mayús+Intro en la ventana de búsqueda crea una nota con el nombre de una búsqueda sin resultados. Si está vacío, se usa la ubicación predeterminada de Obsidian para notas nuevas',
+        settingNewNoteTemplateName: 'Plantilla de notas nuevas',
+        settingNewNoteTemplateDesc: 'Ruta de una nota con la que empiezan las notas nuevas. Se rellenan {{title}}, {{date}} y {{time}}',
+        settingCaptureFormatName: 'Entradas de la nota diaria',
+        settingCaptureFormatDesc: 'Cómo se añade a la nota diaria de hoy el texto escrito después de + en la ventana de búsqueda',
+        captureFormatBullet: 'Viñeta',
+        captureFormatTask: 'Tarea',
+        settingCaptureTimestampName: 'Marca de tiempo de las entradas',
+        settingCaptureTimestampDesc: 'Formato Moment.js de la hora escrita antes de cada entrada, p. ej. HH:mm. Déjalo vacío para no añadirla',
+        addHotkey: 'Añadir atajo',
+        deleteHotkey: 'Quitar atajo',
+        hotkeyActionSearch: 'Búsqueda',
+        hotkeyActionCapture: 'Captura rápida',
+        hotkeyActionDailyNote: 'Abrir la nota diaria de hoy',
+        hotkeyActionSearchFolder: 'Buscar en la carpeta',
+        hotkeyActionSearchTag: 'Buscar en la etiqueta'
     },
     it: {
         commandName: 'Apri ricerca globale',
@@ -184,7 +652,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: 'Scorciatoia globale {0} registrata',
         settingsTitle: 'Impostazioni global search',
         settingHotkeyName: 'Scorciatoia globale',
-        settingHotkeyDesc: 'Scorciatoia di sistema per invocare la ricerca (es. CommandOrControl+Shift+O)',
+        settingHotkeyDesc: 'Scorciatoie di sistema che aprono ciascuna la ricerca, l’acquisizione rapida, la nota giornaliera di oggi o una ricerca in una cartella o tag (es. CommandOrControl+Shift+O)',
         settingHotkeyExamples: 'Esempi: CommandOrControl+Shift+O, Alt+Spazio, CommandOrControl+Alt+N',
         settingHotkeyNote: 'Nota: CommandOrControl usa automaticamente Cmd su macOS e Ctrl su Windows/Linux',
         settingLanguageName: 'Lingua',
@@ -194,7 +662,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: 'Registra scorciatoia',
         recordingHotkey: 'Registrazione... Premi la tua combinazione di tasti',
         pressKeyCombination: 'Premi qualsiasi combinazione di tasti',
-        hotkeyRecorded: 'Scorciatoia registrata: {0}'
+        hotkeyRecorded: 'Scorciatoia registrata: {0}',
+        indexingProgress: 'Indicizzazione delle note... {0}/{1}',
+        matchedAlias: 'Alias: {0}',
+        settingFoldDiacriticsName: 'Ignora gli accenti',
+        settingFoldDiacriticsDesc: 'Trova lettere con e senza accenti, ad es. "citta" trova "città". La modifica ricostruisce l’indice di ricerca.',
+        toggleCaseSensitive: 'Maiuscole/minuscole (Alt+C)',
+        toggleWholeWord: 'Parola intera (Alt+W)',
+        toggleRegex: 'Usa espressione regolare (Alt+R)',
+        invalidRegex: 'Espressione regolare non valida',
+        searching: 'Ricerca in corso…',
+        settingLearnFromHistoryName: 'Impara dalle note aperte',
+        settingLearnFromHistoryDesc: 'Mostra più in alto le note aperte spesso dalla finestra di ricerca e quelle aperte per ricerche simili',
+        commandResetHistory: 'Reimposta la cronologia di ricerca',
+        historyReset: 'Cronologia di ricerca reimpostata',
+        settingExcludePatternsName: 'File esclusi',
+        settingExcludePatternsDesc: 'Un modello per riga, ad es. Templates/ o Archive/**/*.md (* e ** corrispondono a qualsiasi carattere, ** anche tra cartelle). I file esclusi nelle impostazioni File e link di Obsidian sono sempre esclusi',
+        settingIncludePatternsName: 'Cerca solo in',
+        settingIncludePatternsDesc: 'Un modello per riga, stessa sintassi di sopra. Se impostato, i file che non corrispondono a nessun modello sono esclusi',
+        settingExcludedFilesModeName: 'File esclusi nei risultati',
+        settingExcludedFilesModeDesc: 'Nascondi i file esclusi o mostrali sotto tutti gli altri risultati',
+        excludedFilesHide: 'Nascondi',
+        excludedFilesDownrank: 'Mostra per ultimi',
+        didYouMean: 'Forse cercavi {0}?',
+        saveSearch: 'Salva ricerca (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: 'Nome della ricerca, Invio per salvare',
+        savedSearches: 'Ricerche salvate',
+        recentSearches: 'Ricerche recenti',
+        commandOpenSavedSearch: 'Apri ricerca salvata',
+        savedSearchPlaceholder: 'Scegli una ricerca salvata...',
+        noSavedSearches: 'Nessuna ricerca salvata. Salvane una con il pulsante ☆ nella finestra di ricerca.',
+        settingSavedSearchesDesc: 'Ricerche salvate con il pulsante ☆ nella finestra di ricerca. Sono elencate quando la ricerca è vuota e nel comando "Apri ricerca salvata".',
+        deleteSavedSearch: 'Elimina ricerca salvata',
+        settingBoostLinkedNotesName: 'Favorisci le note molto collegate',
+        settingBoostLinkedNotesDesc: 'Mostra più in alto le note collegate da molte altre note',
+        sortOrder: 'Ordina i risultati (Alt+S)',
+        sortRelevance: 'Pertinenza',
+        sortModified: 'Modificato',
+        sortCreated: 'Creato',
+        sortName: 'Nome',
+        settingCreatedPropertyName: 'Proprietà della data di creazione',
+        settingCreatedPropertyDesc: 'Proprietà del frontmatter con la data di creazione di una nota, usata da created: e dall’ordinamento per data di creazione. Se vuota o assente si usa l’ora di creazione del file.',
+        toggleTask: 'Spunta o riapri l’attività (Ctrl+Invio)',
+        settingIndexCodeBlocksName: 'Cerca nei blocchi di codice',
+        settingIndexCodeBlocksDesc: 'Includi il contenuto dei blocchi di codice nella ricerca',
+        settingIndexCommentsName: 'Cerca nei commenti',
+        settingIndexCommentsDesc: 'Includi i %%commenti%% e i commenti HTML, nascosti in modalità lettura',
+        settingIndexFrontmatterName: 'Cerca nel testo del frontmatter',
+        settingIndexFrontmatterDesc: 'Includi lo YAML grezzo del frontmatter, compresi i nomi delle proprietà. I valori delle proprietà vengono cercati comunque',
+        matchCount: 'Corrispondenze: {0}',
+        toggleMatches: 'Mostra o nascondi le righe corrispondenti (→ / ←)',
+        fileTypeCanvas: 'Canvas',
+        fileTypeImage: 'Immagine',
+        fileTypeAudio: 'Audio',
+        fileTypeVideo: 'Video',
+        fileTypePdf: 'PDF',
+        fileTypeOther: 'File',
+        createNoteHint: 'Nessun risultato. Maiusc+Invio crea la nota «{0}»',
+        captureToDailyNote: 'Aggiungi alla nota giornaliera di oggi',
+        captureHint: 'Scrivi il testo da aggiungere dopo +',
+        capturedToDailyNote: 'Aggiunto a {0}',
+        captureFailed: 'Impossibile scrivere nel vault',
+        settingQuickCaptureHeading: 'Acquisizione rapida',
+        settingNewNoteFolderName: 'Cartella delle nuove note',
+        settingNewNoteFolderDesc: 'Dove Maiusc+Invio nella finestra di ricerca crea una nota con il nome di una ricerca senza risultati. Se vuoto, viene usata la posizione predefinita di Obsidian per le nuove note',
+        settingNewNoteTemplateName: 'Modello delle nuove note',
+        settingNewNoteTemplateDesc: 'Percorso di una nota con cui iniziano le nuove note. {{title}}, {{date}} e {{time}} vengono compilati',
+        settingCaptureFormatName: 'Voci della nota giornaliera',
+        settingCaptureFormatDesc: 'Come il testo scritto dopo + nella finestra di ricerca viene aggiunto alla nota giornaliera di oggi',
+        captureFormatBullet: 'Punto elenco',
+        captureFormatTask: 'Attività',
+        settingCaptureTimestampName: 'Orario delle voci',
+        settingCaptureTimestampDesc: 'Formato Moment.js dell’orario scritto prima di ogni voce, ad es. HH:mm. Lascia vuoto per non aggiungerlo',
+        addHotkey: 'Aggiungi scorciatoia',
+        deleteHotkey: 'Rimuovi scorciatoia',
+        hotkeyActionSearch: 'Ricerca',
+        hotkeyActionCapture: 'Acquisizione rapida',
+        hotkeyActionDailyNote: 'Apri la nota giornaliera di oggi',
+        hotkeyActionSearchFolder: 'Cerca nella cartella',
+        hotkeyActionSearchTag: 'Cerca nel tag'
     },
     pt: {
         commandName: 'Abrir pesquisa global',
@@ -212,7 +758,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: 'Atalho global {0} registrado',
         settingsTitle: 'Configurações do global search',
         settingHotkeyName: 'Atalho global',
-        settingHotkeyDesc: 'Atalho do sistema para invocar a pesquisa (ex. CommandOrControl+Shift+O)',
+        settingHotkeyDesc: 'Atalhos do sistema que abrem a pesquisa, a captura rápida, a nota diária de hoje ou uma pesquisa numa pasta ou etiqueta (ex. CommandOrControl+Shift+O)',
         settingHotkeyExamples: 'Exemplos: CommandOrControl+Shift+O, Alt+Espaço, CommandOrControl+Alt+N',
         settingHotkeyNote: 'Nota: CommandOrControl usa automaticamente Cmd no macOS e Ctrl no Windows/Linux',
         settingLanguageName: 'Idioma',
@@ -222,7 +768,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: 'Gravar atalho',
         recordingHotkey: 'Gravando... Pressione sua combinação de teclas',
         pressKeyCombination: 'Pressione qualquer combinação de teclas',
-        hotkeyRecorded: 'Atalho gravado: {0}'
+        hotkeyRecorded: 'Atalho gravado: {0}',
+        indexingProgress: 'A indexar notas... {0}/{1}',
+        matchedAlias: 'Alias: {0}',
+        settingFoldDiacriticsName: 'Ignorar acentos',
+        settingFoldDiacriticsDesc: 'Corresponder letras com e sem acentos, p. ex. "acao" encontra "ação". Alterar isto reconstrói o índice de pesquisa.',
+        toggleCaseSensitive: 'Diferenciar maiúsculas e minúsculas (Alt+C)',
+        toggleWholeWord: 'Palavra inteira (Alt+W)',
+        toggleRegex: 'Usar expressão regular (Alt+R)',
+        invalidRegex: 'Expressão regular inválida',
+        searching: 'A pesquisar…',
+        settingLearnFromHistoryName: 'Aprender com as notas abertas',
+        settingLearnFromHistoryDesc: 'Mostrar mais acima as notas que abre frequentemente a partir da janela de pesquisa e as que abriu em pesquisas semelhantes',
+        commandResetHistory: 'Repor o histórico de pesquisa',
+        historyReset: 'Histórico de pesquisa reposto',
+        settingExcludePatternsName: 'Ficheiros excluídos',
+        settingExcludePatternsDesc: 'Um padrão por linha, p. ex. Templates/ ou Archive/**/*.md (* e ** correspondem a quaisquer caracteres, ** também entre pastas). Os ficheiros excluídos nas definições Ficheiros e ligações do Obsidian são sempre excluídos',
+        settingIncludePatternsName: 'Pesquisar apenas em',
+        settingIncludePatternsDesc: 'Um padrão por linha, mesma sintaxe de cima. Se definido, os ficheiros que não correspondam a nenhum padrão são excluídos',
+        settingExcludedFilesModeName: 'Ficheiros excluídos nos resultados',
+        settingExcludedFilesModeDesc: 'Ocultar os ficheiros excluídos ou mostrá-los abaixo de todos os outros resultados',
+        excludedFilesHide: 'Ocultar',
+        excludedFilesDownrank: 'Mostrar no fim',
+        didYouMean: 'Quis dizer {0}?',
+        saveSearch: 'Guardar pesquisa (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: 'Nome da pesquisa, Enter para guardar',
+        savedSearches: 'Pesquisas guardadas',
+        recentSearches: 'Pesquisas recentes',
+        commandOpenSavedSearch: 'Abrir pesquisa guardada',
+        savedSearchPlaceholder: 'Escolha uma pesquisa guardada...',
+        noSavedSearches: 'Ainda não há pesquisas guardadas. Guarde uma com o botão ☆ na janela de pesquisa.',
+        settingSavedSearchesDesc: 'Pesquisas guardadas com o botão ☆ na janela de pesquisa. São listadas quando a pesquisa está vazia e no comando "Abrir pesquisa guardada".',
+        deleteSavedSearch: 'Eliminar pesquisa guardada',
+        settingBoostLinkedNotesName: 'Favorecer notas muito ligadas',
+        settingBoostLinkedNotesDesc: 'Classificar mais acima as notas para as quais muitas outras notas apontam',
+        sortOrder: 'Ordenar resultados (Alt+S)',
+        sortRelevance: 'Relevância',
+        sortModified: 'Modificado',
+        sortCreated: 'Criado',
+        sortName: 'Nome',
+        settingCreatedPropertyName: 'Propriedade da data de criação',
+        settingCreatedPropertyDesc: 'Propriedade do frontmatter com a data de criação de uma nota, usada por created: e pela ordenação por data de criação. Se estiver vazia ou em falta, é usada a hora de criação do ficheiro.',
+        toggleTask: 'Marcar ou reabrir a tarefa (Ctrl+Enter)',
+        settingIndexCodeBlocksName: 'Pesquisar em blocos de código',
+        settingIndexCodeBlocksDesc: 'Incluir o conteúdo dos blocos de código na pesquisa',
+        settingIndexCommentsName: 'Pesquisar em comentários',
+        settingIndexCommentsDesc: 'Incluir %%comentários%% e comentários HTML, ocultos na vista de leitura',
+        settingIndexFrontmatterName: 'Pesquisar no texto do frontmatter',
+        settingIndexFrontmatterDesc: 'Incluir o YAML bruto do frontmatter, com os nomes das propriedades. Os valores das propriedades são sempre pesquisados',
+        matchCount: 'Correspondências: {0}',
+        toggleMatches: 'Mostrar ou ocultar as linhas correspondentes (→ / ←)',
+        fileTypeCanvas: 'Tela',
+        fileTypeImage: 'Imagem',
+        fileTypeAudio: 'Áudio',
+        fileTypeVideo: 'Vídeo',
+        fileTypePdf: 'PDF',
+        fileTypeOther: 'Ficheiro',
+        createNoteHint: 'Sem resultados. Shift+Enter cria a nota «{0}»',
+        captureToDailyNote: 'Adicionar à nota diária de hoje',
+        captureHint: 'Escreva o texto a adicionar depois de +',
+        capturedToDailyNote: 'Adicionado a {0}',
+        captureFailed: 'Não foi possível escrever no cofre',
+        settingQuickCaptureHeading: 'Captura rápida',
+        settingNewNoteFolderName: 'Pasta das novas notas',
+        settingNewNoteFolderDesc: 'Onde Shift+Enter na janela de pesquisa cria uma nota com o nome de uma pesquisa sem resultados. Se vazio, é usada a localização predefinida do Obsidian para novas notas',
+        settingNewNoteTemplateName: 'Modelo das novas notas',
+        settingNewNoteTemplateDesc: 'Caminho de uma nota com que começam as novas notas. {{title}}, {{date}} e {{time}} são preenchidos',
+        settingCaptureFormatName: 'Entradas da nota diária',
+        settingCaptureFormatDesc: 'Como o texto escrito depois de + na janela de pesquisa é adicionado à nota diária de hoje',
+        captureFormatBullet: 'Marcador',
+        captureFormatTask: 'Tarefa',
+        settingCaptureTimestampName: 'Hora das entradas',
+        settingCaptureTimestampDesc: 'Formato Moment.js da hora escrita antes de cada entrada, p. ex. HH:mm. Deixe vazio para não a adicionar',
+        addHotkey: 'Adicionar atalho',
+        deleteHotkey: 'Remover atalho',
+        hotkeyActionSearch: 'Pesquisa',
+        hotkeyActionCapture: 'Captura rápida',
+        hotkeyActionDailyNote: 'Abrir a nota diária de hoje',
+        hotkeyActionSearchFolder: 'Pesquisar na pasta',
+        hotkeyActionSearchTag: 'Pesquisar na etiqueta'
     },
     'pt-BR': {
         commandName: 'Abrir busca global',
@@ -240,7 +864,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: 'Atalho global {0} registrado',
         settingsTitle: 'Configurações do global search',
         settingHotkeyName: 'Atalho global',
-        settingHotkeyDesc: 'Atalho do sistema para invocar a busca (ex. CommandOrControl+Shift+O)',
+        settingHotkeyDesc: 'Atalhos do sistema que abrem a busca, a captura rápida, a nota diária de hoje ou uma busca em uma pasta ou tag (ex. CommandOrControl+Shift+O)',
         settingHotkeyExamples: 'Exemplos: CommandOrControl+Shift+O, Alt+Espaço, CommandOrControl+Alt+N',
         settingHotkeyNote: 'Nota: CommandOrControl usa automaticamente Cmd no macOS e Ctrl no Windows/Linux',
         settingLanguageName: 'Idioma',
@@ -250,7 +874,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: 'Gravar atalho',
         recordingHotkey: 'Gravando... Pressione sua combinação de teclas',
         pressKeyCombination: 'Pressione qualquer combinação de teclas',
-        hotkeyRecorded: 'Atalho gravado: {0}'
+        hotkeyRecorded: 'Atalho gravado: {0}',
+        indexingProgress: 'Indexando notas... {0}/{1}',
+        matchedAlias: 'Apelido: {0}',
+        settingFoldDiacriticsName: 'Ignorar acentos',
+        settingFoldDiacriticsDesc: 'Corresponder letras com e sem acentos, por exemplo "acao" encontra "ação". Alterar isso reconstrói o índice de busca.',
+        toggleCaseSensitive: 'Diferenciar maiúsculas e minúsculas (Alt+C)',
+        toggleWholeWord: 'Palavra inteira (Alt+W)',
+        toggleRegex: 'Usar expressão regular (Alt+R)',
+        invalidRegex: 'Expressão regular inválida',
+        searching: 'Pesquisando…',
+        settingLearnFromHistoryName: 'Aprender com as notas abertas',
+        settingLearnFromHistoryDesc: 'Mostrar mais acima as notas que você abre com frequência pela janela de busca e as que abriu em buscas parecidas',
+        commandResetHistory: 'Redefinir o histórico de busca',
+        historyReset: 'Histórico de busca redefinido',
+        settingExcludePatternsName: 'Arquivos excluídos',
+        settingExcludePatternsDesc: 'Um padrão por linha, ex.: Templates/ ou Archive/**/*.md (* e ** correspondem a quaisquer caracteres, ** também entre pastas). Arquivos excluídos nas configurações Arquivos e links do Obsidian são sempre excluídos',
+        settingIncludePatternsName: 'Buscar apenas em',
+        settingIncludePatternsDesc: 'Um padrão por linha, mesma sintaxe de cima. Quando definido, arquivos que não correspondem a nenhum padrão são excluídos',
+        settingExcludedFilesModeName: 'Arquivos excluídos nos resultados',
+        settingExcludedFilesModeDesc: 'Ocultar arquivos excluídos ou mostrá-los abaixo de todos os outros resultados',
+        excludedFilesHide: 'Ocultar',
+        excludedFilesDownrank: 'Mostrar por último',
+        didYouMean: 'Você quis dizer {0}?',
+        saveSearch: 'Salvar pesquisa (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: 'Nome da pesquisa, Enter para salvar',
+        savedSearches: 'Pesquisas salvas',
+        recentSearches: 'Pesquisas recentes',
+        commandOpenSavedSearch: 'Abrir pesquisa salva',
+        savedSearchPlaceholder: 'Escolha uma pesquisa salva...',
+        noSavedSearches: 'Nenhuma pesquisa salva ainda. Salve uma com o botão ☆ na janela de pesquisa.',
+        settingSavedSearchesDesc: 'Pesquisas salvas com o botão ☆ na janela de pesquisa. São listadas quando a pesquisa está vazia e no comando "Abrir pesquisa salva".',
+        deleteSavedSearch: 'Excluir pesquisa salva',
+        settingBoostLinkedNotesName: 'Priorizar notas muito vinculadas',
+        settingBoostLinkedNotesDesc: 'Classificar mais acima as notas vinculadas por muitas outras notas',
+        sortOrder: 'Ordenar resultados (Alt+S)',
+        sortRelevance: 'Relevância',
+        sortModified: 'Modificado',
+        sortCreated: 'Criado',
+        sortName: 'Nome',
+        settingCreatedPropertyName: 'Propriedade da data de criação',
+        settingCreatedPropertyDesc: 'Propriedade do frontmatter com a data de criação de uma nota, usada por created: e pela ordenação por data de criação. Se estiver vazia ou ausente, é usada a hora de criação do arquivo.',
+        toggleTask: 'Marcar ou reabrir a tarefa (Ctrl+Enter)',
+        settingIndexCodeBlocksName: 'Pesquisar em blocos de código',
+        settingIndexCodeBlocksDesc: 'Incluir o conteúdo dos blocos de código na pesquisa',
+        settingIndexCommentsName: 'Pesquisar em comentários',
+        settingIndexCommentsDesc: 'Incluir %%comentários%% e comentários HTML, ocultos no modo de leitura',
+        settingIndexFrontmatterName: 'Pesquisar no texto do frontmatter',
+        settingIndexFrontmatterDesc: 'Incluir o YAML bruto do frontmatter, com os nomes das propriedades. Os valores das propriedades são sempre pesquisados',
+        matchCount: 'Correspondências: {0}',
+        toggleMatches: 'Mostrar ou ocultar as linhas correspondentes (→ / ←)',
+        fileTypeCanvas: 'Canvas',
+        fileTypeImage: 'Imagem',
+        fileTypeAudio: 'Áudio',
+        fileTypeVideo: 'Vídeo',
+        fileTypePdf: 'PDF',
+        fileTypeOther: 'Arquivo',
+        createNoteHint: 'Nenhum resultado. Shift+Enter cria a nota “{0}”',
+        captureToDailyNote: 'Adicionar à nota diária de hoje',
+        captureHint: 'Digite o texto a adicionar depois de +',
+        capturedToDailyNote: 'Adicionado a {0}',
+        captureFailed: 'Não foi possível escrever no cofre',
+        settingQuickCaptureHeading: 'Captura rápida',
+        settingNewNoteFolderName: 'Pasta das novas notas',
+        settingNewNoteFolderDesc: 'Onde Shift+Enter na janela de busca cria uma nota com o nome de uma busca sem resultados. Se vazio, é usado o local padrão do Obsidian para novas notas',
+        settingNewNoteTemplateName: 'Modelo das novas notas',
+        settingNewNoteTemplateDesc: 'Caminho de uma nota com que começam as novas notas. {{title}}, {{date}} e {{time}} são preenchidos',
+        settingCaptureFormatName: 'Entradas da nota diária',
+        settingCaptureFormatDesc: 'Como o texto digitado depois de + na janela de busca é adicionado à nota diária de hoje',
+        captureFormatBullet: 'Marcador',
+        captureFormatTask: 'Tarefa',
+        settingCaptureTimestampName: 'Horário das entradas',
+        settingCaptureTimestampDesc: 'Formato Moment.js do horário escrito antes de cada entrada, por ex. HH:mm. Deixe vazio para não adicioná-lo',
+        addHotkey: 'Adicionar atalho',
+        deleteHotkey: 'Remover atalho',
+        hotkeyActionSearch: 'Busca',
+        hotkeyActionCapture: 'Captura rápida',
+        hotkeyActionDailyNote: 'Abrir a nota diária de hoje',
+        hotkeyActionSearchFolder: 'Buscar na pasta',
+        hotkeyActionSearchTag: 'Buscar na tag'
     },
     ru: {
         commandName: 'Открыть глобальный поиск',
@@ -268,7 +970,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: 'Глобальная горячая клавиша {0} зарегистрирована',
         settingsTitle: 'Настройки global search',
         settingHotkeyName: 'Глобальная горячая клавиша',
-        settingHotkeyDesc: 'Системная комбинация клавиш для вызова поиска (напр. CommandOrControl+Shift+O)',
+        settingHotkeyDesc: 'Системные комбинации клавиш, каждая из которых открывает поиск, быструю запись, сегодняшнюю ежедневную заметку или поиск в папке или по тегу (напр. CommandOrControl+Shift+O)',
         settingHotkeyExamples: 'Примеры: CommandOrControl+Shift+O, Alt+Пробел, CommandOrControl+Alt+N',
         settingHotkeyNote: 'Примечание: CommandOrControl автоматически использует Cmd на macOS и Ctrl на Windows/Linux',
         settingLanguageName: 'Язык',
@@ -278,7 +980,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: 'Записать комбинацию',
         recordingHotkey: 'Запись... Нажмите комбинацию клавиш',
         pressKeyCombination: 'Нажмите любую комбинацию клавиш',
-        hotkeyRecorded: 'Записана комбинация: {0}'
+        hotkeyRecorded: 'Записана комбинация: {0}',
+        indexingProgress: 'Индексация заметок... {0}/{1}',
+        matchedAlias: 'Псевдоним: {0}',
+        settingFoldDiacriticsName: 'Игнорировать диакритические знаки',
+        settingFoldDiacriticsDesc: 'Находить буквы с диакритическими знаками и без них, например "еж" найдёт "ёж". Изменение перестраивает поисковый индекс.',
+        toggleCaseSensitive: 'Учитывать регистр (Alt+C)',
+        toggleWholeWord: 'Слово целиком (Alt+W)',
+        toggleRegex: 'Регулярное выражение (Alt+R)',
+        invalidRegex: 'Недопустимое регулярное выражение',
+        searching: 'Поиск…',
+        settingLearnFromHistoryName: 'Учитывать открытые заметки',
+        settingLearnFromHistoryDesc: 'Показывать выше заметки, которые вы часто открываете из окна поиска, и те, что открывали при похожих запросах',
+        commandResetHistory: 'Сбросить историю поиска',
+        historyReset: 'История поиска сброшена',
+        settingExcludePatternsName: 'Исключённые файлы',
+        settingExcludePatternsDesc: 'Один шаблон в строке, например Templates/ или Archive/**/*.md (* и ** совпадают с любыми символами, ** также через папки). Файлы, исключённые в настройках Obsidian «Файлы и ссылки», исключаются всегда',
+        settingIncludePatternsName: 'Искать только в',
+        settingIncludePatternsDesc: 'Один шаблон в строке, синтаксис как выше. Если задано, файлы, не подходящие ни под один шаблон, исключаются',
+        settingExcludedFilesModeName: 'Исключённые файлы в результатах',
+        settingExcludedFilesModeDesc: 'Скрывать исключённые файлы или показывать их ниже остальных результатов',
+        excludedFilesHide: 'Скрывать',
+        excludedFilesDownrank: 'Показывать в конце',
+        didYouMean: 'Возможно, вы имели в виду {0}?',
+        saveSearch: 'Сохранить поиск (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: 'Название поиска, Enter для сохранения',
+        savedSearches: 'Сохранённые поиски',
+        recentSearches: 'Недавние поиски',
+        commandOpenSavedSearch: 'Открыть сохранённый поиск',
+        savedSearchPlaceholder: 'Выберите сохранённый поиск...',
+        noSavedSearches: 'Сохранённых поисков пока нет. Сохраните поиск кнопкой ☆ в окне поиска.',
+        settingSavedSearchesDesc: 'Поиски, сохранённые кнопкой ☆ в окне поиска. Они показываются при пустом запросе и в команде "Открыть сохранённый поиск".',
+        deleteSavedSearch: 'Удалить сохранённый поиск',
+        settingBoostLinkedNotesName: 'Повышать заметки с множеством ссылок',
+        settingBoostLinkedNotesDesc: 'Показывать выше заметки, на которые ссылаются многие другие заметки',
+        sortOrder: 'Сортировка результатов (Alt+S)',
+        sortRelevance: 'Релевантность',
+        sortModified: 'Изменено',
+        sortCreated: 'Создано',
+        sortName: 'Имя',
+        settingCreatedPropertyName: 'Свойство даты создания',
+        settingCreatedPropertyDesc: 'Свойство frontmatter с датой создания заметки, используется в created: и при сортировке по дате создания. Если пусто или отсутствует, используется время создания файла.',
+        toggleTask: 'Отметить или снова открыть задачу (Ctrl+Enter)',
+        settingIndexCodeBlocksName: 'Искать в блоках кода',
+        settingIndexCodeBlocksDesc: 'Включать содержимое блоков кода в поиск',
+        settingIndexCommentsName: 'Искать в комментариях',
+        settingIndexCommentsDesc: 'Включать %%комментарии%% и HTML-комментарии, скрытые в режиме чтения',
+        settingIndexFrontmatterName: 'Искать в тексте frontmatter',
+        settingIndexFrontmatterDesc: 'Включать исходный YAML frontmatter вместе с именами свойств. Значения свойств ищутся в любом случае',
+        matchCount: 'Совпадений: {0}',
+        toggleMatches: 'Показать или скрыть совпадающие строки (→ / ←)',
+        fileTypeCanvas: 'Холст',
+        fileTypeImage: 'Изображение',
+        fileTypeAudio: 'Аудио',
+        fileTypeVideo: 'Видео',
+        fileTypePdf: 'PDF',
+        fileTypeOther: 'Файл',
+        createNoteHint: 'Ничего не найдено. Shift+Enter создаст заметку «{0}»',
+        captureToDailyNote: 'Добавить в сегодняшнюю ежедневную заметку',
+        captureHint: 'Введите текст для добавления после +',
+        capturedToDailyNote: 'Добавлено в {0}',
+        captureFailed: 'Не удалось записать в хранилище',
+        settingQuickCaptureHeading: 'Быстрая запись',
+        settingNewNoteFolderName: 'Папка для новых заметок',
+        settingNewNoteFolderDesc: 'Куда Shift+Enter в окне поиска сохраняет заметку с именем поиска без результатов. Если пусто, используется стандартное расположение новых заметок Obsidian',
+        settingNewNoteTemplateName: 'Шаблон новых заметок',
+        settingNewNoteTemplateDesc: 'Путь к заметке, с которой начинаются новые заметки. {{title}}, {{date}} и {{time}} в ней заполняются',
+        settingCaptureFormatName: 'Записи в ежедневной заметке',
+        settingCaptureFormatDesc: 'Как текст, введённый после + в окне поиска, добавляется в сегодняшнюю ежедневную заметку',
+        captureFormatBullet: 'Пункт списка',
+        captureFormatTask: 'Задача',
+        settingCaptureTimestampName: 'Время записи',
+        settingCaptureTimestampDesc: 'Формат Moment.js времени перед каждой записью, например HH:mm. Оставьте пустым, чтобы не добавлять время',
+        addHotkey: 'Добавить комбинацию',
+        deleteHotkey: 'Удалить комбинацию',
+        hotkeyActionSearch: 'Поиск',
+        hotkeyActionCapture: 'Быстрая запись',
+        hotkeyActionDailyNote: 'Открыть сегодняшнюю ежедневную заметку',
+        hotkeyActionSearchFolder: 'Искать в папке',
+        hotkeyActionSearchTag: 'Искать по тегу'
     },
     ja: {
         commandName: 'グローバル検索を開く',
@@ -296,7 +1076,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: 'グローバルホットキー{0}を登録しました',
         settingsTitle: 'global search設定',
         settingHotkeyName: 'グローバルホットキー',
-        settingHotkeyDesc: '検索を呼び出すシステム全体のホットキー (例: CommandOrControl+Shift+O)',
+        settingHotkeyDesc: '検索、クイックキャプチャ、今日のデイリーノート、フォルダやタグ内の検索をそれぞれ開くシステム全体のホットキー (例: CommandOrControl+Shift+O)',
         settingHotkeyExamples: '例: CommandOrControl+Shift+O、Alt+Space、CommandOrControl+Alt+N',
         settingHotkeyNote: '注: CommandOrControlはmacOSではCmd、Windows/LinuxではCtrlを自動的に使用します',
         settingLanguageName: '言語',
@@ -306,7 +1086,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: 'ホットキーを記録',
         recordingHotkey: '記録中... キーの組み合わせを押してください',
         pressKeyCombination: '任意のキーの組み合わせを押してください',
-        hotkeyRecorded: 'ホットキーを記録しました: {0}'
+        hotkeyRecorded: 'ホットキーを記録しました: {0}',
+        indexingProgress: 'ノートをインデックス中... {0}/{1}',
+        matchedAlias: 'エイリアス: {0}',
+        settingFoldDiacriticsName: 'アクセント記号を無視',
+        settingFoldDiacriticsDesc: 'アクセント記号の有無を区別せずに検索します（例: "zurich" で "Zürich" が見つかります）。変更すると検索インデックスが再構築されます。',
+        toggleCaseSensitive: '大文字と小文字を区別 (Alt+C)',
+        toggleWholeWord: '単語単位で検索 (Alt+W)',
+        toggleRegex: '正規表現を使用 (Alt+R)',
+        invalidRegex: '無効な正規表現です',
+        searching: '検索中…',
+        settingLearnFromHistoryName: '開いたノートから学習',
+        settingLearnFromHistoryDesc: '検索ウィンドウからよく開くノートや、似た検索で開いたノートを上位に表示します',
+        commandResetHistory: '検索履歴をリセット',
+        historyReset: '検索履歴をリセットしました',
+        settingExcludePatternsName: '除外するファイル',
+        settingExcludePatternsDesc: '1行に1パターン(例: Templates/ や Archive/**/*.md)。* と ** は任意の文字に一致し、** はフォルダーをまたいで一致します。Obsidian の「ファイルとリンク」設定で除外したファイルは常に除外されます',
+        settingIncludePatternsName: '検索対象を限定',
+        settingIncludePatternsDesc: '1行に1パターン(構文は上と同じ)。設定すると、どのパターンにも一致しないファイルは除外されます',
+        settingExcludedFilesModeName: '検索結果での除外ファイル',
+        settingExcludedFilesModeDesc: '除外したファイルを非表示にするか、他の結果より下に表示します',
+        excludedFilesHide: '非表示',
+        excludedFilesDownrank: '最後に表示',
+        didYouMean: 'もしかして: {0}',
+        saveSearch: '検索を保存 (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: '保存する検索の名前（Enter で保存）',
+        savedSearches: '保存した検索',
+        recentSearches: '最近の検索',
+        commandOpenSavedSearch: '保存した検索を開く',
+        savedSearchPlaceholder: '保存した検索を選択...',
+        noSavedSearches: '保存した検索はまだありません。検索ウィンドウの ☆ ボタンで保存できます。',
+        settingSavedSearchesDesc: '検索ウィンドウの ☆ ボタンで保存した検索。検索が空のときと「保存した検索を開く」コマンドに表示されます。',
+        deleteSavedSearch: '保存した検索を削除',
+        settingBoostLinkedNotesName: 'リンクの多いノートを優先',
+        settingBoostLinkedNotesDesc: '多くのノートからリンクされているノートを上位に表示します',
+        sortOrder: '結果を並べ替え (Alt+S)',
+        sortRelevance: '関連度',
+        sortModified: '更新日',
+        sortCreated: '作成日',
+        sortName: '名前',
+        settingCreatedPropertyName: '作成日のプロパティ',
+        settingCreatedPropertyDesc: 'ノートの作成日を保持するフロントマターのプロパティ。created: と作成日順の並べ替えで使われます。空または存在しない場合はファイルの作成日時を使います。',
+        toggleTask: 'タスクを完了または未完了に戻す (Ctrl+Enter)',
+        settingIndexCodeBlocksName: 'コードブロックを検索',
+        settingIndexCodeBlocksDesc: 'コードブロックの内容を検索対象に含めます',
+        settingIndexCommentsName: 'コメントを検索',
+        settingIndexCommentsDesc: '閲覧モードで非表示の %%コメント%% と HTML コメントを含めます',
+        settingIndexFrontmatterName: 'フロントマターのテキストを検索',
+        settingIndexFrontmatterDesc: 'プロパティ名を含むフロントマターの YAML をそのまま含めます。プロパティの値は常に検索されます',
+        matchCount: '一致: {0}',
+        toggleMatches: '一致する行を表示/非表示 (→ / ←)',
+        fileTypeCanvas: 'キャンバス',
+        fileTypeImage: '画像',
+        fileTypeAudio: '音声',
+        fileTypeVideo: '動画',
+        fileTypePdf: 'PDF',
+        fileTypeOther: 'ファイル',
+        createNoteHint: '結果がありません。Shift+Enter でノート「{0}」を作成します',
+        captureToDailyNote: '今日のデイリーノートに追加',
+        captureHint: '+ の後に追加するテキストを入力',
+        capturedToDailyNote: '{0} に追加しました',
+        captureFailed: '保管庫に書き込めませんでした',
+        settingQuickCaptureHeading: 'クイックキャプチャ',
+        settingNewNoteFolderName: '新規ノートのフォルダ',
+        settingNewNoteFolderDesc: '検索ウィンドウで Shift+Enter を押したとき、結果のない検索の名前でノートを作成するフォルダ。空の場合は Obsidian の新規ノートの既定の場所を使います',
+        settingNewNoteTemplateName: '新規ノートのテンプレート',
+        settingNewNoteTemplateDesc: '新規ノートの内容の元になるノートのパス。{{title}}、{{date}}、{{time}} は置き換えられます',
+        settingCaptureFormatName: 'デイリーノートの項目',
+        settingCaptureFormatDesc: '検索ウィンドウで + の後に入力したテキストを今日のデイリーノートに追加する形式',
+        captureFormatBullet: '箇条書き',
+        captureFormatTask: 'タスク',
+        settingCaptureTimestampName: '項目のタイムスタンプ',
+        settingCaptureTimestampDesc: '各項目の前に書く時刻の Moment.js 形式（例: HH:mm）。空にすると時刻を付けません',
+        addHotkey: 'ホットキーを追加',
+        deleteHotkey: 'ホットキーを削除',
+        hotkeyActionSearch: '検索',
+        hotkeyActionCapture: 'クイックキャプチャ',
+        hotkeyActionDailyNote: '今日のデイリーノートを開く',
+        hotkeyActionSearchFolder: 'フォルダ内を検索',
+        hotkeyActionSearchTag: 'タグ内を検索'
     },
     ko: {
         commandName: '전역 검색 열기',
@@ -324,7 +1182,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: '전역 단축키 {0}이(가) 등록되었습니다',
         settingsTitle: 'global search 설정',
         settingHotkeyName: '전역 단축키',
-        settingHotkeyDesc: '검색을 호출할 시스템 전체 단축키 (예: CommandOrControl+Shift+O)',
+        settingHotkeyDesc: '검색, 빠른 기록, 오늘의 데일리 노트, 폴더나 태그 안의 검색을 각각 여는 시스템 전체 단축키 (예: CommandOrControl+Shift+O)',
         settingHotkeyExamples: '예시: CommandOrControl+Shift+O, Alt+Space, CommandOrControl+Alt+N',
         settingHotkeyNote: '참고: CommandOrControl은 macOS에서 Cmd, Windows/Linux에서 Ctrl을 자동으로 사용합니다',
         settingLanguageName: '언어',
@@ -334,7 +1192,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: '단축키 기록',
         recordingHotkey: '기록 중... 키 조합을 누르세요',
         pressKeyCombination: '아무 키 조합을 누르세요',
-        hotkeyRecorded: '단축키 기록됨: {0}'
+        hotkeyRecorded: '단축키 기록됨: {0}',
+        indexingProgress: '노트 색인 중... {0}/{1}',
+        matchedAlias: '별칭: {0}',
+        settingFoldDiacriticsName: '악센트 무시',
+        settingFoldDiacriticsDesc: '악센트가 있는 글자와 없는 글자를 같게 검색합니다(예: "zurich"로 "Zürich" 검색). 변경하면 검색 색인이 다시 만들어집니다.',
+        toggleCaseSensitive: '대/소문자 구분 (Alt+C)',
+        toggleWholeWord: '단어 단위로 (Alt+W)',
+        toggleRegex: '정규식 사용 (Alt+R)',
+        invalidRegex: '잘못된 정규식입니다',
+        searching: '검색 중…',
+        settingLearnFromHistoryName: '연 노트에서 학습',
+        settingLearnFromHistoryDesc: '검색 창에서 자주 여는 노트와 비슷한 검색에서 연 노트를 더 위에 표시합니다',
+        commandResetHistory: '검색 기록 초기화',
+        historyReset: '검색 기록을 초기화했습니다',
+        settingExcludePatternsName: '제외할 파일',
+        settingExcludePatternsDesc: '한 줄에 하나의 패턴 (예: Templates/ 또는 Archive/**/*.md). * 와 ** 는 모든 문자와 일치하며 ** 는 폴더를 넘어서도 일치합니다. Obsidian의 파일 및 링크 설정에서 제외한 파일은 항상 제외됩니다',
+        settingIncludePatternsName: '다음에서만 검색',
+        settingIncludePatternsDesc: '한 줄에 하나의 패턴 (위와 같은 문법). 설정하면 어떤 패턴과도 일치하지 않는 파일은 제외됩니다',
+        settingExcludedFilesModeName: '결과의 제외된 파일',
+        settingExcludedFilesModeDesc: '제외된 파일을 숨기거나 다른 결과 아래에 표시합니다',
+        excludedFilesHide: '숨기기',
+        excludedFilesDownrank: '마지막에 표시',
+        didYouMean: '혹시 {0}을(를) 찾으셨나요?',
+        saveSearch: '검색 저장 (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: '저장할 검색 이름 (Enter로 저장)',
+        savedSearches: '저장된 검색',
+        recentSearches: '최근 검색',
+        commandOpenSavedSearch: '저장된 검색 열기',
+        savedSearchPlaceholder: '저장된 검색 선택...',
+        noSavedSearches: '저장된 검색이 없습니다. 검색 창의 ☆ 버튼으로 저장하세요.',
+        settingSavedSearchesDesc: '검색 창의 ☆ 버튼으로 저장한 검색입니다. 검색어가 비어 있을 때와 "저장된 검색 열기" 명령에 표시됩니다.',
+        deleteSavedSearch: '저장된 검색 삭제',
+        settingBoostLinkedNotesName: '링크가 많은 노트 우선',
+        settingBoostLinkedNotesDesc: '다른 노트에서 많이 링크된 노트를 더 높게 표시합니다',
+        sortOrder: '결과 정렬 (Alt+S)',
+        sortRelevance: '관련성',
+        sortModified: '수정일',
+        sortCreated: '생성일',
+        sortName: '이름',
+        settingCreatedPropertyName: '생성일 속성',
+        settingCreatedPropertyDesc: '노트의 생성일을 담은 frontmatter 속성으로, created: 및 생성일 정렬에 사용됩니다. 비어 있거나 없으면 파일 생성 시간을 사용합니다.',
+        toggleTask: '작업 완료 또는 다시 열기 (Ctrl+Enter)',
+        settingIndexCodeBlocksName: '코드 블록 검색',
+        settingIndexCodeBlocksDesc: '코드 블록의 내용을 검색에 포함합니다',
+        settingIndexCommentsName: '주석 검색',
+        settingIndexCommentsDesc: '읽기 보기에서 숨겨지는 %%주석%% 및 HTML 주석을 포함합니다',
+        settingIndexFrontmatterName: 'frontmatter 텍스트 검색',
+        settingIndexFrontmatterDesc: '속성 이름을 포함한 frontmatter의 원본 YAML을 포함합니다. 속성 값은 항상 검색됩니다',
+        matchCount: '일치: {0}',
+        toggleMatches: '일치하는 줄 표시/숨기기 (→ / ←)',
+        fileTypeCanvas: '캔버스',
+        fileTypeImage: '이미지',
+        fileTypeAudio: '오디오',
+        fileTypeVideo: '동영상',
+        fileTypePdf: 'PDF',
+        fileTypeOther: '파일',
+        createNoteHint: '결과가 없습니다. Shift+Enter로 노트 “{0}”을(를) 만듭니다',
+        captureToDailyNote: '오늘의 데일리 노트에 추가',
+        captureHint: '+ 뒤에 추가할 텍스트를 입력하세요',
+        capturedToDailyNote: '{0}에 추가했습니다',
+        captureFailed: '보관소에 쓸 수 없습니다',
+        settingQuickCaptureHeading: '빠른 기록',
+        settingNewNoteFolderName: '새 노트 폴더',
+        settingNewNoteFolderDesc: '검색 창에서 Shift+Enter로 결과가 없는 검색어 이름의 노트를 만들 위치입니다. 비워 두면 Obsidian의 새 노트 기본 위치를 사용합니다',
+        settingNewNoteTemplateName: '새 노트 템플릿',
+        settingNewNoteTemplateDesc: '새 노트의 시작 내용이 될 노트의 경로입니다. {{title}}, {{date}}, {{time}}이 채워집니다',
+        settingCaptureFormatName: '데일리 노트 항목',
+        settingCaptureFormatDesc: '검색 창에서 + 뒤에 입력한 텍스트를 오늘의 데일리 노트에 추가하는 방식',
+        captureFormatBullet: '글머리 기호',
+        captureFormatTask: '작업',
+        settingCaptureTimestampName: '항목 타임스탬프',
+        settingCaptureTimestampDesc: '각 항목 앞에 쓰는 시간의 Moment.js 형식(예: HH:mm). 비워 두면 시간을 넣지 않습니다',
+        addHotkey: '단축키 추가',
+        deleteHotkey: '단축키 삭제',
+        hotkeyActionSearch: '검색',
+        hotkeyActionCapture: '빠른 기록',
+        hotkeyActionDailyNote: '오늘의 데일리 노트 열기',
+        hotkeyActionSearchFolder: '폴더에서 검색',
+        hotkeyActionSearchTag: '태그에서 검색'
     },
     zh: {
         commandName: '打开全局搜索',
@@ -352,7 +1288,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: '全局快捷键 {0} 已注册',
         settingsTitle: 'global search 设置',
         settingHotkeyName: '全局快捷键',
-        settingHotkeyDesc: '用于调用搜索的系统级快捷键（例如 CommandOrControl+Shift+O）',
+        settingHotkeyDesc: '系统级快捷键，可分别打开搜索、快速记录、今天的日记，或在文件夹或标签中搜索（例如 CommandOrControl+Shift+O）',
         settingHotkeyExamples: '示例：CommandOrControl+Shift+O、Alt+空格、CommandOrControl+Alt+N',
         settingHotkeyNote: '注意：CommandOrControl 在 macOS 上自动使用 Cmd，在 Windows/Linux 上使用 Ctrl',
         settingLanguageName: '语言',
@@ -362,7 +1298,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: '录制快捷键',
         recordingHotkey: '录制中... 请按下您的组合键',
         pressKeyCombination: '按下任意组合键',
-        hotkeyRecorded: '已录制快捷键：{0}'
+        hotkeyRecorded: '已录制快捷键：{0}',
+        indexingProgress: '正在索引笔记... {0}/{1}',
+        matchedAlias: '别名：{0}',
+        settingFoldDiacriticsName: '忽略变音符号',
+        settingFoldDiacriticsDesc: '匹配带或不带变音符号的字母，例如 "zurich" 可找到 "Zürich"。更改后会重建搜索索引。',
+        toggleCaseSensitive: '区分大小写 (Alt+C)',
+        toggleWholeWord: '全字匹配 (Alt+W)',
+        toggleRegex: '使用正则表达式 (Alt+R)',
+        invalidRegex: '正则表达式无效',
+        searching: '正在搜索…',
+        settingLearnFromHistoryName: '从打开的笔记中学习',
+        settingLearnFromHistoryDesc: '将经常从搜索窗口打开的笔记以及在类似搜索中打开过的笔记排在更前面',
+        commandResetHistory: '重置搜索历史',
+        historyReset: '搜索历史已重置',
+        settingExcludePatternsName: '排除的文件',
+        settingExcludePatternsDesc: '每行一个模式,例如 Templates/ 或 Archive/**/*.md(* 和 ** 匹配任意字符,** 还可跨文件夹)。在 Obsidian 的“文件与链接”设置中排除的文件始终被排除',
+        settingIncludePatternsName: '仅搜索',
+        settingIncludePatternsDesc: '每行一个模式,语法同上。设置后,不匹配任何模式的文件将被排除',
+        settingExcludedFilesModeName: '结果中的排除文件',
+        settingExcludedFilesModeDesc: '隐藏排除的文件,或将其显示在其他结果之后',
+        excludedFilesHide: '隐藏',
+        excludedFilesDownrank: '最后显示',
+        didYouMean: '您是不是要找 {0}?',
+        saveSearch: '保存搜索 (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: '搜索名称，按 Enter 保存',
+        savedSearches: '已保存的搜索',
+        recentSearches: '最近的搜索',
+        commandOpenSavedSearch: '打开已保存的搜索',
+        savedSearchPlaceholder: '选择已保存的搜索...',
+        noSavedSearches: '还没有已保存的搜索。可在搜索窗口中点击 ☆ 按钮保存。',
+        settingSavedSearchesDesc: '通过搜索窗口中的 ☆ 按钮保存的搜索。搜索为空时以及在“打开已保存的搜索”命令中显示。',
+        deleteSavedSearch: '删除已保存的搜索',
+        settingBoostLinkedNotesName: '优先显示链接多的笔记',
+        settingBoostLinkedNotesDesc: '被许多其他笔记链接的笔记排名更高',
+        sortOrder: '结果排序 (Alt+S)',
+        sortRelevance: '相关性',
+        sortModified: '修改时间',
+        sortCreated: '创建时间',
+        sortName: '名称',
+        settingCreatedPropertyName: '创建日期属性',
+        settingCreatedPropertyDesc: '保存笔记创建日期的 frontmatter 属性，用于 created: 和按创建日期排序。为空或缺失时使用文件创建时间。',
+        toggleTask: '勾选或重新打开任务 (Ctrl+Enter)',
+        settingIndexCodeBlocksName: '搜索代码块',
+        settingIndexCodeBlocksDesc: '在搜索中包含代码块的内容',
+        settingIndexCommentsName: '搜索注释',
+        settingIndexCommentsDesc: '包含在阅读视图中隐藏的 %%注释%% 和 HTML 注释',
+        settingIndexFrontmatterName: '搜索 frontmatter 文本',
+        settingIndexFrontmatterDesc: '包含 frontmatter 的原始 YAML（含属性名）。属性值始终会被搜索',
+        matchCount: '匹配：{0}',
+        toggleMatches: '显示或隐藏匹配的行 (→ / ←)',
+        fileTypeCanvas: '白板',
+        fileTypeImage: '图片',
+        fileTypeAudio: '音频',
+        fileTypeVideo: '视频',
+        fileTypePdf: 'PDF',
+        fileTypeOther: '文件',
+        createNoteHint: '没有结果。按 Shift+Enter 创建笔记“{0}”',
+        captureToDailyNote: '添加到今天的日记',
+        captureHint: '在 + 后输入要添加的文本',
+        capturedToDailyNote: '已添加到 {0}',
+        captureFailed: '无法写入仓库',
+        settingQuickCaptureHeading: '快速记录',
+        settingNewNoteFolderName: '新笔记文件夹',
+        settingNewNoteFolderDesc: '在搜索窗口中按 Shift+Enter 时，以无结果的搜索命名的笔记创建在此处。留空则使用 Obsidian 新笔记的默认位置',
+        settingNewNoteTemplateName: '新笔记模板',
+        settingNewNoteTemplateDesc: '新笔记起始内容所用笔记的路径。其中的 {{title}}、{{date}} 和 {{time}} 会被填入',
+        settingCaptureFormatName: '日记条目',
+        settingCaptureFormatDesc: '在搜索窗口中 + 后输入的文本以何种形式添加到今天的日记',
+        captureFormatBullet: '列表项',
+        captureFormatTask: '任务',
+        settingCaptureTimestampName: '条目时间戳',
+        settingCaptureTimestampDesc: '每个条目前写入的时间的 Moment.js 格式，例如 HH:mm。留空则不写时间',
+        addHotkey: '添加快捷键',
+        deleteHotkey: '删除快捷键',
+        hotkeyActionSearch: '搜索',
+        hotkeyActionCapture: '快速记录',
+        hotkeyActionDailyNote: '打开今天的日记',
+        hotkeyActionSearchFolder: '在文件夹中搜索',
+        hotkeyActionSearchTag: '在标签中搜索'
     },
     'zh-TW': {
         commandName: '開啟全域搜尋',
@@ -380,7 +1394,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: '全域快捷鍵 {0} 已註冊',
         settingsTitle: 'global search 設定',
         settingHotkeyName: '全域快捷鍵',
-        settingHotkeyDesc: '用於呼叫搜尋的系統級快捷鍵（例如 CommandOrControl+Shift+O）',
+        settingHotkeyDesc: '系統級快捷鍵，可分別開啟搜尋、快速記錄、今天的每日筆記，或在資料夾或標籤中搜尋（例如 CommandOrControl+Shift+O）',
         settingHotkeyExamples: '範例：CommandOrControl+Shift+O、Alt+空白鍵、CommandOrControl+Alt+N',
         settingHotkeyNote: '注意：CommandOrControl 在 macOS 上自動使用 Cmd，在 Windows/Linux 上使用 Ctrl',
         settingLanguageName: '語言',
@@ -390,7 +1404,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: '錄製快捷鍵',
         recordingHotkey: '錄製中... 請按下您的組合鍵',
         pressKeyCombination: '按下任意組合鍵',
-        hotkeyRecorded: '已錄製快捷鍵：{0}'
+        hotkeyRecorded: '已錄製快捷鍵：{0}',
+        indexingProgress: '正在索引筆記... {0}/{1}',
+        matchedAlias: '別名：{0}',
+        settingFoldDiacriticsName: '忽略變音符號',
+        settingFoldDiacriticsDesc: '比對帶或不帶變音符號的字母，例如 "zurich" 可找到 "Zürich"。變更後會重建搜尋索引。',
+        toggleCaseSensitive: '大小寫須相符 (Alt+C)',
+        toggleWholeWord: '全字拼寫須相符 (Alt+W)',
+        toggleRegex: '使用規則運算式 (Alt+R)',
+        invalidRegex: '規則運算式無效',
+        searching: '搜尋中…',
+        settingLearnFromHistoryName: '從開啟的筆記中學習',
+        settingLearnFromHistoryDesc: '將經常從搜尋視窗開啟的筆記以及在類似搜尋中開啟過的筆記排在更前面',
+        commandResetHistory: '重設搜尋記錄',
+        historyReset: '搜尋記錄已重設',
+        settingExcludePatternsName: '排除的檔案',
+        settingExcludePatternsDesc: '每行一個模式,例如 Templates/ 或 Archive/**/*.md(* 和 ** 符合任意字元,** 也可跨資料夾)。在 Obsidian 的「檔案與連結」設定中排除的檔案一律排除',
+        settingIncludePatternsName: '僅搜尋',
+        settingIncludePatternsDesc: '每行一個模式,語法同上。設定後,不符合任何模式的檔案將被排除',
+        settingExcludedFilesModeName: '結果中的排除檔案',
+        settingExcludedFilesModeDesc: '隱藏排除的檔案,或將其顯示在其他結果之後',
+        excludedFilesHide: '隱藏',
+        excludedFilesDownrank: '最後顯示',
+        didYouMean: '您是不是要找 {0}?',
+        saveSearch: '儲存搜尋 (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: '搜尋名稱，按 Enter 儲存',
+        savedSearches: '已儲存的搜尋',
+        recentSearches: '最近的搜尋',
+        commandOpenSavedSearch: '開啟已儲存的搜尋',
+        savedSearchPlaceholder: '選擇已儲存的搜尋...',
+        noSavedSearches: '還沒有已儲存的搜尋。可在搜尋視窗中點擊 ☆ 按鈕儲存。',
+        settingSavedSearchesDesc: '透過搜尋視窗中的 ☆ 按鈕儲存的搜尋。搜尋為空時以及在「開啟已儲存的搜尋」命令中顯示。',
+        deleteSavedSearch: '刪除已儲存的搜尋',
+        settingBoostLinkedNotesName: '優先顯示連結多的筆記',
+        settingBoostLinkedNotesDesc: '被許多其他筆記連結的筆記排名更高',
+        sortOrder: '結果排序 (Alt+S)',
+        sortRelevance: '相關性',
+        sortModified: '修改時間',
+        sortCreated: '建立時間',
+        sortName: '名稱',
+        settingCreatedPropertyName: '建立日期屬性',
+        settingCreatedPropertyDesc: '儲存筆記建立日期的 frontmatter 屬性，用於 created: 和依建立日期排序。為空或缺少時使用檔案建立時間。',
+        toggleTask: '勾選或重新開啟任務 (Ctrl+Enter)',
+        settingIndexCodeBlocksName: '搜尋程式碼區塊',
+        settingIndexCodeBlocksDesc: '在搜尋中包含程式碼區塊的內容',
+        settingIndexCommentsName: '搜尋註解',
+        settingIndexCommentsDesc: '包含在閱讀檢視中隱藏的 %%註解%% 與 HTML 註解',
+        settingIndexFrontmatterName: '搜尋 frontmatter 文字',
+        settingIndexFrontmatterDesc: '包含 frontmatter 的原始 YAML（含屬性名稱）。屬性值一律會被搜尋',
+        matchCount: '符合：{0}',
+        toggleMatches: '顯示或隱藏符合的行 (→ / ←)',
+        fileTypeCanvas: '白板',
+        fileTypeImage: '圖片',
+        fileTypeAudio: '音訊',
+        fileTypeVideo: '影片',
+        fileTypePdf: 'PDF',
+        fileTypeOther: '檔案',
+        createNoteHint: '沒有結果。按 Shift+Enter 建立筆記「{0}」',
+        captureToDailyNote: '新增到今天的每日筆記',
+        captureHint: '在 + 後輸入要新增的文字',
+        capturedToDailyNote: '已新增到 {0}',
+        captureFailed: '無法寫入儲存庫',
+        settingQuickCaptureHeading: '快速記錄',
+        settingNewNoteFolderName: '新筆記資料夾',
+        settingNewNoteFolderDesc: '在搜尋視窗中按 Shift+Enter 時，以無結果的搜尋命名的筆記建立於此。留空則使用 Obsidian 新筆記的預設位置',
+        settingNewNoteTemplateName: '新筆記範本',
+        settingNewNoteTemplateDesc: '新筆記起始內容所用筆記的路徑。其中的 {{title}}、{{date}} 和 {{time}} 會被填入',
+        settingCaptureFormatName: '每日筆記項目',
+        settingCaptureFormatDesc: '在搜尋視窗中 + 後輸入的文字以何種形式新增到今天的每日筆記',
+        captureFormatBullet: '清單項目',
+        captureFormatTask: '任務',
+        settingCaptureTimestampName: '項目時間戳記',
+        settingCaptureTimestampDesc: '每個項目前寫入的時間的 Moment.js 格式，例如 HH:mm。留空則不寫時間',
+        addHotkey: '新增快捷鍵',
+        deleteHotkey: '移除快捷鍵',
+        hotkeyActionSearch: '搜尋',
+        hotkeyActionCapture: '快速記錄',
+        hotkeyActionDailyNote: '開啟今天的每日筆記',
+        hotkeyActionSearchFolder: '在資料夾中搜尋',
+        hotkeyActionSearchTag: '在標籤中搜尋'
     },
     nl: {
         commandName: 'Open globale zoekopdracht',
@@ -408,7 +1500,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: 'Globale sneltoets {0} geregistreerd',
         settingsTitle: 'Global search instellingen',
         settingHotkeyName: 'Globale sneltoets',
-        settingHotkeyDesc: 'Systeembrede sneltoets om de zoekopdracht aan te roepen (bijv. CommandOrControl+Shift+O)',
+        settingHotkeyDesc: 'Systeembrede sneltoetsen die elk de zoekopdracht, snel vastleggen, de dagnotitie van vandaag of een zoekopdracht in een map of tag openen (bijv. CommandOrControl+Shift+O)',
         settingHotkeyExamples: 'Voorbeelden: CommandOrControl+Shift+O, Alt+Spatie, CommandOrControl+Alt+N',
         settingHotkeyNote: 'Opmerking: CommandOrControl gebruikt automatisch Cmd op macOS en Ctrl op Windows/Linux',
         settingLanguageName: 'Taal',
@@ -418,7 +1510,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: 'Sneltoets opnemen',
         recordingHotkey: 'Opname... Druk op je toetsencombinatie',
         pressKeyCombination: 'Druk op een willekeurige toetsencombinatie',
-        hotkeyRecorded: 'Sneltoets opgenomen: {0}'
+        hotkeyRecorded: 'Sneltoets opgenomen: {0}',
+        indexingProgress: 'Notities indexeren... {0}/{1}',
+        matchedAlias: 'Alias: {0}',
+        settingFoldDiacriticsName: 'Accenten negeren',
+        settingFoldDiacriticsDesc: 'Letters met en zonder accenten matchen, bijv. "een" vindt "één". Wijzigen bouwt de zoekindex opnieuw op.',
+        toggleCaseSensitive: 'Hoofdlettergevoelig (Alt+C)',
+        toggleWholeWord: 'Heel woord (Alt+W)',
+        toggleRegex: 'Reguliere expressie gebruiken (Alt+R)',
+        invalidRegex: 'Ongeldige reguliere expressie',
+        searching: 'Zoeken…',
+        settingLearnFromHistoryName: 'Leren van geopende notities',
+        settingLearnFromHistoryDesc: 'Notities die je vaak vanuit het zoekvenster opent, en die je bij vergelijkbare zoekopdrachten opende, hoger tonen',
+        commandResetHistory: 'Zoekgeschiedenis wissen',
+        historyReset: 'Zoekgeschiedenis gewist',
+        settingExcludePatternsName: 'Uitgesloten bestanden',
+        settingExcludePatternsDesc: 'Eén patroon per regel, bijv. Templates/ of Archive/**/*.md (* en ** komen overeen met willekeurige tekens, ** ook over mappen heen). Bestanden die zijn uitgesloten in de Obsidian-instellingen Bestanden en links worden altijd uitgesloten',
+        settingIncludePatternsName: 'Alleen zoeken in',
+        settingIncludePatternsDesc: 'Eén patroon per regel, zelfde syntaxis als hierboven. Indien ingesteld worden bestanden die met geen enkel patroon overeenkomen uitgesloten',
+        settingExcludedFilesModeName: 'Uitgesloten bestanden in resultaten',
+        settingExcludedFilesModeDesc: 'Uitgesloten bestanden verbergen, of ze onder alle andere resultaten tonen',
+        excludedFilesHide: 'Verbergen',
+        excludedFilesDownrank: 'Als laatste tonen',
+        didYouMean: 'Bedoelde je {0}?',
+        saveSearch: 'Zoekopdracht opslaan (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: 'Naam van de zoekopdracht, Enter om op te slaan',
+        savedSearches: 'Opgeslagen zoekopdrachten',
+        recentSearches: 'Recente zoekopdrachten',
+        commandOpenSavedSearch: 'Opgeslagen zoekopdracht openen',
+        savedSearchPlaceholder: 'Kies een opgeslagen zoekopdracht...',
+        noSavedSearches: 'Nog geen opgeslagen zoekopdrachten. Sla er een op met de knop ☆ in het zoekvenster.',
+        settingSavedSearchesDesc: 'Zoekopdrachten opgeslagen met de knop ☆ in het zoekvenster. Ze worden getoond bij een lege zoekopdracht en in de opdracht "Opgeslagen zoekopdracht openen".',
+        deleteSavedSearch: 'Opgeslagen zoekopdracht verwijderen',
+        settingBoostLinkedNotesName: 'Veel gelinkte notities voorrang geven',
+        settingBoostLinkedNotesDesc: 'Notities waar veel andere notities naar linken hoger rangschikken',
+        sortOrder: 'Resultaten sorteren (Alt+S)',
+        sortRelevance: 'Relevantie',
+        sortModified: 'Gewijzigd',
+        sortCreated: 'Aangemaakt',
+        sortName: 'Naam',
+        settingCreatedPropertyName: 'Eigenschap voor aanmaakdatum',
+        settingCreatedPropertyDesc: 'Frontmatter-eigenschap met de aanmaakdatum van een notitie, gebruikt door created: en het sorteren op aanmaakdatum. Als deze leeg is of ontbreekt, wordt de aanmaaktijd van het bestand gebruikt.',
+        toggleTask: 'Taak afvinken of heropenen (Ctrl+Enter)',
+        settingIndexCodeBlocksName: 'Codeblokken doorzoeken',
+        settingIndexCodeBlocksDesc: 'De inhoud van codeblokken meenemen in de zoekopdracht',
+        settingIndexCommentsName: 'Opmerkingen doorzoeken',
+        settingIndexCommentsDesc: '%%Opmerkingen%% en HTML-opmerkingen meenemen, die in de leesweergave verborgen zijn',
+        settingIndexFrontmatterName: 'Frontmatter-tekst doorzoeken',
+        settingIndexFrontmatterDesc: 'De ruwe YAML van de frontmatter meenemen, inclusief eigenschapsnamen. Eigenschapswaarden worden altijd doorzocht',
+        matchCount: 'Overeenkomsten: {0}',
+        toggleMatches: 'Overeenkomende regels tonen of verbergen (→ / ←)',
+        fileTypeCanvas: 'Canvas',
+        fileTypeImage: 'Afbeelding',
+        fileTypeAudio: 'Audio',
+        fileTypeVideo: 'Video',
+        fileTypePdf: 'PDF',
+        fileTypeOther: 'Bestand',
+        createNoteHint: 'Geen resultaten. Shift+Enter maakt de notitie ‘{0}’',
+        captureToDailyNote: 'Toevoegen aan de dagnotitie van vandaag',
+        captureHint: 'Typ na + de tekst die je wilt toevoegen',
+        capturedToDailyNote: 'Toegevoegd aan {0}',
+        captureFailed: 'Kon niet naar de kluis schrijven',
+        settingQuickCaptureHeading: 'Snel vastleggen',
+        settingNewNoteFolderName: 'Map voor nieuwe notities',
+        settingNewNoteFolderDesc: 'Waar Shift+Enter in het zoekvenster een notitie maakt met de naam van een zoekopdracht zonder resultaten. Leeg: de standaardlocatie van Obsidian voor nieuwe notities',
+        settingNewNoteTemplateName: 'Sjabloon voor nieuwe notities',
+        settingNewNoteTemplateDesc: 'Pad van een notitie waarmee nieuwe notities beginnen. {{title}}, {{date}} en {{time}} worden ingevuld',
+        settingCaptureFormatName: 'Items in de dagnotitie',
+        settingCaptureFormatDesc: 'Hoe tekst die je na + in het zoekvenster typt aan de dagnotitie van vandaag wordt toegevoegd',
+        captureFormatBullet: 'Opsommingsteken',
+        captureFormatTask: 'Taak',
+        settingCaptureTimestampName: 'Tijdstempel van items',
+        settingCaptureTimestampDesc: 'Moment.js-notatie van de tijd vóór elk item, bijv. HH:mm. Laat leeg voor geen tijdstempel',
+        addHotkey: 'Sneltoets toevoegen',
+        deleteHotkey: 'Sneltoets verwijderen',
+        hotkeyActionSearch: 'Zoeken',
+        hotkeyActionCapture: 'Snel vastleggen',
+        hotkeyActionDailyNote: 'Dagnotitie van vandaag openen',
+        hotkeyActionSearchFolder: 'Zoeken in map',
+        hotkeyActionSearchTag: 'Zoeken in tag'
     },
     tr: {
         commandName: 'Genel aramayı aç',
@@ -436,7 +1606,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: 'Genel kısayol {0} kaydedildi',
         settingsTitle: 'Global search ayarları',
         settingHotkeyName: 'Genel kısayol',
-        settingHotkeyDesc: 'Aramayı çağırmak için sistem genelinde kısayol (örn. CommandOrControl+Shift+O)',
+        settingHotkeyDesc: 'Her biri aramayı, hızlı kaydı, bugünün günlük notunu ya da bir klasör veya etiket içinde aramayı açan sistem genelinde kısayollar (örn. CommandOrControl+Shift+O)',
         settingHotkeyExamples: 'Örnekler: CommandOrControl+Shift+O, Alt+Boşluk, CommandOrControl+Alt+N',
         settingHotkeyNote: 'Not: CommandOrControl macOS\'ta otomatik olarak Cmd, Windows/Linux\'ta Ctrl kullanır',
         settingLanguageName: 'Dil',
@@ -446,7 +1616,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: 'Kısayol kaydet',
         recordingHotkey: 'Kaydediliyor... Tuş kombinasyonunuzu basın',
         pressKeyCombination: 'Herhangi bir tuş kombinasyonu basın',
-        hotkeyRecorded: 'Kısayol kaydedildi: {0}'
+        hotkeyRecorded: 'Kısayol kaydedildi: {0}',
+        indexingProgress: 'Notlar dizinleniyor... {0}/{1}',
+        matchedAlias: 'Takma ad: {0}',
+        settingFoldDiacriticsName: 'Aksanları yoksay',
+        settingFoldDiacriticsDesc: 'Aksanlı ve aksansız harfleri eşleştir, ör. "sehir" ile "şehir" bulunur. Değiştirmek arama dizinini yeniden oluşturur.',
+        toggleCaseSensitive: 'Büyük/küçük harf eşleştir (Alt+C)',
+        toggleWholeWord: 'Tam sözcük eşleştir (Alt+W)',
+        toggleRegex: 'Normal ifade kullan (Alt+R)',
+        invalidRegex: 'Geçersiz normal ifade',
+        searching: 'Aranıyor…',
+        settingLearnFromHistoryName: 'Açılan notlardan öğren',
+        settingLearnFromHistoryDesc: 'Arama penceresinden sık açtığınız notları ve benzer aramalarda açtıklarınızı daha üstte göster',
+        commandResetHistory: 'Arama geçmişini sıfırla',
+        historyReset: 'Arama geçmişi sıfırlandı',
+        settingExcludePatternsName: 'Hariç tutulan dosyalar',
+        settingExcludePatternsDesc: 'Her satıra bir desen, örn. Templates/ veya Archive/**/*.md (* ve ** herhangi bir karakterle eşleşir, ** klasörler arasında da). Obsidian\'ın Dosyalar ve bağlantılar ayarlarında hariç tutulan dosyalar her zaman hariç tutulur',
+        settingIncludePatternsName: 'Yalnızca şurada ara',
+        settingIncludePatternsDesc: 'Her satıra bir desen, sözdizimi yukarıdakiyle aynı. Ayarlanırsa hiçbir desenle eşleşmeyen dosyalar hariç tutulur',
+        settingExcludedFilesModeName: 'Sonuçlarda hariç tutulan dosyalar',
+        settingExcludedFilesModeDesc: 'Hariç tutulan dosyaları gizle veya diğer tüm sonuçların altında göster',
+        excludedFilesHide: 'Gizle',
+        excludedFilesDownrank: 'En sonda göster',
+        didYouMean: 'Bunu mu demek istediniz: {0}?',
+        saveSearch: 'Aramayı kaydet (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: 'Arama adı, kaydetmek için Enter',
+        savedSearches: 'Kayıtlı aramalar',
+        recentSearches: 'Son aramalar',
+        commandOpenSavedSearch: 'Kayıtlı aramayı aç',
+        savedSearchPlaceholder: 'Kayıtlı bir arama seçin...',
+        noSavedSearches: 'Henüz kayıtlı arama yok. Arama penceresindeki ☆ düğmesiyle kaydedin.',
+        settingSavedSearchesDesc: 'Arama penceresindeki ☆ düğmesiyle kaydedilen aramalar. Arama boşken ve "Kayıtlı aramayı aç" komutunda listelenir.',
+        deleteSavedSearch: 'Kayıtlı aramayı sil',
+        settingBoostLinkedNotesName: 'Çok bağlantılı notları öne çıkar',
+        settingBoostLinkedNotesDesc: 'Birçok notun bağlantı verdiği notları daha üstte sırala',
+        sortOrder: 'Sonuçları sırala (Alt+S)',
+        sortRelevance: 'Alaka düzeyi',
+        sortModified: 'Değiştirilme',
+        sortCreated: 'Oluşturulma',
+        sortName: 'Ad',
+        settingCreatedPropertyName: 'Oluşturma tarihi özelliği',
+        settingCreatedPropertyDesc: 'Bir notun oluşturma tarihini tutan frontmatter özelliği; created: ve oluşturma tarihine göre sıralama tarafından kullanılır. Boş veya eksikse dosyanın oluşturma zamanı kullanılır.',
+        toggleTask: 'Görevi işaretle veya yeniden aç (Ctrl+Enter)',
+        settingIndexCodeBlocksName: 'Kod bloklarında ara',
+        settingIndexCodeBlocksDesc: 'Kod bloklarının içeriğini aramaya dahil et',
+        settingIndexCommentsName: 'Yorumlarda ara',
+        settingIndexCommentsDesc: 'Okuma görünümünde gizlenen %%yorumları%% ve HTML yorumlarını dahil et',
+        settingIndexFrontmatterName: 'Frontmatter metninde ara',
+        settingIndexFrontmatterDesc: 'Özellik adları dahil frontmatter\'ın ham YAML\'ını dahil et. Özellik değerleri her durumda aranır',
+        matchCount: 'Eşleşme: {0}',
+        toggleMatches: 'Eşleşen satırları göster veya gizle (→ / ←)',
+        fileTypeCanvas: 'Tuval',
+        fileTypeImage: 'Görsel',
+        fileTypeAudio: 'Ses',
+        fileTypeVideo: 'Video',
+        fileTypePdf: 'PDF',
+        fileTypeOther: 'Dosya',
+        createNoteHint: 'Sonuç yok. Shift+Enter “{0}” notunu oluşturur',
+        captureToDailyNote: 'Bugünün günlük notuna ekle',
+        captureHint: '+ işaretinden sonra eklenecek metni yazın',
+        capturedToDailyNote: '{0} notuna eklendi',
+        captureFailed: 'Kasaya yazılamadı',
+        settingQuickCaptureHeading: 'Hızlı kayıt',
+        settingNewNoteFolderName: 'Yeni notlar için klasör',
+        settingNewNoteFolderDesc: 'Arama penceresinde Shift+Enter’ın, sonuçsuz bir aramanın adını taşıyan notu oluşturduğu yer. Boşsa Obsidian’ın yeni notlar için varsayılan konumu kullanılır',
+        settingNewNoteTemplateName: 'Yeni notlar için şablon',
+        settingNewNoteTemplateDesc: 'Yeni notların başlangıç içeriği olan notun yolu. İçindeki {{title}}, {{date}} ve {{time}} doldurulur',
+        settingCaptureFormatName: 'Günlük not girdileri',
+        settingCaptureFormatDesc: 'Arama penceresinde + işaretinden sonra yazılan metnin bugünün günlük notuna nasıl ekleneceği',
+        captureFormatBullet: 'Madde işareti',
+        captureFormatTask: 'Görev',
+        settingCaptureTimestampName: 'Girdi zaman damgası',
+        settingCaptureTimestampDesc: 'Her girdinin önüne yazılan saatin Moment.js biçimi, ör. HH:mm. Zaman damgası istemiyorsanız boş bırakın',
+        addHotkey: 'Kısayol ekle',
+        deleteHotkey: 'Kısayolu kaldır',
+        hotkeyActionSearch: 'Arama',
+        hotkeyActionCapture: 'Hızlı kayıt',
+        hotkeyActionDailyNote: 'Bugünün günlük notunu aç',
+        hotkeyActionSearchFolder: 'Klasörde ara',
+        hotkeyActionSearchTag: 'Etikette ara'
     },
     uk: {
         commandName: 'Відкрити глобальний пошук',
@@ -464,7 +1712,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: 'Глобальна гаряча клавіша {0} зареєстрована',
         settingsTitle: 'Налаштування global search',
         settingHotkeyName: 'Глобальна гаряча клавіша',
-        settingHotkeyDesc: 'Системна комбінація клавіш для виклику пошуку (напр. CommandOrControl+Shift+O)',
+        settingHotkeyDesc: 'Системні комбінації клавіш, кожна з яких відкриває пошук, швидкий запис, сьогоднішню щоденну нотатку або пошук у теці чи за тегом (напр. CommandOrControl+Shift+O)',
         settingHotkeyExamples: 'Приклади: CommandOrControl+Shift+O, Alt+Пробіл, CommandOrControl+Alt+N',
         settingHotkeyNote: 'Примітка: CommandOrControl автоматично використовує Cmd на macOS і Ctrl на Windows/Linux',
         settingLanguageName: 'Мова',
@@ -474,7 +1722,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: 'Записати комбінацію',
         recordingHotkey: 'Запис... Натисніть комбінацію клавіш',
         pressKeyCombination: 'Натисніть будь-яку комбінацію клавіш',
-        hotkeyRecorded: 'Записано комбінацію: {0}'
+        hotkeyRecorded: 'Записано комбінацію: {0}',
+        indexingProgress: 'Індексування нотаток... {0}/{1}',
+        matchedAlias: 'Псевдонім: {0}',
+        settingFoldDiacriticsName: 'Ігнорувати діакритичні знаки',
+        settingFoldDiacriticsDesc: 'Знаходити літери з діакритичними знаками і без них, наприклад "ї" та "і". Зміна перебудовує пошуковий індекс.',
+        toggleCaseSensitive: 'Враховувати регістр (Alt+C)',
+        toggleWholeWord: 'Слово цілком (Alt+W)',
+        toggleRegex: 'Регулярний вираз (Alt+R)',
+        invalidRegex: 'Недійсний регулярний вираз',
+        searching: 'Пошук…',
+        settingLearnFromHistoryName: 'Враховувати відкриті нотатки',
+        settingLearnFromHistoryDesc: 'Показувати вище нотатки, які ви часто відкриваєте з вікна пошуку, і ті, що відкривали за схожими запитами',
+        commandResetHistory: 'Скинути історію пошуку',
+        historyReset: 'Історію пошуку скинуто',
+        settingExcludePatternsName: 'Виключені файли',
+        settingExcludePatternsDesc: 'Один шаблон у рядку, наприклад Templates/ або Archive/**/*.md (* і ** збігаються з будь-якими символами, ** також між папками). Файли, виключені в налаштуваннях Obsidian «Файли та посилання», виключаються завжди',
+        settingIncludePatternsName: 'Шукати лише в',
+        settingIncludePatternsDesc: 'Один шаблон у рядку, синтаксис як вище. Якщо задано, файли, що не відповідають жодному шаблону, виключаються',
+        settingExcludedFilesModeName: 'Виключені файли в результатах',
+        settingExcludedFilesModeDesc: 'Приховувати виключені файли або показувати їх нижче інших результатів',
+        excludedFilesHide: 'Приховувати',
+        excludedFilesDownrank: 'Показувати в кінці',
+        didYouMean: 'Можливо, ви мали на увазі {0}?',
+        saveSearch: 'Зберегти пошук (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: 'Назва пошуку, Enter для збереження',
+        savedSearches: 'Збережені пошуки',
+        recentSearches: 'Нещодавні пошуки',
+        commandOpenSavedSearch: 'Відкрити збережений пошук',
+        savedSearchPlaceholder: 'Виберіть збережений пошук...',
+        noSavedSearches: 'Збережених пошуків ще немає. Збережіть пошук кнопкою ☆ у вікні пошуку.',
+        settingSavedSearchesDesc: 'Пошуки, збережені кнопкою ☆ у вікні пошуку. Вони показуються при порожньому запиті та в команді "Відкрити збережений пошук".',
+        deleteSavedSearch: 'Видалити збережений пошук',
+        settingBoostLinkedNotesName: 'Підвищувати нотатки з багатьма посиланнями',
+        settingBoostLinkedNotesDesc: 'Показувати вище нотатки, на які посилається багато інших нотаток',
+        sortOrder: 'Сортування результатів (Alt+S)',
+        sortRelevance: 'Релевантність',
+        sortModified: 'Змінено',
+        sortCreated: 'Створено',
+        sortName: 'Назва',
+        settingCreatedPropertyName: 'Властивість дати створення',
+        settingCreatedPropertyDesc: 'Властивість frontmatter з датою створення нотатки, використовується в created: і під час сортування за датою створення. Якщо порожня або відсутня, використовується час створення файлу.',
+        toggleTask: 'Позначити або знову відкрити завдання (Ctrl+Enter)',
+        settingIndexCodeBlocksName: 'Шукати в блоках коду',
+        settingIndexCodeBlocksDesc: 'Включати вміст блоків коду в пошук',
+        settingIndexCommentsName: 'Шукати в коментарях',
+        settingIndexCommentsDesc: 'Включати %%коментарі%% та HTML-коментарі, приховані в режимі читання',
+        settingIndexFrontmatterName: 'Шукати в тексті frontmatter',
+        settingIndexFrontmatterDesc: 'Включати вихідний YAML frontmatter разом з назвами властивостей. Значення властивостей шукаються завжди',
+        matchCount: 'Збігів: {0}',
+        toggleMatches: 'Показати або сховати рядки зі збігами (→ / ←)',
+        fileTypeCanvas: 'Полотно',
+        fileTypeImage: 'Зображення',
+        fileTypeAudio: 'Аудіо',
+        fileTypeVideo: 'Відео',
+        fileTypePdf: 'PDF',
+        fileTypeOther: 'Файл',
+        createNoteHint: 'Нічого не знайдено. Shift+Enter створить нотатку «{0}»',
+        captureToDailyNote: 'Додати до сьогоднішньої щоденної нотатки',
+        captureHint: 'Введіть текст для додавання після +',
+        capturedToDailyNote: 'Додано до {0}',
+        captureFailed: 'Не вдалося записати до сховища',
+        settingQuickCaptureHeading: 'Швидкий запис',
+        settingNewNoteFolderName: 'Тека для нових нотаток',
+        settingNewNoteFolderDesc: 'Куди Shift+Enter у вікні пошуку зберігає нотатку з назвою пошуку без результатів. Якщо порожньо, використовується стандартне розташування нових нотаток Obsidian',
+        settingNewNoteTemplateName: 'Шаблон нових нотаток',
+        settingNewNoteTemplateDesc: 'Шлях до нотатки, з якої починаються нові нотатки. {{title}}, {{date}} і {{time}} у ній заповнюються',
+        settingCaptureFormatName: 'Записи в щоденній нотатці',
+        settingCaptureFormatDesc: 'Як текст, введений після + у вікні пошуку, додається до сьогоднішньої щоденної нотатки',
+        captureFormatBullet: 'Пункт списку',
+        captureFormatTask: 'Завдання',
+        settingCaptureTimestampName: 'Час запису',
+        settingCaptureTimestampDesc: 'Формат Moment.js часу перед кожним записом, наприклад HH:mm. Залиште порожнім, щоб не додавати час',
+        addHotkey: 'Додати комбінацію',
+        deleteHotkey: 'Видалити комбінацію',
+        hotkeyActionSearch: 'Пошук',
+        hotkeyActionCapture: 'Швидкий запис',
+        hotkeyActionDailyNote: 'Відкрити сьогоднішню щоденну нотатку',
+        hotkeyActionSearchFolder: 'Шукати в теці',
+        hotkeyActionSearchTag: 'Шукати за тегом'
     },
     cs: {
         commandName: 'Otevřít globální vyhledávání',
@@ -492,7 +1818,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: 'Globální klávesová zkratka {0} zaregistrována',
         settingsTitle: 'Nastavení global search',
         settingHotkeyName: 'Globální klávesová zkratka',
-        settingHotkeyDesc: 'Systémová klávesová zkratka pro vyvolání vyhledávání (např. CommandOrControl+Shift+O)',
+        settingHotkeyDesc: 'Systémové klávesové zkratky, které otevírají vyhledávání, rychlý záznam, dnešní denní poznámku nebo hledání ve složce či štítku (např. CommandOrControl+Shift+O)',
         settingHotkeyExamples: 'Příklady: CommandOrControl+Shift+O, Alt+Mezerník, CommandOrControl+Alt+N',
         settingHotkeyNote: 'Poznámka: CommandOrControl automaticky používá Cmd na macOS a Ctrl na Windows/Linux',
         settingLanguageName: 'Jazyk',
@@ -502,7 +1828,85 @@ export const translations: Record<string, Translation> = {
         recordHotkey: 'Nahrát zkratku',
         recordingHotkey: 'Nahrávání... Stiskněte kombinaci kláves',
         pressKeyCombination: 'Stiskněte libovolnou kombinaci kláves',
-        hotkeyRecorded: 'Zkratka nahrána: {0}'
+        hotkeyRecorded: 'Zkratka nahrána: {0}',
+        indexingProgress: 'Indexování poznámek... {0}/{1}',
+        matchedAlias: 'Alias: {0}',
+        settingFoldDiacriticsName: 'Ignorovat diakritiku',
+        settingFoldDiacriticsDesc: 'Hledat písmena s diakritikou i bez ní, např. "cesky" najde "český". Změna znovu sestaví vyhledávací index.',
+        toggleCaseSensitive: 'Rozlišovat velikost písmen (Alt+C)',
+        toggleWholeWord: 'Pouze celá slova (Alt+W)',
+        toggleRegex: 'Použít regulární výraz (Alt+R)',
+        invalidRegex: 'Neplatný regulární výraz',
+        searching: 'Hledání…',
+        settingLearnFromHistoryName: 'Učit se z otevřených poznámek',
+        settingLearnFromHistoryDesc: 'Řadit výš poznámky, které často otevíráte z okna hledání, a ty, které jste otevřeli při podobném hledání',
+        commandResetHistory: 'Obnovit historii hledání',
+        historyReset: 'Historie hledání byla obnovena',
+        settingExcludePatternsName: 'Vyloučené soubory',
+        settingExcludePatternsDesc: 'Jeden vzor na řádek, např. Templates/ nebo Archive/**/*.md (* a ** odpovídají libovolným znakům, ** i napříč složkami). Soubory vyloučené v nastavení Obsidianu Soubory a odkazy jsou vyloučeny vždy',
+        settingIncludePatternsName: 'Hledat pouze v',
+        settingIncludePatternsDesc: 'Jeden vzor na řádek, stejná syntaxe jako výše. Pokud je nastaveno, soubory neodpovídající žádnému vzoru jsou vyloučeny',
+        settingExcludedFilesModeName: 'Vyloučené soubory ve výsledcích',
+        settingExcludedFilesModeDesc: 'Skrýt vyloučené soubory, nebo je zobrazit pod ostatními výsledky',
+        excludedFilesHide: 'Skrýt',
+        excludedFilesDownrank: 'Zobrazit na konci',
+        didYouMean: 'Měli jste na mysli {0}?',
+        saveSearch: 'Uložit hledání (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: 'Název hledání, Enter pro uložení',
+        savedSearches: 'Uložená hledání',
+        recentSearches: 'Nedávná hledání',
+        commandOpenSavedSearch: 'Otevřít uložené hledání',
+        savedSearchPlaceholder: 'Vyberte uložené hledání...',
+        noSavedSearches: 'Zatím žádná uložená hledání. Uložte hledání tlačítkem ☆ v okně hledání.',
+        settingSavedSearchesDesc: 'Hledání uložená tlačítkem ☆ v okně hledání. Zobrazují se při prázdném hledání a v příkazu "Otevřít uložené hledání".',
+        deleteSavedSearch: 'Smazat uložené hledání',
+        settingBoostLinkedNotesName: 'Upřednostnit často odkazované poznámky',
+        settingBoostLinkedNotesDesc: 'Řadit výše poznámky, na které odkazuje mnoho jiných poznámek',
+        sortOrder: 'Seřadit výsledky (Alt+S)',
+        sortRelevance: 'Relevance',
+        sortModified: 'Změněno',
+        sortCreated: 'Vytvořeno',
+        sortName: 'Název',
+        settingCreatedPropertyName: 'Vlastnost data vytvoření',
+        settingCreatedPropertyDesc: 'Vlastnost frontmatteru s datem vytvoření poznámky, používaná filtrem created: a řazením podle data vytvoření. Pokud je prázdná nebo chybí, použije se čas vytvoření souboru.',
+        toggleTask: 'Odškrtnout nebo znovu otevřít úkol (Ctrl+Enter)',
+        settingIndexCodeBlocksName: 'Prohledávat bloky kódu',
+        settingIndexCodeBlocksDesc: 'Zahrnout obsah bloků kódu do hledání',
+        settingIndexCommentsName: 'Prohledávat komentáře',
+        settingIndexCommentsDesc: 'Zahrnout %%komentáře%% a komentáře HTML, které jsou v režimu čtení skryté',
+        settingIndexFrontmatterName: 'Prohledávat text frontmatteru',
+        settingIndexFrontmatterDesc: 'Zahrnout surový YAML frontmatteru včetně názvů vlastností. Hodnoty vlastností se prohledávají vždy',
+        matchCount: 'Shody: {0}',
+        toggleMatches: 'Zobrazit nebo skrýt odpovídající řádky (→ / ←)',
+        fileTypeCanvas: 'Plátno',
+        fileTypeImage: 'Obrázek',
+        fileTypeAudio: 'Zvuk',
+        fileTypeVideo: 'Video',
+        fileTypePdf: 'PDF',
+        fileTypeOther: 'Soubor',
+        createNoteHint: 'Žádné výsledky. Shift+Enter vytvoří poznámku „{0}“',
+        captureToDailyNote: 'Přidat do dnešní denní poznámky',
+        captureHint: 'Za + napište text, který chcete přidat',
+        capturedToDailyNote: 'Přidáno do {0}',
+        captureFailed: 'Do trezoru nelze zapisovat',
+        settingQuickCaptureHeading: 'Rychlý záznam',
+        settingNewNoteFolderName: 'Složka pro nové poznámky',
+        settingNewNoteFolderDesc: 'Kde Shift+Enter v okně hledání vytvoří poznámku pojmenovanou podle hledání bez výsledků. Když je prázdné, použije se výchozí umístění nových poznámek v Obsidianu',
+        settingNewNoteTemplateName: 'Šablona nových poznámek',
+        settingNewNoteTemplateDesc: 'Cesta k poznámce, kterou nové poznámky začínají. {{title}}, {{date}} a {{time}} se v ní vyplní',
+        settingCaptureFormatName: 'Záznamy v denní poznámce',
+        settingCaptureFormatDesc: 'Jak se text napsaný za + v okně hledání přidá do dnešní denní poznámky',
+        captureFormatBullet: 'Odrážka',
+        captureFormatTask: 'Úkol',
+        settingCaptureTimestampName: 'Časové razítko záznamu',
+        settingCaptureTimestampDesc: 'Formát Moment.js času zapsaného před každý záznam, např. HH:mm. Nechte prázdné pro záznam bez času',
+        addHotkey: 'Přidat zkratku',
+        deleteHotkey: 'Odebrat zkratku',
+        hotkeyActionSearch: 'Hledání',
+        hotkeyActionCapture: 'Rychlý záznam',
+        hotkeyActionDailyNote: 'Otevřít dnešní denní poznámku',
+        hotkeyActionSearchFolder: 'Hledat ve složce',
+        hotkeyActionSearchTag: 'Hledat ve štítku'
     },
     ar: {
         commandName: 'فتح البحث الشامل',
@@ -520,7 +1924,7 @@ export const translations: Record<string, Translation> = {
         globalHotkeyRegistered: 'تم تسجيل الاختصار العام {0}',
         settingsTitle: 'إعدادات global search',
         settingHotkeyName: 'الاختصار العام',
-        settingHotkeyDesc: 'اختصار على مستوى النظام لاستدعاء البحث (مثل CommandOrControl+Shift+O)',
+        settingHotkeyDesc: 'اختصارات على مستوى النظام، يفتح كل منها البحث أو التدوين السريع أو الملاحظة اليومية لهذا اليوم أو بحثًا في مجلد أو وسم (مثل CommandOrControl+Shift+O)',
         settingHotkeyExamples: 'أمثلة: CommandOrControl+Shift+O، Alt+مسافة، CommandOrControl+Alt+N',
         settingHotkeyNote: 'ملاحظة: يستخدم CommandOrControl تلقائياً Cmd على macOS و Ctrl على Windows/Linux',
         settingLanguageName: 'اللغة',
@@ -530,6 +1934,84 @@ export const translations: Record<string, Translation> = {
         recordHotkey: 'تسجيل الاختصار',
         recordingHotkey: 'جاري التسجيل... اضغط على مجموعة المفاتيح',
         pressKeyCombination: 'اضغط على أي مجموعة مفاتيح',
-        hotkeyRecorded: 'تم تسجيل الاختصار: {0}'
+        hotkeyRecorded: 'تم تسجيل الاختصار: {0}',
+        indexingProgress: 'جاري فهرسة الملاحظات... {0}/{1}',
+        matchedAlias: 'الاسم المستعار: {0}',
+        settingFoldDiacriticsName: 'تجاهل علامات التشكيل',
+        settingFoldDiacriticsDesc: 'مطابقة الحروف مع علامات التشكيل وبدونها. يؤدي التغيير إلى إعادة بناء فهرس البحث.',
+        toggleCaseSensitive: 'مطابقة حالة الأحرف (Alt+C)',
+        toggleWholeWord: 'مطابقة الكلمة بأكملها (Alt+W)',
+        toggleRegex: 'استخدام تعبير نمطي (Alt+R)',
+        invalidRegex: 'تعبير نمطي غير صالح',
+        searching: 'جارٍ البحث…',
+        settingLearnFromHistoryName: 'التعلم من الملاحظات المفتوحة',
+        settingLearnFromHistoryDesc: 'ترتيب الملاحظات التي تفتحها كثيرًا من نافذة البحث، وتلك التي فتحتها في عمليات بحث مشابهة، في مرتبة أعلى',
+        commandResetHistory: 'إعادة تعيين سجل البحث',
+        historyReset: 'تمت إعادة تعيين سجل البحث',
+        settingExcludePatternsName: 'الملفات المستبعدة',
+        settingExcludePatternsDesc: 'نمط واحد في كل سطر، مثل Templates/ أو Archive/**/*.md (* و ** تطابقان أي أحرف، و ** عبر المجلدات أيضًا). الملفات المستبعدة في إعدادات Obsidian للملفات والروابط مستبعدة دائمًا',
+        settingIncludePatternsName: 'البحث فقط في',
+        settingIncludePatternsDesc: 'نمط واحد في كل سطر، بنفس الصيغة أعلاه. عند تعيينه، تُستبعد الملفات التي لا تطابق أي نمط',
+        settingExcludedFilesModeName: 'الملفات المستبعدة في النتائج',
+        settingExcludedFilesModeDesc: 'إخفاء الملفات المستبعدة أو عرضها أسفل جميع النتائج الأخرى',
+        excludedFilesHide: 'إخفاء',
+        excludedFilesDownrank: 'عرض في النهاية',
+        didYouMean: 'هل تقصد {0}؟',
+        saveSearch: 'حفظ البحث (Ctrl/Cmd+S)',
+        saveSearchNamePlaceholder: 'اسم البحث، اضغط Enter للحفظ',
+        savedSearches: 'عمليات البحث المحفوظة',
+        recentSearches: 'عمليات البحث الأخيرة',
+        commandOpenSavedSearch: 'فتح بحث محفوظ',
+        savedSearchPlaceholder: 'اختر بحثًا محفوظًا...',
+        noSavedSearches: 'لا توجد عمليات بحث محفوظة بعد. احفظ بحثًا باستخدام الزر ☆ في نافذة البحث.',
+        settingSavedSearchesDesc: 'عمليات البحث المحفوظة باستخدام الزر ☆ في نافذة البحث. تظهر عندما يكون البحث فارغًا وفي الأمر "فتح بحث محفوظ".',
+        deleteSavedSearch: 'حذف البحث المحفوظ',
+        settingBoostLinkedNotesName: 'تعزيز الملاحظات كثيرة الروابط',
+        settingBoostLinkedNotesDesc: 'ترتيب الملاحظات التي ترتبط بها ملاحظات كثيرة في مرتبة أعلى',
+        sortOrder: 'ترتيب النتائج (Alt+S)',
+        sortRelevance: 'الصلة',
+        sortModified: 'تاريخ التعديل',
+        sortCreated: 'تاريخ الإنشاء',
+        sortName: 'الاسم',
+        settingCreatedPropertyName: 'خاصية تاريخ الإنشاء',
+        settingCreatedPropertyDesc: 'خاصية frontmatter التي تحمل تاريخ إنشاء الملاحظة، وتُستخدم في created: وفي الترتيب حسب تاريخ الإنشاء. عند فراغها أو غيابها يُستخدم وقت إنشاء الملف.',
+        toggleTask: 'تحديد المهمة أو إعادة فتحها (Ctrl+Enter)',
+        settingIndexCodeBlocksName: 'البحث في كتل التعليمات البرمجية',
+        settingIndexCodeBlocksDesc: 'تضمين محتوى كتل التعليمات البرمجية في البحث',
+        settingIndexCommentsName: 'البحث في التعليقات',
+        settingIndexCommentsDesc: 'تضمين %%التعليقات%% وتعليقات HTML المخفية في وضع القراءة',
+        settingIndexFrontmatterName: 'البحث في نص frontmatter',
+        settingIndexFrontmatterDesc: 'تضمين YAML الخام لـ frontmatter بما في ذلك أسماء الخصائص. تُبحث قيم الخصائص في جميع الأحوال',
+        matchCount: 'التطابقات: {0}',
+        toggleMatches: 'إظهار أو إخفاء الأسطر المطابقة (→ / ←)',
+        fileTypeCanvas: 'لوحة',
+        fileTypeImage: 'صورة',
+        fileTypeAudio: 'صوت',
+        fileTypeVideo: 'فيديو',
+        fileTypePdf: 'PDF',
+        fileTypeOther: 'ملف',
+        createNoteHint: 'لا توجد نتائج. يُنشئ Shift+Enter الملاحظة «{0}»',
+        captureToDailyNote: 'إضافة إلى الملاحظة اليومية لهذا اليوم',
+        captureHint: 'اكتب النص المراد إضافته بعد +',
+        capturedToDailyNote: 'تمت الإضافة إلى {0}',
+        captureFailed: 'تعذّرت الكتابة في الخزنة',
+        settingQuickCaptureHeading: 'التدوين السريع',
+        settingNewNoteFolderName: 'مجلد الملاحظات الجديدة',
+        settingNewNoteFolderDesc: 'المكان الذي يُنشئ فيه Shift+Enter في نافذة البحث ملاحظة باسم بحث بلا نتائج. إذا كان فارغًا، يُستخدم الموقع الافتراضي للملاحظات الجديدة في Obsidian',
+        settingNewNoteTemplateName: 'قالب الملاحظات الجديدة',
+        settingNewNoteTemplateDesc: 'مسار ملاحظة تبدأ بها الملاحظات الجديدة. تُملأ فيها {{title}} و{{date}} و{{time}}',
+        settingCaptureFormatName: 'إدخالات الملاحظة اليومية',
+        settingCaptureFormatDesc: 'كيفية إضافة النص المكتوب بعد + في نافذة البحث إلى الملاحظة اليومية لهذا اليوم',
+        captureFormatBullet: 'نقطة',
+        captureFormatTask: 'مهمة',
+        settingCaptureTimestampName: 'الطابع الزمني للإدخال',
+        settingCaptureTimestampDesc: 'تنسيق Moment.js للوقت المكتوب قبل كل إدخال، مثل HH:mm. اتركه فارغًا لعدم إضافة وقت',
+        addHotkey: 'إضافة اختصار',
+        deleteHotkey: 'إزالة الاختصار',
+        hotkeyActionSearch: 'البحث',
+        hotkeyActionCapture: 'التدوين السريع',
+        hotkeyActionDailyNote: 'فتح الملاحظة اليومية لهذا اليوم',
+        hotkeyActionSearchFolder: 'البحث في مجلد',
+        hotkeyActionSearchTag: 'البحث في وسم'
     }
 };
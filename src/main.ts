@@ -1,10 +1,13 @@
-import { Notice, Plugin, TFile, moment } from 'obsidian';
+import { MarkdownView, Notice, Plugin, TFile, moment } from 'obsidian';
 import { translations, Translation } from './i18n/translations';
-import { GlobalSearchSettings, DEFAULT_SETTINGS } from './settings/settings';
+import { GlobalSearchSettings, DEFAULT_SETTINGS, SavedSearch } from './settings/settings';
 import { GlobalSearchSettingTab } from './settings/SettingsTab';
 import { NoteSearchModal } from './modals/NoteSearchModal';
+import { SavedSearchModal } from './modals/SavedSearchModal';
 import { SearchWindowView } from './views/SearchWindowView';
 import { ElectronService } from './services/ElectronService';
+import type { MatchLocation } from './services/SearchService';
+import type { RecentSearch } from './services/OpenHistory';
 
 export default class GlobalSearchPlugin extends Plugin {
     settings: GlobalSearchSettings;
@@ -46,6 +49,27 @@ export default class GlobalSearchPlugin extends Plugin {
                 }
             });
 
+            this.addCommand({
+                id: 'open-saved-search',
+                name: this.t('commandOpenSavedSearch'),
+                callback: () => {
+                    if (this.settings.savedSearches.length === 0) {
+                        new Notice(this.t('noSavedSearches'));
+                        return;
+                    }
+                    new SavedSearchModal(this.app, this).open();
+                }
+            });
+
+            this.addCommand({
+                id: 'reset-search-history',
+                name: this.t('commandResetHistory'),
+                callback: () => {
+                    this.electronService.resetSearchHistory();
+                    new Notice(this.t('historyReset'));
+                }
+            });
+
             this.addSettingTab(new GlobalSearchSettingTab(this.app, this));
 
             this.electronService.initialize();
@@ -59,42 +83,75 @@ export default class GlobalSearchPlugin extends Plugin {
         this.electronService.cleanup();
     }
 
-    registerGlobalHotkey() {
-        this.electronService.registerGlobalHotkey();
+    registerGlobalHotkeys() {
+        this.electronService.registerGlobalHotkeys();
+    }
+
+    refreshSearchIndex() {
+        this.electronService.refreshSearchIndex();
     }
 
-    openSearchModal() {
+    // Opens the search window, running `initialSearch` right away if given
+    openSearchModal(initialSearch?: RecentSearch) {
         this.electronService.closeSearchWindow();
-        this.createSearchWindow();
+        this.createSearchWindow(initialSearch);
     }
 
-    createSearchWindow() {
+    createSearchWindow(initialSearch?: RecentSearch) {
         if (!this.electronService.hasElectron()) {
-            new NoteSearchModal(this.app, this).open();
+            new NoteSearchModal(this.app, this, initialSearch?.query).open();
             return;
         }
 
         const isDark = document.body.classList.contains('theme-dark');
         const lang = this.getLanguage();
-        const html = this.searchWindowView.generateSearchHTML(isDark, translations[lang]);
+        const html = this.searchWindowView.generateSearchHTML(isDark, translations[lang], initialSearch ?? null);
 
         const created = this.electronService.createSearchWindow(html);
         if (!created) {
-            new NoteSearchModal(this.app, this).open();
+            new NoteSearchModal(this.app, this, initialSearch?.query).open();
         }
     }
 
-    async openFileInNewWindow(file: TFile) {
+    // Saves a search, replacing the saved search with the same name
+    async saveSearch(search: SavedSearch) {
+        this.settings.savedSearches = this.settings.savedSearches
+            .filter(saved => saved.name !== search.name)
+            .concat(search);
+        await this.saveSettings();
+    }
+
+    async openFileInNewWindow(file: TFile, subpath?: string, location?: MatchLocation) {
         try {
             const leaf = this.app.workspace.getLeaf('tab');
-            await leaf.openFile(file);
+            // The markdown view scrolls to a '#Heading' or '#^blockid' subpath passed as ephemeral state
+            await leaf.openFile(file, subpath ? { eState: { subpath } } : undefined);
+
+            // Content matches: put the cursor on the matched text and select it
+            if (location && leaf.view instanceof MarkdownView) {
+                const editor = leaf.view.editor;
+                const line = Math.min(location.line, editor.lastLine());
+                const from = { line, ch: location.ch };
+                const to = { line, ch: location.ch + location.length };
+                editor.setSelection(from, to);
+                editor.scrollIntoView({ from, to }, true);
+                editor.focus();
+            }
         } catch (e) {
             console.error('Error opening file:', e);
         }
     }
 
     async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        const data = await this.loadData() as (Partial<GlobalSearchSettings> & { globalHotkey?: string }) | null;
+        const { globalHotkey, ...settings } = data || {};
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, settings);
+        // Before several hotkeys could be bound, there was a single one opening the search
+        if (typeof globalHotkey === 'string' && !settings.hotkeys) {
+            this.settings.hotkeys = [{ accelerator: globalHotkey, action: 'search', scope: '' }];
+        }
+        // Bindings are edited in place, which must not change the defaults
+        this.settings.hotkeys = this.settings.hotkeys.map(binding => Object.assign({}, binding));
     }
 
     async saveSettings() {
@@ -9,10 +9,11 @@ interface WorkspaceWithPopout {
 export class NoteSearchModal extends FuzzySuggestModal<TFile> {
     plugin: GlobalSearchPlugin;
 
-    constructor(app: App, plugin: GlobalSearchPlugin) {
+    constructor(app: App, plugin: GlobalSearchPlugin, query = '') {
         super(app);
         this.plugin = plugin;
         this.setPlaceholder(plugin.t('searchPlaceholder'));
+        this.inputEl.value = query;
     }
 
     getItems(): TFile[] {
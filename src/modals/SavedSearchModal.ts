@@ -0,0 +1,26 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import type GlobalSearchPlugin from '../main';
+import type { SavedSearch } from '../settings/settings';
+
+// Picks a saved search and opens the search window with it
+export class SavedSearchModal extends FuzzySuggestModal<SavedSearch> {
+    plugin: GlobalSearchPlugin;
+
+    constructor(app: App, plugin: GlobalSearchPlugin) {
+        super(app);
+        this.plugin = plugin;
+        this.setPlaceholder(plugin.t('savedSearchPlaceholder'));
+    }
+
+    getItems(): SavedSearch[] {
+        return this.plugin.settings.savedSearches;
+    }
+
+    getItemText(search: SavedSearch): string {
+        return `${search.name} (${search.query})`;
+    }
+
+    onChooseItem(search: SavedSearch, evt: MouseEvent | KeyboardEvent): void {
+        this.plugin.openSearchModal(search);
+    }
+}
@@ -4,6 +4,60 @@ interface SearchResult {
     name: string;
     score: number;
     snippet: string;
+    matchRanges?: [number, number][];
+    matchedAlias?: string;
+    matchedProperty?: { key: string; value: string };
+    modified?: number;
+    created?: number;
+    subpath?: string;
+    location?: MatchLocation;
+    heading?: string;
+    matchCount?: number;
+    passages?: SearchResultPassage[];
+    task?: TaskInfo;
+    fileType?: 'note' | 'canvas' | 'image' | 'audio' | 'video' | 'pdf' | 'other';
+}
+
+interface SearchResultPassage {
+    snippet: string;
+    matchRanges: [number, number][];
+    location?: MatchLocation;
+    heading?: string;
+}
+
+interface TaskInfo {
+    line: number;
+    checked: boolean;
+    heading?: string;
+    due?: number;
+}
+
+interface MatchLocation {
+    line: number;
+    ch: number;
+    length: number;
+}
+
+interface SearchOptions {
+    caseSensitive: boolean;
+    wholeWord: boolean;
+    regex: boolean;
+    sort: 'relevance' | 'modified' | 'created' | 'name';
+}
+
+interface RecentSearch {
+    query: string;
+    options: SearchOptions;
+}
+
+interface SavedSearch extends RecentSearch {
+    name: string;
+}
+
+interface IndexStatus {
+    indexed: number;
+    total: number;
+    isIndexing: boolean;
 }
 
 interface FilePreviewData {
@@ -14,7 +68,7 @@ interface FilePreviewData {
 }
 
 // Type definitions for IPC message arguments
-type IpcMessageArgs = string | number | boolean | SearchResult[] | FilePreviewData;
+type IpcMessageArgs = string | number | boolean | SearchResult[] | FilePreviewData | IndexStatus | MatchLocation | SearchOptions | RecentSearch[];
 
 // Type definitions for minimal Electron API needed in preload
 interface IpcRendererEvent {
@@ -29,16 +83,26 @@ interface IpcRenderer {
 }
 
 interface ElectronAPI {
-    openFile: (filePath: string) => void;
-    searchContent: (query: string) => void;
+    openFile: (filePath: string, subpath?: string, location?: MatchLocation, query?: string) => void;
+    searchContent: (query: string, options: SearchOptions, requestId: number) => void;
     getRecentFiles: () => void;
     getFilePreview: (filePath: string) => void;
+    getIndexStatus: () => void;
+    getSearchHistory: () => void;
+    saveSearch: (name: string, query: string, options: SearchOptions) => void;
+    setTaskChecked: (filePath: string, line: number, text: string, checked: boolean) => void;
+    createNote: (title: string) => void;
+    appendToDailyNote: (text: string) => void;
     resizeWindow: (width: number, height: number) => void;
     closeWindow: () => void;
-    onSearchResults: (callback: (results: SearchResult[]) => void) => void;
+    onSearchResults: (callback: (results: SearchResult[], requestId: number, done: boolean, suggestion: string) => void) => void;
     onRecentFiles: (callback: (results: SearchResult[]) => void) => void;
     onFilePreview: (callback: (data: FilePreviewData) => void) => void;
     onResetSearch: (callback: () => void) => void;
+    onIndexStatus: (callback: (status: IndexStatus) => void) => void;
+    onSearchHistory: (callback: (savedSearches: SavedSearch[], recentSearches: RecentSearch[]) => void) => void;
+    onTaskChecked: (callback: (filePath: string, line: number, checked: boolean, found: boolean) => void) => void;
+    onCaptureResult: (callback: (success: boolean, fileName: string) => void) => void;
 }
 
 interface ContextBridge {
@@ -58,16 +122,27 @@ const { contextBridge, ipcRenderer } = getElectron();
 // the ipcRenderer without exposing the entire object
 contextBridge.exposeInMainWorld('electronAPI', {
     // Send messages to main process
-    openFile: (filePath: string) => ipcRenderer.send('open-file', filePath),
-    searchContent: (query: string) => ipcRenderer.send('search-content', query),
+    openFile: (filePath: string, subpath?: string, location?: MatchLocation, query?: string) =>
+        ipcRenderer.send('open-file', filePath, subpath || '', location || '', query || ''),
+    searchContent: (query: string, options: SearchOptions, requestId: number) =>
+        ipcRenderer.send('search-content', query, options, requestId),
     getRecentFiles: () => ipcRenderer.send('get-recent-files'),
     getFilePreview: (filePath: string) => ipcRenderer.send('get-file-preview', filePath),
+    getIndexStatus: () => ipcRenderer.send('get-index-status'),
+    getSearchHistory: () => ipcRenderer.send('get-search-history'),
+    saveSearch: (name: string, query: string, options: SearchOptions) =>
+        ipcRenderer.send('save-search', name, query, options),
+    setTaskChecked: (filePath: string, line: number, text: string, checked: boolean) =>
+        ipcRenderer.send('set-task-checked', filePath, line, text, checked),
+    createNote: (title: string) => ipcRenderer.send('create-note', title),
+    appendToDailyNote: (text: string) => ipcRenderer.send('append-to-daily-note', text),
     resizeWindow: (width: number, height: number) => ipcRenderer.send('resize-window', width, height),
     closeWindow: () => ipcRenderer.send('close-window'),
 
     // Listen for messages from main process
-    onSearchResults: (callback: (results: SearchResult[]) => void) => {
-        ipcRenderer.on('search-results', (_event: IpcRendererEvent, results: SearchResult[]) => callback(results));
+    onSearchResults: (callback: (results: SearchResult[], requestId: number, done: boolean, suggestion: string) => void) => {
+        ipcRenderer.on('search-results', (_event: IpcRendererEvent, results: SearchResult[], requestId: number, done: boolean, suggestion: string) =>
+            callback(results, requestId, done, suggestion));
     },
     onRecentFiles: (callback: (results: SearchResult[]) => void) => {
         ipcRenderer.on('recent-files', (_event: IpcRendererEvent, results: SearchResult[]) => callback(results));
@@ -77,5 +152,19 @@ contextBridge.exposeInMainWorld('electronAPI', {
     },
     onResetSearch: (callback: () => void) => {
         ipcRenderer.on('reset-search', () => callback());
+    },
+    onIndexStatus: (callback: (status: IndexStatus) => void) => {
+        ipcRenderer.on('index-status', (_event: IpcRendererEvent, status: IndexStatus) => callback(status));
+    },
+    onSearchHistory: (callback: (savedSearches: SavedSearch[], recentSearches: RecentSearch[]) => void) => {
+        ipcRenderer.on('search-history', (_event: IpcRendererEvent, savedSearches: SavedSearch[], recentSearches: RecentSearch[]) =>
+            callback(savedSearches, recentSearches));
+    },
+    onTaskChecked: (callback: (filePath: string, line: number, checked: boolean, found: boolean) => void) => {
+        ipcRenderer.on('task-checked', (_event: IpcRendererEvent, filePath: string, line: number, checked: boolean, found: boolean) =>
+            callback(filePath, line, checked, found));
+    },
+    onCaptureResult: (callback: (success: boolean, fileName: string) => void) => {
+        ipcRenderer.on('capture-result', (_event: IpcRendererEvent, success: boolean, fileName: string) => callback(success, fileName));
     }
 });
@@ -0,0 +1,59 @@
+import type { AllCanvasNodeData, CanvasData } from 'obsidian/canvas';
+
+/**
+ * Reads canvas boards (.canvas files, JSON). Cards are taken in reading order:
+ * top to bottom, then left to right.
+ */
+export class CanvasReader {
+    // The cards of a board in reading order; empty when the file is not a valid board
+    static getNodes(json: string): AllCanvasNodeData[] {
+        return CanvasReader.getNodesOf(CanvasReader.parse(json));
+    }
+
+    /**
+     * The searchable text of a board as markdown, one paragraph per card: text cards, group labels,
+     * the URLs of link cards and the files of file cards (as [[links]]), then the labels of connections.
+     */
+    static toMarkdown(json: string): string {
+        const data = CanvasReader.parse(json);
+        const paragraphs: string[] = [];
+        CanvasReader.getNodesOf(data).forEach(node => {
+            switch (node.type) {
+                case 'text':
+                    paragraphs.push(node.text);
+                    break;
+                case 'file':
+                    paragraphs.push(`[[${node.file}${node.subpath || ''}]]`);
+                    break;
+                case 'link':
+                    paragraphs.push(node.url);
+                    break;
+                case 'group':
+                    if (node.label) paragraphs.push(node.label);
+                    break;
+            }
+        });
+        (data?.edges || []).forEach(edge => {
+            if (typeof edge?.label === 'string' && edge.label) paragraphs.push(edge.label);
+        });
+        return paragraphs.filter(paragraph => typeof paragraph === 'string' && paragraph.trim()).join('\n\n');
+    }
+
+    private static parse(json: string): CanvasData | null {
+        try {
+            const data = JSON.parse(json) as CanvasData;
+            return data && typeof data === 'object' ? data : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private static getNodesOf(data: CanvasData | null): AllCanvasNodeData[] {
+        if (!data || !Array.isArray(data.nodes)) {
+            return [];
+        }
+        return data.nodes
+            .filter(node => node && typeof node === 'object' && typeof node.x === 'number' && typeof node.y === 'number')
+            .sort((a, b) => (a.y - b.y) || (a.x - b.x));
+    }
+}
@@ -0,0 +1,135 @@
+interface DateRange {
+    start: number;
+    end: number; // Exclusive
+}
+
+/**
+ * A date condition of the query syntax (`modified:` and `created:`):
+ *   2025-01-15, 2025-01, 2025      that day, month or year
+ *   today, yesterday
+ *   this-week, last-week           calendar weeks, starting on Monday
+ *   this-month, last-month, this-year, last-year
+ *   7d, 2w, 3m, 1y                 within the last 7 days, 2 weeks, 3 months, 1 year
+ *   >X, >=X, <X, <=X               after, from, before, until X
+ *   >7d, <7d                       ages: more than 7 days ago, less than 7 days ago (the same as 7d)
+ *   X..Y                           from X until Y, both included
+ * Dates are in local time.
+ */
+export class DateFilter {
+    private static readonly AGE = /^(\d+)([dwmy])$/;
+
+    private constructor(private start: number, private end: number) {}
+
+    matches(time: number): boolean {
+        return time >= this.start && time < this.end;
+    }
+
+    // Null when `value` is not a date condition
+    static parse(value: string, now = Date.now()): DateFilter | null {
+        const between = /^(.+)\.\.(.+)$/.exec(value);
+        if (between) {
+            const from = DateFilter.parseRange(between[1], now);
+            const until = DateFilter.parseRange(between[2], now);
+            return from && until ? new DateFilter(from.start, until.end) : null;
+        }
+
+        const comparison = /^(>=|<=|>|<)?(.+)$/.exec(value);
+        const range = comparison ? DateFilter.parseRange(comparison[2], now) : null;
+        if (!comparison || !range) return null;
+        // An age compares the other way round: >7d is older, so before the point 7 days ago
+        if (DateFilter.AGE.test(comparison[2])) {
+            switch (comparison[1]) {
+                case '>':
+                    return new DateFilter(-Infinity, range.start);
+                case '>=':
+                    return new DateFilter(-Infinity, range.start + 1);
+                default:
+                    return new DateFilter(range.start, Infinity);
+            }
+        }
+        switch (comparison[1]) {
+            case '>':
+                return new DateFilter(range.end, Infinity);
+            case '>=':
+                return new DateFilter(range.start, Infinity);
+            case '<':
+                return new DateFilter(-Infinity, range.start);
+            case '<=':
+                return new DateFilter(-Infinity, range.end);
+            default:
+                return new DateFilter(range.start, range.end);
+        }
+    }
+
+    /**
+     * Reads a date written in a frontmatter property: 2025-01-15, optionally followed by a time
+     * (2025-01-15T09:30 or 2025-01-15 09:30:00). Null for anything else.
+     */
+    static parseDate(value: string): number | null {
+        const match = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?/.exec(value.trim());
+        if (!match) return null;
+        const [year, month, day, hours, minutes, seconds] = match.slice(1).map(part => Number(part) || 0);
+        const time = new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+        return isNaN(time) ? null : time;
+    }
+
+    private static parseRange(value: string, now: number): DateRange | null {
+        const today = new Date(now);
+        today.setHours(0, 0, 0, 0);
+        const year = today.getFullYear();
+        const month = today.getMonth();
+
+        const date = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value);
+        if (date) {
+            const [y, m, d] = date.slice(1).map(part => Number(part || 1));
+            // Date rolls impossible dates over (2025-02-31 is March 3), so the parts must come back unchanged
+            const day = new Date(y, m - 1, d);
+            if (day.getFullYear() !== y || day.getMonth() !== m - 1 || day.getDate() !== d) return null;
+            if (date[3]) return DateFilter.span(day, 0, 0, 1);
+            if (date[2]) return DateFilter.span(new Date(y, m - 1, 1), 0, 1, 0);
+            return DateFilter.span(new Date(y, 0, 1), 1, 0, 0);
+        }
+
+        // Up to now, and anything dated later (e.g. a note saved a moment ago)
+        const relative = DateFilter.AGE.exec(value);
+        if (relative) {
+            const count = Number(relative[1]);
+            const start = new Date(now);
+            if (relative[2] === 'd') start.setDate(start.getDate() - count);
+            if (relative[2] === 'w') start.setDate(start.getDate() - count * 7);
+            if (relative[2] === 'm') start.setMonth(start.getMonth() - count);
+            if (relative[2] === 'y') start.setFullYear(start.getFullYear() - count);
+            return { start: start.getTime(), end: Infinity };
+        }
+
+        const day = today.getDate();
+        const monday = day - (today.getDay() + 6) % 7;
+        switch (value) {
+            case 'today':
+                return DateFilter.span(today, 0, 0, 1);
+            case 'yesterday':
+                return DateFilter.span(new Date(year, month, day - 1), 0, 0, 1);
+            case 'this-week':
+                return DateFilter.span(new Date(year, month, monday), 0, 0, 7);
+            case 'last-week':
+                return DateFilter.span(new Date(year, month, monday - 7), 0, 0, 7);
+            case 'this-month':
+                return DateFilter.span(new Date(year, month, 1), 0, 1, 0);
+            case 'last-month':
+                return DateFilter.span(new Date(year, month - 1, 1), 0, 1, 0);
+            case 'this-year':
+                return DateFilter.span(new Date(year, 0, 1), 1, 0, 0);
+            case 'last-year':
+                return DateFilter.span(new Date(year - 1, 0, 1), 1, 0, 0);
+            default:
+                return null;
+        }
+    }
+
+    // From `start` to the same time so many years, months and days later (calendar-aware across DST changes)
+    private static span(start: Date, years: number, months: number, days: number): DateRange {
+        const end = new Date(start);
+        end.setFullYear(end.getFullYear() + years, end.getMonth() + months, end.getDate() + days);
+        return { start: start.getTime(), end: end.getTime() };
+    }
+}
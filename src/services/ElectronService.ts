@@ -1,6 +1,12 @@
-import { App, Component, MarkdownRenderer, TFile } from 'obsidian';
+import { App, Component, MarkdownRenderer, TFile, loadPdfJs } from 'obsidian';
 import type GlobalSearchPlugin from '../main';
-import { SearchService } from './SearchService';
+import { IndexStatus, SearchService } from './SearchService';
+import { DEFAULT_SEARCH_OPTIONS, SORT_ORDERS, SearchOptions } from './PatternMatcher';
+import type { RecentSearch } from './OpenHistory';
+import { FileType, FileTypes } from './FileTypes';
+import { CanvasReader } from './CanvasReader';
+import { QuickCapture } from './QuickCapture';
+import type { HotkeyBinding } from '../settings/settings';
 
 // Type definitions for internal Obsidian APIs
 interface WindowWithRequire extends Window {
@@ -17,13 +23,45 @@ interface VaultAdapterWithBasePath {
 }
 
 // Type definitions for IPC message payloads
-type IpcMessageArgs = string | number | boolean | SearchResult[] | FilePreviewResponse | Record<string, string | number>;
+type IpcMessageArgs = string | number | boolean | SearchResult[] | FilePreviewResponse | IndexStatus | MatchLocation | SearchOptions | RecentSearch[] | Record<string, string | number>;
 
 interface SearchResult {
     path: string;
     name: string;
     score: number;
     snippet: string;
+    matchRanges?: [number, number][];
+    matchedAlias?: string;
+    matchedProperty?: { key: string; value: string };
+    modified?: number;
+    created?: number;
+    subpath?: string;
+    location?: MatchLocation;
+    heading?: string;
+    matchCount?: number;
+    passages?: SearchResultPassage[];
+    task?: TaskInfo;
+    fileType?: FileType;
+}
+
+interface SearchResultPassage {
+    snippet: string;
+    matchRanges: [number, number][];
+    location?: MatchLocation;
+    heading?: string;
+}
+
+interface TaskInfo {
+    line: number;
+    checked: boolean;
+    heading?: string;
+    due?: number;
+}
+
+interface MatchLocation {
+    line: number;
+    ch: number;
+    length: number;
 }
 
 interface FilePreviewResponse {
@@ -33,6 +71,26 @@ interface FilePreviewResponse {
     imageData: Record<string, string>;
 }
 
+// The parts of PDF.js (bundled with Obsidian, see loadPdfJs) used to preview the first page of a PDF
+interface PdfViewport {
+    width: number;
+    height: number;
+}
+
+interface PdfPage {
+    getViewport(options: { scale: number }): PdfViewport;
+    render(options: { canvasContext: CanvasRenderingContext2D; viewport: PdfViewport }): { promise: Promise<void> };
+}
+
+interface PdfDocument {
+    getPage(pageNumber: number): Promise<PdfPage>;
+    destroy(): Promise<void>;
+}
+
+interface PdfJs {
+    getDocument(source: { data: ArrayBuffer }): { promise: Promise<PdfDocument> };
+}
+
 // Type definitions for Electron API (since we can't import directly in Obsidian plugin)
 interface HeadersReceivedDetails {
     responseHeaders?: Record<string, string[]>;
@@ -52,6 +110,7 @@ interface Session {
 
 interface WebContents {
     session: Session;
+    send(channel: string, ...args: IpcMessageArgs[]): void;
 }
 
 interface ElectronBrowserWindow {
@@ -117,23 +176,38 @@ export class ElectronService {
     private electron: ElectronWithRemote | null = null;
     private globalShortcut: ElectronGlobalShortcut | null = null;
     private searchWindow: ElectronBrowserWindow | null = null;
-    private registeredHotkey: string | null = null;
+    private registeredHotkeys: string[] = [];
     private searchService: SearchService;
+    private quickCapture: QuickCapture;
     private ipcListeners: Map<string, IpcListener> = new Map();
     private searchDebounceTimer: ReturnType<typeof setTimeout> | null = null;
+    private activeSearch: AbortController | null = null; // Aborted as soon as a newer search arrives
+    private lastSearch: RecentSearch | null = null; // Added to the recent searches when the window closes
 
     // Constants for configuration
     private static readonly ELECTRON_INIT_DELAY = 1000; // 1 second delay before initializing Electron
     private static readonly SEARCH_WINDOW_WIDTH = 1100;
     private static readonly SEARCH_WINDOW_HEIGHT = 600;
     private static readonly BASE64_CHUNK_SIZE = 8192; // Chunk size for base64 encoding
+    private static readonly MAX_MEDIA_PREVIEW_SIZE = 10 * 1024 * 1024; // Larger audio and video files are not sent to the preview
+    private static readonly PDF_PREVIEW_WIDTH = 1000; // Pixels the first page of a PDF is rendered at
     private static readonly SEARCH_DEBOUNCE_MS = 50; // Wait 50ms after user stops typing
 
     constructor(private app: App, private plugin: GlobalSearchPlugin) {
-        this.searchService = new SearchService(app);
+        this.searchService = new SearchService(app, plugin);
+        this.quickCapture = new QuickCapture(app, plugin);
+
+        // Keep an open search window informed while the index is being built
+        this.searchService.setIndexStatusListener((status) => {
+            if (this.searchWindow && !this.searchWindow.isDestroyed()) {
+                this.searchWindow.webContents.send('index-status', status);
+            }
+        });
     }
 
     initialize() {
+        this.searchService.initialize();
+
         setTimeout(() => {
             void this.initializeElectron();
         }, ElectronService.ELECTRON_INIT_DELAY);
@@ -149,7 +223,7 @@ export class ElectronService {
                 this.globalShortcut = electron.remote?.globalShortcut ||
                                     electron.globalShortcut ||
                                     null;
-                this.registerGlobalHotkey();
+                this.registerGlobalHotkeys();
                 this.setupIpcHandler();
             }
         } catch {
@@ -157,8 +231,23 @@ export class ElectronService {
         }
     }
 
+    refreshSearchIndex(): void {
+        this.searchService.refreshIndex();
+    }
+
+    resetSearchHistory(): void {
+        this.searchService.resetHistory();
+    }
+
+    private cancelActiveSearch(): void {
+        this.activeSearch?.abort();
+        this.activeSearch = null;
+    }
+
     cleanup() {
-        this.unregisterGlobalHotkey();
+        this.cancelActiveSearch();
+        this.unregisterGlobalHotkeys();
+        this.searchService.destroy();
 
         // Remove IPC handlers - proper cleanup to prevent memory leaks
         if (this.electron) {
@@ -177,43 +266,79 @@ export class ElectronService {
         }
     }
 
-    registerGlobalHotkey() {
+    // Registers every hotkey binding, replacing the ones registered before; an accelerator bound twice keeps its first binding
+    registerGlobalHotkeys() {
         if (!this.globalShortcut) {
             return;
         }
 
-        try {
-            if (this.registeredHotkey) {
-                try {
-                    this.globalShortcut.unregister(this.registeredHotkey);
-                } catch {
-                    // Ignore errors when unregistering old hotkey
+        this.unregisterGlobalHotkeys();
+        this.plugin.settings.hotkeys.forEach((binding) => {
+            const accelerator = binding.accelerator.trim();
+            if (!accelerator || this.registeredHotkeys.includes(accelerator)) {
+                return;
+            }
+            try {
+                const success = this.globalShortcut?.register(accelerator, () => {
+                    this.runHotkeyAction(binding);
+                });
+                if (success) {
+                    this.registeredHotkeys.push(accelerator);
+                } else {
+                    console.warn(`Global hotkey ${accelerator} could not be registered`);
                 }
+            } catch (e) {
+                console.error(`Error registering global hotkey ${accelerator}:`, e);
             }
+        });
+    }
 
-            const success = this.globalShortcut.register(this.plugin.settings.globalHotkey, () => {
-                this.plugin.openSearchModal();
+    unregisterGlobalHotkeys() {
+        if (this.globalShortcut) {
+            this.registeredHotkeys.forEach((accelerator) => {
+                try {
+                    this.globalShortcut?.unregister(accelerator);
+                } catch (e) {
+                    console.error(`Error unregistering global hotkey ${accelerator}:`, e);
+                }
             });
+        }
+        this.registeredHotkeys = [];
+    }
 
-            if (success) {
-                this.registeredHotkey = this.plugin.settings.globalHotkey;
-            } else {
-                this.registeredHotkey = null;
-            }
-        } catch (e) {
-            console.error('Error registering global hotkey:', e);
-            this.registeredHotkey = null;
+    private runHotkeyAction(binding: HotkeyBinding): void {
+        const scope = binding.scope.trim();
+        switch (binding.action) {
+            case 'capture':
+                // "+ text" captures to the daily note, see the search window
+                this.plugin.openSearchModal({ query: '+ ', options: DEFAULT_SEARCH_OPTIONS });
+                break;
+            case 'daily-note':
+                void this.openDailyNote();
+                break;
+            case 'search-folder':
+                this.plugin.openSearchModal(scope
+                    ? { query: `path:"${scope.replace(/\/+$/, '')}/" `, options: DEFAULT_SEARCH_OPTIONS }
+                    : undefined);
+                break;
+            case 'search-tag':
+                this.plugin.openSearchModal(scope
+                    ? { query: `tag:#${scope.replace(/^#/, '')} `, options: DEFAULT_SEARCH_OPTIONS }
+                    : undefined);
+                break;
+            default:
+                this.plugin.openSearchModal();
         }
     }
 
-    unregisterGlobalHotkey() {
-        if (this.globalShortcut && this.registeredHotkey) {
-            try {
-                this.globalShortcut.unregister(this.registeredHotkey);
-                this.registeredHotkey = null;
-            } catch (e) {
-                console.error('Error unregistering global hotkey:', e);
-            }
+    private async openDailyNote(): Promise<void> {
+        try {
+            const file = await this.quickCapture.getDailyNote();
+            this.closeSearchWindow();
+            this.focusObsidianWindow();
+            await this.plugin.openFileInNewWindow(file);
+        } catch (e) {
+            console.error('Error opening the daily note:', e);
         }
     }
 
@@ -239,6 +364,9 @@ export class ElectronService {
             return false;
         }
 
+        // Pick up changes to Obsidian's "Excluded files" made since the last search
+        this.searchService.refreshExclusions();
+
         const BrowserWindow = this.electron.remote?.BrowserWindow || this.electron.BrowserWindow;
 
         if (!BrowserWindow) {
@@ -288,7 +416,7 @@ export class ElectronService {
                         "img-src data: 'unsafe-inline'; " +
                         "font-src data:; " +
                         "connect-src 'none'; " +
-                        "media-src 'none'; " +
+                        "media-src data:; " +
                         "object-src 'none'; " +
                         "frame-src 'none';"
                     ]
@@ -304,6 +432,12 @@ export class ElectronService {
 
         this.searchWindow.on('closed', () => {
             this.searchWindow = null;
+            // Nobody is waiting for the results anymore
+            this.cancelActiveSearch();
+            if (this.lastSearch) {
+                this.searchService.recordSearch(this.lastSearch);
+                this.lastSearch = null;
+            }
         });
 
         return true;
@@ -313,6 +447,17 @@ export class ElectronService {
         return this.electron !== null;
     }
 
+    // Only accept booleans from the renderer
+    private static toSearchOptions(options: SearchOptions | null | undefined): SearchOptions {
+        const validOptions = options && typeof options === 'object' ? options : null;
+        return {
+            caseSensitive: validOptions?.caseSensitive === true,
+            wholeWord: validOptions?.wholeWord === true,
+            regex: validOptions?.regex === true,
+            sort: validOptions && SORT_ORDERS.includes(validOptions.sort) ? validOptions.sort : 'relevance'
+        };
+    }
+
     private arrayBufferToBase64(buffer: ArrayBuffer): string {
         // Use native Buffer.from for better performance (non-blocking)
         // This is more efficient than manual string concatenation
@@ -335,6 +480,118 @@ export class ElectronService {
         return btoa(binary);
     }
 
+    // Previews a canvas board as its cards in reading order: text cards rendered, groups as headings, files and links by name
+    private async renderCanvas(json: string, el: HTMLElement, sourcePath: string, component: Component): Promise<void> {
+        for (const node of CanvasReader.getNodes(json)) {
+            const card = document.createElement('div');
+            card.className = node.type === 'group' ? 'canvas-group' : 'canvas-card';
+            if (node.type === 'text') {
+                await MarkdownRenderer.render(this.app, node.text, card, sourcePath, component);
+            } else if (node.type === 'file') {
+                card.textContent = '📄 ' + node.file + (node.subpath || '');
+            } else if (node.type === 'link') {
+                card.textContent = '🔗 ' + node.url;
+            } else if (node.type === 'group' && node.label) {
+                card.textContent = node.label;
+            } else {
+                continue;
+            }
+            el.appendChild(card);
+        }
+    }
+
+    // Previews an attachment: the image, a player for small audio and video files, or the first page of a PDF, then the file's details
+    private async renderAttachment(file: TFile, fileType: FileType, el: HTMLElement): Promise<void> {
+        const mimeType = FileTypes.getMimeType(file.path);
+        let media: HTMLElement | null = null;
+        if (mimeType && (fileType === 'image' || file.stat.size <= ElectronService.MAX_MEDIA_PREVIEW_SIZE)) {
+            if (fileType === 'image') {
+                media = document.createElement('img');
+            } else if (fileType === 'audio' || fileType === 'video') {
+                media = document.createElement(fileType);
+                media.setAttribute('controls', '');
+            }
+            if (media) {
+                const base64 = this.arrayBufferToBase64(await this.app.vault.readBinary(file));
+                media.setAttribute('src', `data:${mimeType};base64,${base64}`);
+            }
+        }
+        if (fileType === 'pdf') {
+            const page = await this.renderPdfPage(file);
+            if (page) {
+                media = document.createElement('img');
+                media.setAttribute('src', page);
+            }
+        }
+        if (media) {
+            media.className = 'preview-media';
+            el.appendChild(media);
+        }
+
+        const details = document.createElement('div');
+        details.className = 'preview-file';
+        const folder = file.parent && !file.parent.isRoot() ? file.parent.path : '';
+        details.textContent = [
+            this.getFileTypeLabel(fileType),
+            file.name,
+            ElectronService.formatSize(file.stat.size),
+            new Date(file.stat.mtime).toLocaleString(),
+            folder
+        ].filter(Boolean).join(' · ');
+        el.appendChild(details);
+    }
+
+    // The first page of a PDF as a PNG data URL, rendered with Obsidian's copy of PDF.js; null if that fails
+    private async renderPdfPage(file: TFile): Promise<string | null> {
+        try {
+            const pdfjs = await loadPdfJs() as PdfJs;
+            const pdf = await pdfjs.getDocument({ data: await this.app.vault.readBinary(file) }).promise;
+            try {
+                const page = await pdf.getPage(1);
+                const viewport = page.getViewport({ scale: 1 });
+                const scaled = page.getViewport({ scale: ElectronService.PDF_PREVIEW_WIDTH / viewport.width });
+                const canvas = document.createElement('canvas');
+                canvas.width = Math.ceil(scaled.width);
+                canvas.height = Math.ceil(scaled.height);
+                const context = canvas.getContext('2d');
+                if (!context) return null;
+                await page.render({ canvasContext: context, viewport: scaled }).promise;
+                return canvas.toDataURL('image/png');
+            } finally {
+                void pdf.destroy();
+            }
+        } catch (e) {
+            console.error(`Error rendering PDF preview of ${file.path}:`, e);
+            return null;
+        }
+    }
+
+    private getFileTypeLabel(fileType: FileType): string {
+        switch (fileType) {
+            case 'note':
+                return '';
+            case 'canvas':
+                return this.plugin.t('fileTypeCanvas');
+            case 'image':
+                return this.plugin.t('fileTypeImage');
+            case 'audio':
+                return this.plugin.t('fileTypeAudio');
+            case 'video':
+                return this.plugin.t('fileTypeVideo');
+            case 'pdf':
+                return this.plugin.t('fileTypePdf');
+            default:
+                return this.plugin.t('fileTypeOther');
+        }
+    }
+
+    private static formatSize(bytes: number): string {
+        const format = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+        if (bytes < 1024) return `${bytes} B`;
+        if (bytes < 1024 * 1024) return `${format(bytes / 1024)} KB`;
+        return `${format(bytes / (1024 * 1024))} MB`;
+    }
+
     setupIpcHandler() {
         if (!this.electron) {
             return;
@@ -349,7 +606,7 @@ export class ElectronService {
         // Store listener references for proper cleanup
 
         // Handler: Open file in Obsidian
-        const openFileListener: IpcListener = (_event, filePath: string) => {
+        const openFileListener: IpcListener = (_event, filePath: string, subpath: string, location: MatchLocation, query: string) => {
             // Validate file path to prevent path traversal
             if (!filePath || typeof filePath !== 'string' || filePath.includes('..')) {
                 console.error('Invalid file path');
@@ -358,7 +615,13 @@ export class ElectronService {
 
             const file = this.app.vault.getAbstractFileByPath(filePath);
             if (file instanceof TFile) {
-                void this.plugin.openFileInNewWindow(file);
+                // Subpath is '#Heading' or '#^blockid' when a heading/block result was chosen
+                const validSubpath = typeof subpath === 'string' && subpath.startsWith('#') ? subpath : undefined;
+                const validLocation = location && typeof location === 'object' &&
+                    [location.line, location.ch, location.length].every(n => typeof n === 'number' && n >= 0)
+                    ? location : undefined;
+                this.searchService.recordOpen(file.path, typeof query === 'string' ? query : '');
+                void this.plugin.openFileInNewWindow(file, validSubpath, validLocation);
             }
             if (this.searchWindow && !this.searchWindow.isDestroyed()) {
                 this.searchWindow.close();
@@ -376,22 +639,45 @@ export class ElectronService {
         this.ipcListeners.set('resize-window', resizeWindowListener);
         ipcMain.on('resize-window', resizeWindowListener);
 
-        // Handler: Search content with debouncing for better UX
-        const searchContentListener: IpcListener = (event, query: string) => {
+        // Handler: Search content with debouncing for better UX.
+        // Replies are tagged with the request id and streamed: partial results first, then a final reply with done = true
+        // and the "did you mean" query (empty if none)
+        const searchContentListener: IpcListener = (event, query: string, options: SearchOptions, requestId: number) => {
             // Clear previous timer to debounce rapid keystrokes
             if (this.searchDebounceTimer) {
                 clearTimeout(this.searchDebounceTimer);
             }
+            this.cancelActiveSearch();
+            const validRequestId = typeof requestId === 'number' ? requestId : 0;
+            const searchOptions = ElectronService.toSearchOptions(options);
+            this.lastSearch = typeof query === 'string' && query.trim() ? { query: query.trim(), options: searchOptions } : null;
 
             // Wait for user to stop typing before executing search
             this.searchDebounceTimer = setTimeout(() => {
+                const controller = new AbortController();
+                this.activeSearch = controller;
                 void (async () => {
                     try {
                         const maxResults = this.plugin.settings.maxSearchResults || 50;
-                        const results = await this.searchService.searchInFiles(query, maxResults);
-                        event.reply('search-results', results);
+                        const response = await this.searchService.searchInFiles(query, maxResults, searchOptions, {
+                            signal: controller.signal,
+                            onResults: (partial) => {
+                                if (!controller.signal.aborted) {
+                                    event.reply('search-results', partial, validRequestId, false, '');
+                                }
+                            }
+                        });
+                        if (!controller.signal.aborted) {
+                            event.reply('search-results', response.results, validRequestId, true, response.suggestion || '');
+                        }
                     } catch {
-                        event.reply('search-results', []);
+                        if (!controller.signal.aborted) {
+                            event.reply('search-results', [], validRequestId, true, '');
+                        }
+                    } finally {
+                        if (this.activeSearch === controller) {
+                            this.activeSearch = null;
+                        }
                     }
                 })();
             }, ElectronService.SEARCH_DEBOUNCE_MS);
@@ -399,24 +685,35 @@ export class ElectronService {
         this.ipcListeners.set('search-content', searchContentListener);
         ipcMain.on('search-content', searchContentListener);
 
-        // Handler: Get recent files
+        // Handler: Get recent files, ordered by how recently they were opened in Obsidian
+        // and how often/recently they were opened from the search window
         const getRecentFilesListener: IpcListener = (event) => {
+            // The window asks for them when the query is cleared
+            this.lastSearch = null;
             try {
                 const recentPaths = this.app.workspace.getLastOpenFiles();
-                const recentFiles = [];
+                const recentFiles: SearchResult[] = [];
+                const excludedPaths = new Set<string>(); // Listed last, or not at all
 
-                for (const path of recentPaths) {
+                recentPaths.forEach((path, position) => {
                     const file = this.app.vault.getAbstractFileByPath(path);
-                    // Only include markdown files to prevent issues with image previews
-                    if (file instanceof TFile && file.extension === 'md') {
+                    if (file instanceof TFile) {
+                        if (this.searchService.isExcluded(file.path)) {
+                            if (this.plugin.settings.excludedFilesMode === 'hide') return;
+                            excludedPaths.add(file.path);
+                        }
+                        const fileType = FileTypes.fromPath(file.path);
                         recentFiles.push({
                             path: file.path,
                             name: file.basename,
-                            score: 10000,
-                            snippet: this.plugin.t('recentlyViewed')
+                            score: 1 - position / recentPaths.length + this.searchService.getOpenScore(file.path),
+                            snippet: this.plugin.t('recentlyViewed'),
+                            fileType: fileType !== 'note' ? fileType : undefined
                         });
                     }
-                }
+                });
+                recentFiles.sort((a, b) =>
+                    (Number(excludedPaths.has(a.path)) - Number(excludedPaths.has(b.path))) || (b.score - a.score));
 
                 event.reply('recent-files', recentFiles);
             } catch {
@@ -426,6 +723,95 @@ export class ElectronService {
         this.ipcListeners.set('get-recent-files', getRecentFilesListener);
         ipcMain.on('get-recent-files', getRecentFilesListener);
 
+        // Handler: Get the saved searches and the recent queries, most recent first
+        const getSearchHistoryListener: IpcListener = (event) => {
+            event.reply('search-history', this.plugin.settings.savedSearches, this.searchService.getRecentSearches());
+        };
+        this.ipcListeners.set('get-search-history', getSearchHistoryListener);
+        ipcMain.on('get-search-history', getSearchHistoryListener);
+
+        // Handler: Save a search under a name (replaces a saved search with the same name)
+        const saveSearchListener: IpcListener = (event, name: string, query: string, options: SearchOptions) => {
+            if (typeof name !== 'string' || typeof query !== 'string' || !name.trim() || !query.trim()) {
+                return;
+            }
+            void (async () => {
+                await this.plugin.saveSearch({
+                    name: name.trim(),
+                    query: query.trim(),
+                    options: ElectronService.toSearchOptions(options)
+                });
+                event.reply('search-history', this.plugin.settings.savedSearches, this.searchService.getRecentSearches());
+            })();
+        };
+        this.ipcListeners.set('save-search', saveSearchListener);
+        ipcMain.on('save-search', saveSearchListener);
+
+        // Handler: Check a task off or clear it, replying whether the task was found in the note
+        const setTaskCheckedListener: IpcListener = (event, filePath: string, line: number, text: string, checked: boolean) => {
+            if (!filePath || typeof filePath !== 'string' || filePath.includes('..') ||
+                typeof line !== 'number' || line < 0 || typeof text !== 'string' || typeof checked !== 'boolean') {
+                return;
+            }
+            void (async () => {
+                let found = false;
+                try {
+                    found = await this.searchService.setTaskChecked(filePath, line, text, checked);
+                } catch (e) {
+                    console.error('Error updating task:', e);
+                }
+                event.reply('task-checked', filePath, line, found ? checked : !checked, found);
+            })();
+        };
+        this.ipcListeners.set('set-task-checked', setTaskCheckedListener);
+        ipcMain.on('set-task-checked', setTaskCheckedListener);
+
+        // Handler: Create a note named after the query and open it; only failures are replied to the window
+        const createNoteListener: IpcListener = (event, title: string) => {
+            if (typeof title !== 'string' || !title.trim()) {
+                return;
+            }
+            void (async () => {
+                try {
+                    const file = await this.quickCapture.createNote(title);
+                    void this.plugin.openFileInNewWindow(file);
+                    if (this.searchWindow && !this.searchWindow.isDestroyed()) {
+                        this.searchWindow.close();
+                    }
+                } catch (e) {
+                    console.error('Error creating note:', e);
+                    event.reply('capture-result', false, '');
+                }
+            })();
+        };
+        this.ipcListeners.set('create-note', createNoteListener);
+        ipcMain.on('create-note', createNoteListener);
+
+        // Handler: Append text to today's daily note without opening it, replying whether that worked and the note's name
+        const appendToDailyNoteListener: IpcListener = (event, text: string) => {
+            if (typeof text !== 'string' || !text.trim()) {
+                return;
+            }
+            void (async () => {
+                try {
+                    const file = await this.quickCapture.appendToDailyNote(text);
+                    event.reply('capture-result', true, file.basename);
+                } catch (e) {
+                    console.error('Error appending to the daily note:', e);
+                    event.reply('capture-result', false, '');
+                }
+            })();
+        };
+        this.ipcListeners.set('append-to-daily-note', appendToDailyNoteListener);
+        ipcMain.on('append-to-daily-note', appendToDailyNoteListener);
+
+        // Handler: Get indexing progress (updates are pushed while the window is open)
+        const getIndexStatusListener: IpcListener = (event) => {
+            event.reply('index-status', this.searchService.getIndexStatus());
+        };
+        this.ipcListeners.set('get-index-status', getIndexStatusListener);
+        ipcMain.on('get-index-status', getIndexStatusListener);
+
         // Handler: Get file preview with images
         const getFilePreviewListener: IpcListener = (event, filePath: string) => {
             void (async () => {
@@ -442,17 +828,21 @@ export class ElectronService {
                         return;
                     }
 
-                    // Only render markdown files - prevent rendering binary files like images
-                    if (file.extension !== 'md') {
-                        event.reply('file-preview', { path: filePath, content: '', html: '', imageData: {} });
-                        return;
-                    }
-
-                    const content = await this.app.vault.cachedRead(file);
                     const el = document.createElement('div');
                     // Create a component instance for MarkdownRenderer to avoid using main plugin instance
                     const component = new Component();
-                    await MarkdownRenderer.render(this.app, content, el, filePath, component);
+                    let content = '';
+                    const fileType = FileTypes.fromPath(file.path);
+                    if (fileType === 'note') {
+                        content = await this.app.vault.cachedRead(file);
+                        await MarkdownRenderer.render(this.app, content, el, filePath, component);
+                    } else if (fileType === 'canvas') {
+                        content = await this.app.vault.cachedRead(file);
+                        await this.renderCanvas(content, el, filePath, component);
+                    } else {
+                        // Binary files are never rendered as text: media are sent as data URLs, along with the file's details
+                        await this.renderAttachment(file, fileType, el);
+                    }
 
                     const images = el.querySelectorAll('img');
                     const imageData: Record<string, string> = {};
@@ -510,19 +900,7 @@ export class ElectronService {
                                 const arrayBuffer = await this.app.vault.readBinary(imageFile);
                                 const base64 = this.arrayBufferToBase64(arrayBuffer);
 
-                                const extension = imageFile.extension.toLowerCase();
-                                let mimeType = 'image/png';
-                                if (extension === 'jpg' || extension === 'jpeg') {
-                                    mimeType = 'image/jpeg';
-                                } else if (extension === 'gif') {
-                                    mimeType = 'image/gif';
-                                } else if (extension === 'svg') {
-                                    mimeType = 'image/svg+xml';
-                                } else if (extension === 'webp') {
-                                    mimeType = 'image/webp';
-                                } else if (extension === 'bmp') {
-                                    mimeType = 'image/bmp';
-                                }
+                                const mimeType = FileTypes.getMimeType(imageFile.path) || 'image/png';
 
                                 const dataUrl = `data:${mimeType};base64,${base64}`;
                                 imageData[src] = dataUrl;
@@ -0,0 +1,45 @@
+export type FileType = 'note' | 'canvas' | 'image' | 'audio' | 'video' | 'pdf' | 'other';
+
+/**
+ * What a vault file is, by its extension. Notes and canvas boards are searched by their text,
+ * everything else (attachments) by its name only. The `type:` query field filters by it;
+ * `type:attachment` stands for any file that is neither a note nor a canvas.
+ */
+export class FileTypes {
+    private static readonly TYPES: Record<string, FileType> = {
+        md: 'note',
+        canvas: 'canvas',
+        png: 'image', jpg: 'image', jpeg: 'image', gif: 'image', bmp: 'image', svg: 'image', webp: 'image', avif: 'image',
+        mp3: 'audio', wav: 'audio', m4a: 'audio', ogg: 'audio', flac: 'audio', '3gp': 'audio',
+        mp4: 'video', webm: 'video', ogv: 'video', mov: 'video', mkv: 'video',
+        pdf: 'pdf'
+    };
+
+    private static readonly MIME_TYPES: Record<string, string> = {
+        png: 'image/png', jpg: 'image/jpeg', jpeg: 'image/jpeg', gif: 'image/gif', bmp: 'image/bmp',
+        svg: 'image/svg+xml', webp: 'image/webp', avif: 'image/avif',
+        mp3: 'audio/mpeg', wav: 'audio/wav', m4a: 'audio/mp4', ogg: 'audio/ogg', flac: 'audio/flac', '3gp': 'audio/3gpp',
+        mp4: 'video/mp4', webm: 'video/webm', ogv: 'video/ogg', mov: 'video/quicktime', mkv: 'video/x-matroska',
+        pdf: 'application/pdf'
+    };
+
+    static fromPath(path: string): FileType {
+        return FileTypes.TYPES[FileTypes.getExtension(path)] || 'other';
+    }
+
+    // For data URLs of previewed files; null when the extension is not a known media type
+    static getMimeType(path: string): string | null {
+        return FileTypes.MIME_TYPES[FileTypes.getExtension(path)] || null;
+    }
+
+    // Whether a file of `type` matches the value of a `type:` field (already lowercase)
+    static matches(type: FileType, value: string): boolean {
+        return value === type || (value === 'attachment' && type !== 'note' && type !== 'canvas');
+    }
+
+    private static getExtension(path: string): string {
+        const name = path.substring(path.lastIndexOf('/') + 1);
+        const dot = name.lastIndexOf('.');
+        return dot > 0 ? name.substring(dot + 1).toLowerCase() : '';
+    }
+}
@@ -0,0 +1,71 @@
+/**
+ * Links between vault files as resolved by Obsidian (source path -> target paths, like
+ * `metadataCache.resolvedLinks`). Answers the link filters of the query syntax and counts
+ * backlinks for ranking. A note linking to itself is not counted as linked.
+ */
+export class LinkGraph {
+    private outgoing: Map<string, Set<string>> = new Map();
+    private incoming: Map<string, Set<string>> = new Map();
+
+    constructor(links: Record<string, string[]> = {}) {
+        this.set(links);
+    }
+
+    set(links: Record<string, string[]>): void {
+        this.outgoing.clear();
+        this.incoming.clear();
+        for (const source of Object.keys(links)) {
+            const targets = links[source].filter(target => target !== source);
+            if (targets.length === 0) continue;
+
+            this.outgoing.set(source, new Set(targets));
+            for (const target of targets) {
+                let sources = this.incoming.get(target);
+                if (!sources) {
+                    sources = new Set();
+                    this.incoming.set(target, sources);
+                }
+                sources.add(source);
+            }
+        }
+    }
+
+    linksTo(source: string, target: string): boolean {
+        return this.outgoing.get(source)?.has(target) || false;
+    }
+
+    getBacklinkCount(path: string): number {
+        return this.incoming.get(path)?.size || 0;
+    }
+
+    // Neither links to another file nor is linked from one
+    isOrphan(path: string): boolean {
+        return !this.outgoing.has(path) && !this.incoming.has(path);
+    }
+
+    // Every path with a link from or to it
+    getPaths(): string[] {
+        const paths = new Set(this.outgoing.keys());
+        this.incoming.forEach((_sources, target) => paths.add(target));
+        return Array.from(paths);
+    }
+
+    /**
+     * The link text of `[[Note]]`, `[[Folder/Note|alias]]` or `[[image.png#heading]]`
+     * without brackets, alias and subpath.
+     */
+    static parseLinkText(value: string): string {
+        let text = value.trim();
+        if (text.startsWith('[[')) text = text.substring(2);
+        if (text.endsWith(']]')) text = text.substring(0, text.length - 2);
+        return text.split('|')[0].split('#')[0].trim();
+    }
+
+    // Whether a link with this text (as returned by parseLinkText) can point to `path`; both are compared as given
+    static matchesPath(linkText: string, path: string): boolean {
+        if (!linkText) return false;
+        const withoutExtension = path.endsWith('.md') ? path.substring(0, path.length - 3) : path;
+        return [path, withoutExtension].some(candidate =>
+            candidate === linkText || candidate.endsWith('/' + linkText));
+    }
+}
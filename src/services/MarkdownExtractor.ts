@@ -0,0 +1,403 @@
+// Which hidden or non-prose parts of a note are searched
+export interface ExtractorOptions {
+    codeBlocks: boolean;
+    comments: boolean; // %%comments%% and <!-- HTML comments -->
+    frontmatter: boolean; // The YAML text; property values are indexed separately either way
+}
+
+export const DEFAULT_EXTRACTOR_OPTIONS: ExtractorOptions = {
+    codeBlocks: true,
+    comments: true,
+    frontmatter: false
+};
+
+// A block of the note as found by Obsidian's metadata cache (`CachedMetadata.sections`)
+export interface MarkdownSection {
+    type: string; // 'yaml', 'code', 'math', 'comment', 'paragraph', ...
+    start: number; // Offsets in the markdown source
+    end: number;
+}
+
+/**
+ * Searchable text of a note, with a map back to the markdown source: `map` holds pairs of
+ * [text offset, source offset] where the text stops following the source one to one.
+ */
+export interface ExtractedText {
+    text: string;
+    map: number[];
+}
+
+// Sections whose content is not prose; everything else is read line by line
+const VERBATIM_SECTIONS = ['yaml', 'code', 'math', 'comment'];
+
+/**
+ * Turns markdown into the text that is indexed and shown in snippets: markup, link targets,
+ * footnote references, math and HTML tags are dropped, and code blocks, comments and frontmatter
+ * are kept or dropped as configured. Block structure comes from the metadata cache's sections
+ * when they are known; fences and math blocks inside lists and quotes, and notes the cache has
+ * not parsed yet, are recognised line by line.
+ */
+export class MarkdownExtractor {
+    private source = '';
+    private parts: string[] = [];
+    private length = 0;
+    private map: number[] = [];
+    private fence: string | null = null; // Closing fence of the open code block
+    private inMath = false;
+    private comment: string | null = null; // Closing delimiter of the open comment ('%%' or '-->')
+
+    private static readonly FENCE = /^(`{3,}|~{3,})/;
+    private static readonly QUOTE_PREFIX = /^[ \t]*(?:>[ \t]?)+/;
+    private static readonly CALLOUT_MARKER = /^\[![^\]]*\][+-]?[ \t]?/;
+    private static readonly HEADING_MARKER = /^#{1,6}(?:[ \t]+|$)/;
+    private static readonly LIST_MARKER = /^(?:[-*+]|\d+[.)])[ \t]+(?:\[.\][ \t]+)?/;
+    private static readonly FOOTNOTE_DEFINITION = /^\[\^[^\]]+\]:[ \t]*/;
+    private static readonly BREAK_LINE = /^(?:(?:-[ \t]*){3,}|(?:\*[ \t]*){3,}|(?:_[ \t]*){3,})$/;
+    private static readonly TABLE_DELIMITER_LINE = /^\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+    private static readonly BLOCK_ID = /[ \t]+\^[\w-]+[ \t]*$/;
+    private static readonly HTML_TAG = /^<\/?[A-Za-z][A-Za-z0-9-]*(?:\s[^<>]*)?\/?>/;
+    private static readonly AUTOLINK = /^<((?:https?|mailto):[^<>\s]+)>/;
+
+    constructor(private options: ExtractorOptions = DEFAULT_EXTRACTOR_OPTIONS) {}
+
+    extract(source: string, sections: MarkdownSection[] | null = null): ExtractedText {
+        this.source = source;
+        this.parts = [];
+        this.length = 0;
+        this.map = [];
+        this.fence = null;
+        this.inMath = false;
+        this.comment = null;
+
+        const blocks = sections
+            ? sections.filter(section => VERBATIM_SECTIONS.includes(section.type)).sort((a, b) => a.start - b.start)
+            : this.findFrontmatter();
+        let position = 0;
+        for (const block of blocks) {
+            const start = Math.max(position, Math.min(block.start, source.length));
+            const end = Math.max(start, Math.min(block.end, source.length));
+            this.readProse(position, start);
+            this.readBlock(block.type, start, end);
+            position = end;
+        }
+        this.readProse(position, source.length);
+
+        const text = this.parts.join('');
+        this.source = '';
+        this.parts = [];
+        return { text, map: this.map };
+    }
+
+    // Where the character at `index` of the text comes from in the source
+    static toSourceOffset(extracted: ExtractedText, index: number): number {
+        const map = extracted.map;
+        if (map.length === 0) return index;
+        let low = 0;
+        let high = map.length / 2 - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >>> 1;
+            if (map[mid * 2] <= index) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return map[low * 2 + 1] + index - map[low * 2];
+    }
+
+    // Without sections, only frontmatter is found up front; the rest is recognised while reading
+    private findFrontmatter(): MarkdownSection[] {
+        const match = /^---[ \t]*\r?\n[\s\S]*?\n---[ \t]*(?:\r?\n|$)/.exec(this.source);
+        return match ? [{ type: 'yaml', start: 0, end: match[0].length }] : [];
+    }
+
+    private readBlock(type: string, start: number, end: number): void {
+        const lines = this.getLines(start, end);
+        switch (type) {
+            case 'yaml':
+                // Between the --- lines
+                if (this.options.frontmatter) lines.slice(1, -1).forEach(line => this.copyLine(line.start, line.end));
+                break;
+            case 'code': {
+                if (!this.options.codeBlocks || lines.length === 0) break;
+                const fenced = MarkdownExtractor.FENCE.test(this.source.substring(lines[0].start, lines[0].end).trim());
+                (fenced ? lines.slice(1, -1) : lines).forEach(line => this.copyLine(line.start, line.end));
+                break;
+            }
+            case 'comment':
+                if (this.options.comments) {
+                    this.readComment(start, end);
+                }
+                break;
+            // Math is LaTeX source, not text
+        }
+        this.newline(start);
+    }
+
+    // The text of a %%...%% or <!--...--> block without its delimiters
+    private readComment(start: number, end: number): void {
+        const content = this.source.substring(start, end);
+        const delimiters = content.startsWith('<!--') ? ['<!--', '-->'] : ['%%', '%%'];
+        const innerStart = start + (content.startsWith(delimiters[0]) ? delimiters[0].length : 0);
+        const innerEnd = end - (content.endsWith(delimiters[1]) && end - delimiters[1].length >= innerStart ? delimiters[1].length : 0);
+        this.copy(innerStart, innerEnd);
+    }
+
+    private readProse(start: number, end: number): void {
+        for (const line of this.getLines(start, end)) {
+            this.readLine(line.start, line.end);
+        }
+    }
+
+    private readLine(start: number, end: number): void {
+        const line = this.source.substring(start, end).replace(/\r$/, '');
+        end = start + line.length;
+
+        // Inside a comment that started on an earlier line
+        if (this.comment !== null) {
+            const close = line.indexOf(this.comment);
+            if (close === -1) {
+                if (this.options.comments) this.copyLine(start, end);
+                return;
+            }
+            if (this.options.comments) this.copy(start, start + close);
+            const after = start + close + this.comment.length;
+            this.comment = null;
+            this.readInline(after, end);
+            this.newline(end);
+            return;
+        }
+
+        const quote = MarkdownExtractor.QUOTE_PREFIX.exec(line);
+        let position = start + (quote ? quote[0].length : 0);
+        const rest = this.source.substring(position, end);
+        const trimmed = rest.trim();
+
+        if (this.fence !== null) {
+            if (trimmed.startsWith(this.fence) && trimmed.replace(/[`~]/g, '') === '') {
+                this.fence = null;
+            } else if (this.options.codeBlocks) {
+                this.copyLine(position, end);
+            }
+            return;
+        }
+        if (this.inMath) {
+            if (trimmed.endsWith('$$')) this.inMath = false;
+            return;
+        }
+
+        const fence = MarkdownExtractor.FENCE.exec(trimmed);
+        if (fence) {
+            this.fence = fence[1];
+            return;
+        }
+        if (trimmed.startsWith('$$')) {
+            this.inMath = trimmed.length < 4 || !trimmed.endsWith('$$');
+            return;
+        }
+        if (MarkdownExtractor.BREAK_LINE.test(trimmed) || (trimmed.includes('|') && MarkdownExtractor.TABLE_DELIMITER_LINE.test(trimmed))) {
+            return;
+        }
+
+        // Line prefixes: callout marker, heading, list marker and checkbox, footnote definition
+        position += rest.length - rest.replace(/^\s+/, '').length;
+        for (const marker of [MarkdownExtractor.CALLOUT_MARKER, MarkdownExtractor.HEADING_MARKER, MarkdownExtractor.LIST_MARKER, MarkdownExtractor.FOOTNOTE_DEFINITION]) {
+            const match = marker.exec(this.source.substring(position, end));
+            if (match) position += match[0].length;
+        }
+
+        const blockId = MarkdownExtractor.BLOCK_ID.exec(this.source.substring(position, end));
+        this.readInline(position, blockId ? end - blockId[0].length : end);
+        this.newline(end);
+    }
+
+    // Copies the text of a line span, leaving out inline markup
+    private readInline(start: number, end: number): void {
+        const source = this.source;
+        let plainStart = start;
+        let i = start;
+        const flush = (next: number) => {
+            this.copy(plainStart, i);
+            i = next;
+            plainStart = next;
+        };
+
+        while (i < end) {
+            const char = source[i];
+            const rest = source.substring(i, Math.min(end, i + 2));
+
+            if (char === '\\' && i + 1 < end) {
+                // Escaped character: keep it, drop the backslash
+                flush(i + 1);
+                i++;
+            } else if (rest === '%%' || source.startsWith('<!--', i)) {
+                const open = rest === '%%' ? '%%' : '<!--';
+                const close = rest === '%%' ? '%%' : '-->';
+                const closeIndex = source.indexOf(close, i + open.length);
+                flush(i);
+                if (closeIndex === -1 || closeIndex >= end) {
+                    // Continues on the next lines
+                    if (this.options.comments) this.copy(i + open.length, end);
+                    this.comment = close;
+                    i = end;
+                    plainStart = end;
+                } else {
+                    if (this.options.comments) this.copy(i + open.length, closeIndex);
+                    i = closeIndex + close.length;
+                    plainStart = i;
+                }
+            } else if (char === '`') {
+                const ticks = /^`+/.exec(source.substring(i, end))![0];
+                const closeIndex = source.indexOf(ticks, i + ticks.length);
+                if (closeIndex === -1 || closeIndex >= end) {
+                    i += ticks.length;
+                    continue;
+                }
+                flush(i);
+                this.copy(i + ticks.length, closeIndex);
+                i = closeIndex + ticks.length;
+                plainStart = i;
+            } else if (char === '$' && rest !== '$$' && this.findInlineMathEnd(i, end) !== -1) {
+                flush(this.findInlineMathEnd(i, end) + 1);
+            } else if (rest === '[[' || (char === '!' && source.startsWith('[[', i + 1))) {
+                // [[target|alias]] -> alias, [[target]] and ![[embed]] -> target
+                const open = char === '!' ? i + 3 : i + 2;
+                const closeIndex = source.indexOf(']]', open);
+                if (closeIndex === -1 || closeIndex >= end) {
+                    i = open;
+                    continue;
+                }
+                flush(i);
+                const pipe = source.indexOf('|', open);
+                this.copy(pipe !== -1 && pipe < closeIndex ? pipe + 1 : open, closeIndex);
+                i = closeIndex + 2;
+                plainStart = i;
+            } else if (rest === '[^' || (char === '^' && source[i + 1] === '[')) {
+                // Footnote reference [^1] is dropped; inline footnote ^[text] keeps its text
+                const closeIndex = source.indexOf(']', i + 2);
+                if (closeIndex === -1 || closeIndex >= end) {
+                    i += 2;
+                    continue;
+                }
+                flush(i);
+                if (char === '^') this.readInline(i + 2, closeIndex);
+                i = closeIndex + 1;
+                plainStart = i;
+            } else if (char === '[' || (char === '!' && source[i + 1] === '[')) {
+                // [text](url) -> text, ![alt](url) -> alt
+                const open = char === '!' ? i + 2 : i + 1;
+                const link = this.findLinkEnd(open, end);
+                if (!link) {
+                    i = open;
+                    continue;
+                }
+                flush(i);
+                this.readInline(open, link.textEnd);
+                i = link.end;
+                plainStart = i;
+            } else if (char === '<') {
+                const content = source.substring(i, end);
+                const autolink = MarkdownExtractor.AUTOLINK.exec(content);
+                const tag = autolink ? null : MarkdownExtractor.HTML_TAG.exec(content);
+                if (autolink) {
+                    flush(i);
+                    this.copy(i + 1, i + 1 + autolink[1].length);
+                    i += autolink[0].length;
+                    plainStart = i;
+                } else if (tag) {
+                    flush(i + tag[0].length);
+                } else {
+                    i++;
+                }
+            } else if (char === '*' || rest === '~~' || rest === '==') {
+                // Emphasis, strikethrough and highlight delimiters
+                const run = /^(?:\*+|~~|==)/.exec(source.substring(i, end))![0];
+                flush(i + run.length);
+            } else if (char === '_' && this.isDelimiterUnderscore(i, end)) {
+                const run = /^_+/.exec(source.substring(i, end))![0];
+                flush(i + run.length);
+            } else {
+                i++;
+            }
+        }
+        flush(end);
+    }
+
+    // Obsidian's inline math: $ then no space, closed by a $ after no space and not followed by a digit
+    private findInlineMathEnd(start: number, end: number): number {
+        if (start + 1 >= end || /\s/.test(this.source[start + 1])) return -1;
+        for (let i = start + 1; i < end; i++) {
+            if (this.source[i] === '\\') {
+                i++;
+            } else if (this.source[i] === '$') {
+                return /\s/.test(this.source[i - 1]) || /\d/.test(this.source[i + 1] || '') ? -1 : i;
+            }
+        }
+        return -1;
+    }
+
+    // `_` delimits emphasis at a word boundary; inside words (snake_case) it is text
+    private isDelimiterUnderscore(index: number, end: number): boolean {
+        let runEnd = index;
+        while (runEnd < end && this.source[runEnd] === '_') runEnd++;
+        const before = index > 0 ? this.source[index - 1] : ' ';
+        const after = runEnd < end ? this.source[runEnd] : ' ';
+        return !/[\p{L}\p{N}]/u.test(before) || !/[\p{L}\p{N}]/u.test(after);
+    }
+
+    // `[text](url)` starting after the '[': where the text ends and the link ends, or null
+    private findLinkEnd(textStart: number, end: number): { textEnd: number; end: number } | null {
+        let depth = 0;
+        for (let i = textStart; i < end; i++) {
+            const char = this.source[i];
+            if (char === '\\') {
+                i++;
+            } else if (char === '[') {
+                depth++;
+            } else if (char === ']' && depth > 0) {
+                depth--;
+            } else if (char === ']') {
+                if (this.source[i + 1] !== '(') return null;
+                const close = this.source.indexOf(')', i + 2);
+                return close === -1 || close >= end ? null : { textEnd: i, end: close + 1 };
+            }
+        }
+        return null;
+    }
+
+    private getLines(start: number, end: number): { start: number; end: number }[] {
+        const lines: { start: number; end: number }[] = [];
+        let lineStart = start;
+        while (lineStart < end) {
+            const newline = this.source.indexOf('\n', lineStart);
+            const lineEnd = newline === -1 || newline >= end ? end : newline;
+            lines.push({ start: lineStart, end: lineEnd });
+            lineStart = lineEnd + 1;
+        }
+        return lines;
+    }
+
+    private copyLine(start: number, end: number): void {
+        this.copy(start, this.source[end - 1] === '\r' ? end - 1 : end);
+        this.newline(end);
+    }
+
+    // Ends the current line of text (at the source's newline, or standing for the end of a block); blank lines are dropped
+    private newline(offset: number): void {
+        if (this.length === 0 || this.parts[this.parts.length - 1].endsWith('\n')) return;
+        this.append('\n', Math.min(offset, this.source.length));
+    }
+
+    private copy(start: number, end: number): void {
+        if (end > start) this.append(this.source.substring(start, end), start);
+    }
+
+    private append(text: string, sourceOffset: number): void {
+        const pairs = this.map.length;
+        if (pairs === 0 || sourceOffset !== this.map[pairs - 1] + this.length - this.map[pairs - 2]) {
+            this.map.push(this.length, sourceOffset);
+        }
+        this.parts.push(text);
+        this.length += text.length;
+    }
+}
@@ -0,0 +1,191 @@
+import { App } from 'obsidian';
+import type { SearchOptions } from './PatternMatcher';
+
+export interface RecentSearch {
+    query: string;
+    options: SearchOptions;
+}
+
+// An open count that decays over time: `score` as of `updated`
+interface DecayingCount {
+    score: number;
+    updated: number;
+}
+
+interface HistoryData {
+    version: number;
+    notes: Record<string, DecayingCount>; // path -> how often/recently it was opened
+    queries: Record<string, Record<string, DecayingCount>>; // normalized query -> path -> opens from that query
+    searches: RecentSearch[]; // Queries typed in the search window, most recent first
+}
+
+/**
+ * Remembers which notes are opened from the search window, and for which queries, to rank
+ * them higher next time (frecency). Opens count less the older they are: an open's weight
+ * halves every HALF_LIFE_MS, so the ranking follows what is used now.
+ * Also keeps the recent queries, to recall them in the search window.
+ */
+export class OpenHistory {
+    private data: HistoryData = OpenHistory.createEmpty();
+    private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+    private static readonly VERSION = 1;
+    private static readonly HALF_LIFE_MS = 14 * 24 * 60 * 60 * 1000; // Two weeks
+    private static readonly MIN_SCORE = 0.05; // Entries that decayed below this are forgotten
+    private static readonly MAX_QUERIES = 500; // Most recently used queries kept
+    private static readonly MAX_SEARCHES = 50; // Recent queries kept for recall
+    private static readonly NOTE_WEIGHT = 0.5; // Boost for a note opened often, whatever the query
+    private static readonly QUERY_WEIGHT = 1.5; // Boost for a note opened from a query like the current one
+    private static readonly SAVE_DELAY_MS = 2000;
+
+    constructor(private app: App, private path: string) {}
+
+    async load(): Promise<void> {
+        try {
+            if (!await this.app.vault.adapter.exists(this.path)) {
+                return;
+            }
+            const data = JSON.parse(await this.app.vault.adapter.read(this.path)) as HistoryData;
+            if (data.version === OpenHistory.VERSION && data.notes && data.queries) {
+                this.data = { ...data, searches: Array.isArray(data.searches) ? data.searches : [] };
+            }
+        } catch (e) {
+            console.error('Error loading search history:', e);
+        }
+    }
+
+    // Flushes a pending save
+    destroy(): void {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            void this.save();
+        }
+    }
+
+    recordOpen(path: string, query: string): void {
+        const now = Date.now();
+        this.data.notes[path] = OpenHistory.increment(this.data.notes[path], now);
+        if (query) {
+            const opens = this.data.queries[query] || {};
+            opens[path] = OpenHistory.increment(opens[path], now);
+            // Re-inserted so the query order stays least recently used first
+            delete this.data.queries[query];
+            this.data.queries[query] = opens;
+        }
+        this.scheduleSave();
+    }
+
+    recordSearch(search: RecentSearch): void {
+        const query = search.query.trim();
+        if (!query) return;
+        this.data.searches = [{ query, options: { ...search.options } }]
+            .concat(this.data.searches.filter(recent => recent.query !== query))
+            .slice(0, OpenHistory.MAX_SEARCHES);
+        this.scheduleSave();
+    }
+
+    getRecentSearches(): RecentSearch[] {
+        return this.data.searches.slice();
+    }
+
+    /**
+     * Factor to multiply a result's score by (1 when the note was never opened): grows with the
+     * note's frecency and, more strongly, with opens from this query or a longer one starting with it.
+     */
+    getBoost(path: string, query: string): number {
+        const now = Date.now();
+        const noteScore = OpenHistory.decay(this.data.notes[path], now);
+        let queryScore = 0;
+        if (query) {
+            for (const key of Object.keys(this.data.queries)) {
+                if (key.startsWith(query)) {
+                    queryScore += OpenHistory.decay(this.data.queries[key][path], now);
+                }
+            }
+        }
+        return 1 +
+            OpenHistory.NOTE_WEIGHT * noteScore / (noteScore + 1) +
+            OpenHistory.QUERY_WEIGHT * queryScore / (queryScore + 1);
+    }
+
+    getNoteScore(path: string): number {
+        return OpenHistory.decay(this.data.notes[path], Date.now());
+    }
+
+    rename(oldPath: string, newPath: string): void {
+        let changed = false;
+        const move = (entries: Record<string, DecayingCount>) => {
+            if (!entries[oldPath]) return;
+            entries[newPath] = entries[oldPath];
+            delete entries[oldPath];
+            changed = true;
+        };
+        move(this.data.notes);
+        Object.keys(this.data.queries).forEach(query => move(this.data.queries[query]));
+        if (changed) this.scheduleSave();
+    }
+
+    remove(path: string): void {
+        let changed = false;
+        const removeFrom = (entries: Record<string, DecayingCount>) => {
+            if (!entries[path]) return;
+            delete entries[path];
+            changed = true;
+        };
+        removeFrom(this.data.notes);
+        Object.keys(this.data.queries).forEach(query => removeFrom(this.data.queries[query]));
+        if (changed) this.scheduleSave();
+    }
+
+    reset(): void {
+        this.data = OpenHistory.createEmpty();
+        this.scheduleSave();
+    }
+
+    private scheduleSave(): void {
+        if (this.saveTimer) clearTimeout(this.saveTimer);
+        this.saveTimer = setTimeout(() => void this.save(), OpenHistory.SAVE_DELAY_MS);
+    }
+
+    private async save(): Promise<void> {
+        this.saveTimer = null;
+        this.prune();
+        try {
+            await this.app.vault.adapter.write(this.path, JSON.stringify(this.data));
+        } catch (e) {
+            console.error('Error saving search history:', e);
+        }
+    }
+
+    // Forgets entries that no longer affect ranking, so the file does not grow forever
+    private prune(): void {
+        const now = Date.now();
+        const pruneEntries = (entries: Record<string, DecayingCount>) => {
+            Object.keys(entries).forEach(path => {
+                if (OpenHistory.decay(entries[path], now) < OpenHistory.MIN_SCORE) delete entries[path];
+            });
+        };
+
+        pruneEntries(this.data.notes);
+        const queries = Object.keys(this.data.queries);
+        queries.forEach((query, i) => {
+            pruneEntries(this.data.queries[query]);
+            if (queries.length - i > OpenHistory.MAX_QUERIES || Object.keys(this.data.queries[query]).length === 0) {
+                delete this.data.queries[query];
+            }
+        });
+    }
+
+    private static createEmpty(): HistoryData {
+        return { version: OpenHistory.VERSION, notes: {}, queries: {}, searches: [] };
+    }
+
+    private static decay(count: DecayingCount | undefined, now: number): number {
+        if (!count) return 0;
+        return count.score * Math.pow(0.5, Math.max(0, now - count.updated) / OpenHistory.HALF_LIFE_MS);
+    }
+
+    private static increment(count: DecayingCount | undefined, now: number): DecayingCount {
+        return { score: OpenHistory.decay(count, now) + 1, updated: now };
+    }
+}
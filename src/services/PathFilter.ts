@@ -0,0 +1,61 @@
+export type ExcludedFilesMode = 'hide' | 'downrank';
+
+/**
+ * Decides which files are excluded from search: those in Obsidian's "Excluded files"
+ * (passed in as `isUserIgnored`), those matching an exclude pattern and, when include
+ * patterns are given, those matching none of them.
+ *
+ * Patterns are globs matched against the whole vault path, ignoring case:
+ *   *        any characters except '/'
+ *   **       any characters, including '/'
+ *   ?        a single character except '/'
+ *   Folder/  everything inside the folder (same as Folder/**)
+ * A pattern without '/' only matches files at the vault root; '**' as the first folder of a
+ * pattern matches the rest in any folder, the root included.
+ */
+export class PathFilter {
+    private include: RegExp[];
+    private exclude: RegExp[];
+
+    constructor(includePatterns: string[], excludePatterns: string[], private isUserIgnored: (path: string) => boolean) {
+        this.include = PathFilter.compile(includePatterns);
+        this.exclude = PathFilter.compile(excludePatterns);
+    }
+
+    isExcluded(path: string): boolean {
+        if (this.isUserIgnored(path)) return true;
+        if (this.exclude.some(pattern => pattern.test(path))) return true;
+        return this.include.length > 0 && !this.include.some(pattern => pattern.test(path));
+    }
+
+    private static compile(patterns: string[]): RegExp[] {
+        return patterns
+            .map(pattern => pattern.trim())
+            .filter(pattern => pattern.length > 0)
+            .map(pattern => PathFilter.globToRegExp(pattern.endsWith('/') ? pattern + '**' : pattern));
+    }
+
+    static globToRegExp(glob: string): RegExp {
+        let source = '';
+        for (let i = 0; i < glob.length; i++) {
+            const char = glob[i];
+            if (char === '*' && glob[i + 1] === '*') {
+                // '**/' also matches no folder at all: a/**/b matches a/b
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                } else {
+                    source += '.*';
+                    i++;
+                }
+            } else if (char === '*') {
+                source += '[^/]*';
+            } else if (char === '?') {
+                source += '[^/]';
+            } else {
+                source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+            }
+        }
+        return new RegExp(`^${source}$`, 'i');
+    }
+}
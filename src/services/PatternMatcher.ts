@@ -0,0 +1,67 @@
+import type { TextRange } from './TextNormalizer';
+
+// Result order: best match first, most recently modified/created first, or by name
+export type SortOrder = 'relevance' | 'modified' | 'created' | 'name';
+
+export const SORT_ORDERS: SortOrder[] = ['relevance', 'modified', 'created', 'name'];
+
+export interface SearchOptions {
+    caseSensitive: boolean;
+    wholeWord: boolean;
+    regex: boolean; // The whole query is a regular expression
+    sort: SortOrder;
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+    caseSensitive: false,
+    wholeWord: false,
+    regex: false,
+    sort: 'relevance'
+};
+
+/**
+ * Matches query text exactly as written - no accent folding, optionally case-sensitive
+ * and limited to whole words - or as a regular expression.
+ * A regular expression like (a+)+$ can backtrack for minutes and a running RegExp cannot be
+ * interrupted, so this only runs inside the search worker, which is restarted when a search hangs.
+ */
+export class PatternMatcher {
+    private readonly pattern: RegExp;
+
+    /**
+     * Throws a SyntaxError when `options.regex` is set and `source` is not a valid pattern.
+     */
+    constructor(source: string, options: SearchOptions) {
+        let pattern = options.regex ? source : source.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        let flags = 'g';
+        if (!options.caseSensitive) flags += 'i';
+        if (options.wholeWord) {
+            pattern = `(?<![\\p{L}\\p{N}_])(?:${pattern})(?![\\p{L}\\p{N}_])`;
+            flags += 'u';
+        }
+        this.pattern = new RegExp(pattern, flags);
+    }
+
+    // First match in each of `texts` (null entries are skipped)
+    findFirst(texts: (string | null)[]): (TextRange | null)[] {
+        return texts.map(text => {
+            this.pattern.lastIndex = 0;
+            const match = text === null ? null : this.pattern.exec(text);
+            return match ? { index: match.index, length: match[0].length } : null;
+        });
+    }
+
+    findAll(text: string): TextRange[] {
+        const ranges: TextRange[] = [];
+        this.pattern.lastIndex = 0;
+        for (let match = this.pattern.exec(text); match; match = this.pattern.exec(text)) {
+            ranges.push({ index: match.index, length: match[0].length });
+            if (match[0].length === 0) this.pattern.lastIndex++; // Empty matches would never advance
+        }
+        return ranges;
+    }
+
+    test(text: string): boolean {
+        return this.findFirst([text])[0] !== null;
+    }
+}
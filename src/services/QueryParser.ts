@@ -0,0 +1,235 @@
+export type QueryField = 'path' | 'tag' | 'file' | 'prop' | 'linksto' | 'linkedfrom' | 'is' | 'modified' | 'created' | 'due' | 'type';
+
+export type QueryNode =
+    | { type: 'term'; value: string }
+    | { type: 'phrase'; value: string }
+    | { type: 'field'; field: QueryField; value: string }
+    | { type: 'not'; child: QueryNode }
+    | { type: 'and'; children: QueryNode[] }
+    | { type: 'or'; children: QueryNode[] };
+
+export type QueryLeaf = Extract<QueryNode, { type: 'term' | 'phrase' | 'field' }>;
+
+type Token =
+    | { type: 'word'; value: string; negated: boolean; start: number }
+    | { type: 'phrase'; value: string; negated: boolean }
+    | { type: 'field'; field: QueryField; value: string; negated: boolean }
+    | { type: 'open'; negated: boolean }
+    | { type: 'close' }
+    | { type: 'or' };
+
+const QUERY_FIELDS: QueryField[] = ['path', 'tag', 'file', 'prop', 'linksto', 'linkedfrom', 'is', 'modified', 'created', 'due', 'type'];
+
+/**
+ * Parses the search window query syntax into an AST:
+ *   roadmap q3          both terms (AND)
+ *   "exact phrase"      literal phrase
+ *   -draft, -"a b"      negation (also works on fields and groups)
+ *   path:projects/      path contains
+ *   file:roadmap        file name contains
+ *   tag:#meeting        note has the tag (or a nested tag below it)
+ *   prop:status=done    frontmatter property equals the value (prop:status - has the property)
+ *   linksto:[[Note]]    note links to Note
+ *   linkedfrom:[[Note]] Note links to the note
+ *   is:orphan           note has no links, to or from it
+ *   modified:>2025-01-01, created:last-week
+ *                       note was modified/created then (see DateFilter)
+ *   due:<today          note (in task mode, the task) is due then
+ *   type:image          file is of that type (see FileTypes)
+ *   a OR b, (a OR b) c  alternatives, grouped with parentheses
+ * Malformed input never throws: unbalanced quotes and parentheses are closed implicitly.
+ */
+export class QueryParser {
+    private tokens: Token[] = [];
+    private position = 0;
+
+    parse(input: string): QueryNode | null {
+        this.tokens = this.tokenize(input);
+        this.position = 0;
+
+        const children: QueryNode[] = [];
+        while (this.position < this.tokens.length) {
+            const node = this.parseOr();
+            if (node) {
+                children.push(node);
+            } else {
+                this.position++; // Skip a stray ')' or 'OR'
+            }
+        }
+        return QueryParser.combine('and', children);
+    }
+
+    private parseOr(): QueryNode | null {
+        const alternatives: QueryNode[] = [];
+        const first = this.parseAnd();
+        if (first) alternatives.push(first);
+
+        while (this.peek()?.type === 'or') {
+            this.position++;
+            const next = this.parseAnd();
+            if (next) alternatives.push(next);
+        }
+        return QueryParser.combine('or', alternatives);
+    }
+
+    private parseAnd(): QueryNode | null {
+        const children: QueryNode[] = [];
+        let token = this.peek();
+
+        while (token && token.type !== 'or' && token.type !== 'close') {
+            this.position++;
+            let node: QueryNode | null = null;
+            let negated = false;
+
+            if (token.type === 'open') {
+                negated = token.negated;
+                node = this.parseOr();
+                if (this.peek()?.type === 'close') {
+                    this.position++;
+                }
+            } else if (token.type === 'word') {
+                negated = token.negated;
+                node = { type: 'term', value: token.value };
+            } else if (token.type === 'phrase') {
+                negated = token.negated;
+                node = { type: 'phrase', value: token.value };
+            } else if (token.type === 'field') {
+                negated = token.negated;
+                node = { type: 'field', field: token.field, value: token.value };
+            }
+
+            if (node) {
+                children.push(negated ? { type: 'not', child: node } : node);
+            }
+            token = this.peek();
+        }
+        return QueryParser.combine('and', children);
+    }
+
+    // The words of a query that are not negated themselves, with where they are in it: [start, end)
+    getWords(input: string): { value: string; start: number; end: number }[] {
+        const words: { value: string; start: number; end: number }[] = [];
+        this.tokenize(input).forEach(token => {
+            if (token.type === 'word' && !token.negated) {
+                words.push({ value: token.value, start: token.start, end: token.start + token.value.length });
+            }
+        });
+        return words;
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.position];
+    }
+
+    private tokenize(input: string): Token[] {
+        const tokens: Token[] = [];
+        let i = 0;
+
+        const readQuoted = (): string => {
+            // Assumes input[i] is the opening quote
+            const end = input.indexOf('"', i + 1);
+            const value = end === -1 ? input.substring(i + 1) : input.substring(i + 1, end);
+            i = end === -1 ? input.length : end + 1;
+            return value;
+        };
+
+        const readLink = (): string => {
+            // Assumes input[i] starts '[[': the link may contain spaces
+            const end = input.indexOf(']]', i + 2);
+            const value = end === -1 ? input.substring(i) : input.substring(i, end + 2);
+            i = end === -1 ? input.length : end + 2;
+            return value;
+        };
+
+        const readWord = (): string => {
+            const start = i;
+            while (i < input.length && !/[\s()]/.test(input[i])) {
+                i++;
+            }
+            return input.substring(start, i);
+        };
+
+        while (i < input.length) {
+            const char = input[i];
+
+            if (/\s/.test(char)) {
+                i++;
+                continue;
+            }
+            if (char === ')') {
+                tokens.push({ type: 'close' });
+                i++;
+                continue;
+            }
+
+            // A leading '-' negates what follows, unless it stands alone
+            let negated = false;
+            if (char === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+                negated = true;
+                i++;
+            }
+
+            if (input[i] === '(') {
+                tokens.push({ type: 'open', negated });
+                i++;
+            } else if (input[i] === '"') {
+                const value = readQuoted().trim();
+                if (value) tokens.push({ type: 'phrase', value, negated });
+            } else {
+                const start = i;
+                const word = readWord();
+                const separator = word.indexOf(':');
+                const field = separator > 0 ? word.substring(0, separator).toLowerCase() as QueryField : null;
+
+                if (field && QUERY_FIELDS.includes(field)) {
+                    // Field values may be quoted, or links: path:"My folder/", linksto:[[My note]]
+                    i = start + separator + 1;
+                    const value = input[i] === '"' ? readQuoted() : input.startsWith('[[', i) ? readLink() : readWord();
+                    if (value) tokens.push({ type: 'field', field, value, negated });
+                } else if (word === 'OR' && !negated) {
+                    tokens.push({ type: 'or' });
+                } else if (word) {
+                    tokens.push({ type: 'word', value: word, negated, start });
+                }
+            }
+        }
+        return tokens;
+    }
+
+    private static combine(type: 'and' | 'or', children: QueryNode[]): QueryNode | null {
+        if (children.length === 0) return null;
+        if (children.length === 1) return children[0];
+        return { type, children };
+    }
+
+    /**
+     * Collects the leaf nodes that are not negated - these are what a result is
+     * expected to contain and what snippets and highlighting are built from.
+     */
+    static getPositiveLeaves(node: QueryNode | null): QueryLeaf[] {
+        if (!node) return [];
+        switch (node.type) {
+            case 'not':
+                return [];
+            case 'and':
+            case 'or':
+                return node.children.reduce<QueryLeaf[]>((leaves, child) => leaves.concat(QueryParser.getPositiveLeaves(child)), []);
+            default:
+                return [node];
+        }
+    }
+
+    static containsPhrase(node: QueryNode): boolean {
+        switch (node.type) {
+            case 'phrase':
+                return true;
+            case 'not':
+                return QueryParser.containsPhrase(node.child);
+            case 'and':
+            case 'or':
+                return node.children.some(child => QueryParser.containsPhrase(child));
+            default:
+                return false;
+        }
+    }
+}
@@ -0,0 +1,124 @@
+import { App, TFile, TFolder, moment, normalizePath } from 'obsidian';
+import type GlobalSearchPlugin from '../main';
+
+export type CaptureFormat = 'bullet' | 'task';
+
+// Internal Obsidian API for the settings of the core Daily notes plugin
+interface AppWithInternalPlugins {
+    internalPlugins?: {
+        getPluginById?: (id: string) => { instance?: { options?: DailyNoteOptions } } | null;
+    };
+}
+
+interface DailyNoteOptions {
+    folder?: string;
+    format?: string;
+    template?: string;
+}
+
+/**
+ * Writes to the vault from the search window: new notes named after a query, and entries
+ * appended to today's daily note. Files are written directly, so the daily note is never
+ * opened in Obsidian's main window.
+ */
+export class QuickCapture {
+    private static readonly DAILY_NOTE_FORMAT = 'YYYY-MM-DD'; // The Daily notes plugin's default
+    private static readonly INVALID_NAME_CHARACTERS = /[\\/:*?"<>|#^[\]]/g;
+    // {{title}}, {{date}}, {{time}}, optionally with a format: {{date:dddd, MMMM D}}
+    private static readonly TEMPLATE_VARIABLE = /\{\{\s*(title|date|time)\s*(?::([^}]*))?\}\}/gi;
+
+    constructor(private app: App, private plugin: GlobalSearchPlugin) {}
+
+    /**
+     * Creates a note named after `title` in the folder for new notes (Obsidian's default location
+     * when none is set), from the template when one is set. A number is added to the name when a
+     * file with it exists already.
+     */
+    async createNote(title: string): Promise<TFile> {
+        const name = title.replace(QuickCapture.INVALID_NAME_CHARACTERS, ' ').replace(/\s+/g, ' ').trim();
+        if (!name) {
+            throw new Error('The note name has no valid characters');
+        }
+
+        const setting = this.plugin.settings.newNoteFolder.trim();
+        const folder = setting ? normalizePath(setting) : this.app.fileManager.getNewFileParent('').path;
+        await this.ensureFolder(folder);
+        const content = await this.readTemplate(this.plugin.settings.newNoteTemplate, name);
+        return this.app.vault.create(this.getAvailablePath(folder, name), content);
+    }
+
+    /**
+     * Appends `text` to today's daily note as a bullet or a task, after the current time when a
+     * timestamp format is set. The daily note is found (or created, from its template) with the
+     * folder, date format and template of the core Daily notes plugin.
+     */
+    async appendToDailyNote(text: string): Promise<TFile> {
+        const settings = this.plugin.settings;
+        const timestamp = settings.captureTimestampFormat.trim() ? moment().format(settings.captureTimestampFormat.trim()) + ' ' : '';
+        const entry = (settings.captureFormat === 'task' ? '- [ ] ' : '- ') + timestamp + text.trim();
+
+        const file = await this.getDailyNote();
+        await this.app.vault.process(file, data => data + (data === '' || data.endsWith('\n') ? '' : '\n') + entry + '\n');
+        return file;
+    }
+
+    // Today's daily note, created from its template when it does not exist yet
+    async getDailyNote(): Promise<TFile> {
+        const options = (this.app as unknown as AppWithInternalPlugins).internalPlugins
+            ?.getPluginById?.('daily-notes')?.instance?.options || {};
+        const name = moment().format(options.format?.trim() || QuickCapture.DAILY_NOTE_FORMAT);
+        const folder = options.folder?.trim() ? normalizePath(options.folder.trim()) : '';
+        const path = normalizePath(folder ? `${folder}/${name}.md` : `${name}.md`);
+
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) {
+            return existing;
+        }
+        // The date format may contain folders too, e.g. YYYY/MM/YYYY-MM-DD
+        await this.ensureFolder(path.substring(0, path.lastIndexOf('/')));
+        const content = await this.readTemplate(options.template || '', name.substring(name.lastIndexOf('/') + 1));
+        return this.app.vault.create(path, content);
+    }
+
+    private async ensureFolder(path: string): Promise<void> {
+        if (!path || path === '/' || this.app.vault.getAbstractFileByPath(path) instanceof TFolder) {
+            return;
+        }
+        await this.app.vault.createFolder(path);
+    }
+
+    private getAvailablePath(folder: string, name: string): string {
+        const base = folder && folder !== '/' ? `${folder}/${name}` : name;
+        let path = normalizePath(`${base}.md`);
+        for (let copy = 1; this.app.vault.getAbstractFileByPath(path); copy++) {
+            path = normalizePath(`${base} ${copy}.md`);
+        }
+        return path;
+    }
+
+    // The template's text with its variables filled in; empty when there is no template or it is missing
+    private async readTemplate(templatePath: string, title: string): Promise<string> {
+        const setting = templatePath.trim();
+        if (!setting) {
+            return '';
+        }
+        const file = this.app.vault.getAbstractFileByPath(normalizePath(setting.endsWith('.md') ? setting : `${setting}.md`));
+        if (!(file instanceof TFile)) {
+            console.warn(`Template ${setting} not found, creating an empty note`);
+            return '';
+        }
+
+        const template = await this.app.vault.cachedRead(file);
+        const now = moment();
+        return template.replace(QuickCapture.TEMPLATE_VARIABLE, (_match, variable: string, format: string | undefined) => {
+            switch (variable.toLowerCase()) {
+                case 'title':
+                    return title;
+                case 'date':
+                    return now.format(format?.trim() || 'YYYY-MM-DD');
+                default:
+                    return now.format(format?.trim() || 'HH:mm');
+            }
+        });
+    }
+}
@@ -0,0 +1,411 @@
+import { ContentLoader, IndexFingerprint, IndexedDocumentInput, QueryMatch, SearchIndex, SearchProgress, SerializedIndex } from './SearchIndex';
+import { QueryLeaf, QueryNode, QueryParser } from './QueryParser';
+import { NormalizerOptions, TextNormalizer, TextRange } from './TextNormalizer';
+import { PatternMatcher, SearchOptions, SortOrder } from './PatternMatcher';
+import { DEFAULT_EXTRACTOR_OPTIONS, ExtractedText, ExtractorOptions, MarkdownExtractor } from './MarkdownExtractor';
+
+export interface SearchHit {
+    path: string;
+    name: string;
+    score: number;
+    snippet: string;
+    matchRanges?: [number, number][]; // [start, end) of query matches within the snippet
+    matchedAlias?: string;
+    matchedProperty?: { key: string; value: string };
+    modified?: number;
+    created?: number; // From the creation date property when set (see SearchIndex.getCreated)
+    textMatch?: TextMatch;
+    matchCount?: number; // Occurrences of the query's words and phrases (or of the pattern) in the note text
+    passages?: SearchPassage[]; // Lines with the most matches, in note order; the snippet is the best of them
+}
+
+export interface SearchPassage {
+    snippet: string;
+    matchRanges: [number, number][];
+    textMatch: TextMatch;
+}
+
+// Where the content match is in the markdown source the note was indexed from
+export interface TextMatch {
+    offset: number;
+    length: number;
+}
+
+export interface SearchResponse<T> {
+    results: T[];
+    suggestion: string | null; // The query with misspelled words corrected ("did you mean"), if any
+}
+
+// What is written to disk: the index and the normalization and extraction it was built with
+interface SavedIndex {
+    normalizer: NormalizerOptions;
+    extractor: ExtractorOptions;
+    index: SerializedIndex;
+}
+
+type SortableHit = Pick<SearchHit, 'name' | 'score' | 'modified' | 'created'>;
+
+export interface SearchStream<T> {
+    signal?: AbortSignal; // Stops the search; partial results are returned
+    onResults?: (results: T[]) => void; // Results found so far, best first
+    onBatch?: () => Promise<void>; // Awaited between batches of notes
+}
+
+/**
+ * Everything needed to answer a query from the note contents: the index, the query parser and
+ * snippet building. Has no Obsidian dependency so it can run inside the search worker.
+ */
+export class SearchEngine {
+    private index: SearchIndex;
+    private normalizer: TextNormalizer;
+    private normalizerOptions: NormalizerOptions;
+    private extractorOptions: ExtractorOptions;
+    private queryParser: QueryParser = new QueryParser();
+
+    private static readonly SNIPPET_CONTEXT_LENGTH = 40; // Characters before/after match in snippet
+    private static readonly SNIPPET_MAX_LEAD = 100; // Never start the snippet further before the match (long lines)
+    private static readonly MAX_PASSAGES = 5; // Matching lines shown per note
+    private static readonly PASSAGE_MAX_LENGTH = 300; // Characters of a passage's line kept (more if its matches span further)
+    static readonly REGEX_TIME_BUDGET_MS = 1500; // Total time a regular expression may run per search
+    private static readonly FUZZY_MIN_RESULTS = 3; // With fewer results, misspelled words are corrected
+    private static readonly FUZZY_SCORE_FACTOR = 0.5; // Results found only through corrections rank lower
+
+    constructor(loadContent: ContentLoader, normalizerOptions: NormalizerOptions, extractorOptions: ExtractorOptions = DEFAULT_EXTRACTOR_OPTIONS) {
+        this.normalizerOptions = normalizerOptions;
+        this.extractorOptions = extractorOptions;
+        this.normalizer = new TextNormalizer(normalizerOptions);
+        this.index = new SearchIndex(loadContent, this.normalizer, new MarkdownExtractor(extractorOptions));
+    }
+
+    upsert(input: IndexedDocumentInput): void {
+        this.index.upsert(input);
+    }
+
+    remove(path: string): void {
+        this.index.remove(path);
+    }
+
+    clear(): void {
+        this.index.clear();
+    }
+
+    setLinks(links: Record<string, string[]>): void {
+        this.index.setLinks(links);
+    }
+
+    setCreatedProperty(property: string): void {
+        this.index.setCreatedProperty(property);
+    }
+
+    serialize(): string {
+        const saved: SavedIndex = { normalizer: this.normalizerOptions, extractor: this.extractorOptions, index: this.index.serialize() };
+        return JSON.stringify(saved);
+    }
+
+    /**
+     * Loads an index written by `serialize` and returns the fingerprints of the files in it.
+     * Returns null, leaving the index empty, when the data is unreadable, from another format
+     * version or was built with different normalization or extraction - the caller then indexes everything.
+     */
+    restore(data: string): IndexFingerprint[] | null {
+        try {
+            const saved = JSON.parse(data) as SavedIndex;
+            if (saved.normalizer.foldDiacritics !== this.normalizerOptions.foldDiacritics ||
+                saved.normalizer.locale !== this.normalizerOptions.locale ||
+                !saved.extractor ||
+                (Object.keys(this.extractorOptions) as (keyof ExtractorOptions)[])
+                    .some(option => saved.extractor[option] !== this.extractorOptions[option])) {
+                return null;
+            }
+            this.index.restore(saved.index);
+            return this.index.getFingerprints();
+        } catch (e) {
+            console.warn('Saved search index could not be loaded, rebuilding it:', e);
+            this.index.clear();
+            return null;
+        }
+    }
+
+    /**
+     * Searches notes by the query syntax (see QueryParser), or by a regular expression when `options.regex` is set.
+     */
+    async search(query: string, limit: number, options: SearchOptions, stream: SearchStream<SearchHit> = {}): Promise<SearchResponse<SearchHit>> {
+        if (options.regex) {
+            return { results: this.rankHits(await this.searchPattern(query, limit, options, stream), limit, options.sort), suggestion: null };
+        }
+        return this.searchNotes(query, limit, options, stream);
+    }
+
+    private rankHits(hits: SearchHit[], limit: number, sort: SortOrder): SearchHit[] {
+        return hits
+            .sort(SearchEngine.compareHits(sort))
+            .slice(0, limit);
+    }
+
+    // Orders hits (or results built from them) best first: by score, newest first, or by name
+    static compareHits(sort: SortOrder): (a: SortableHit, b: SortableHit) => number {
+        switch (sort) {
+            case 'modified':
+                return (a, b) => (b.modified || 0) - (a.modified || 0);
+            case 'created':
+                return (a, b) => (b.created || 0) - (a.created || 0);
+            case 'name':
+                return (a, b) => a.name.localeCompare(b.name);
+            default:
+                return (a, b) => b.score - a.score;
+        }
+    }
+
+    /**
+     * When exact matching (case or whole words) is off and few notes match, misspelled words are
+     * also searched as they were probably meant, and the corrected query is suggested.
+     */
+    private async searchNotes(query: string, limit: number, options: SearchOptions, stream: SearchStream<SearchHit>): Promise<SearchResponse<SearchHit>> {
+        const parsedQuery = this.queryParser.parse(query);
+        if (!parsedQuery) {
+            return { results: [], suggestion: null };
+        }
+
+        const hits = await this.runQuery(parsedQuery, limit, options, stream);
+        if (hits.length >= SearchEngine.FUZZY_MIN_RESULTS || options.caseSensitive || options.wholeWord || stream.signal?.aborted) {
+            return { results: this.rankHits(hits, limit, options.sort), suggestion: null };
+        }
+
+        const corrections = this.index.getCorrections(parsedQuery);
+        if (corrections.size === 0) {
+            return { results: this.rankHits(hits, limit, options.sort), suggestion: null };
+        }
+
+        const correctedHits = await this.runQuery(SearchEngine.applyCorrections(parsedQuery, corrections), limit, options,
+            { signal: stream.signal, onBatch: stream.onBatch });
+        const found = new Set(hits.map(hit => hit.path));
+        correctedHits
+            .filter(hit => !found.has(hit.path))
+            .forEach(hit => hits.push({ ...hit, score: hit.score * SearchEngine.FUZZY_SCORE_FACTOR }));
+
+        // Misspelled words are replaced where they stand, from the end so earlier positions stay valid;
+        // field values and phrases are not words and are never changed
+        let suggestion = query;
+        this.queryParser.getWords(query).reverse().forEach(word => {
+            const terms = corrections.get(word.value);
+            if (terms) {
+                suggestion = suggestion.substring(0, word.start) + terms[0] + suggestion.substring(word.end);
+            }
+        });
+        return { results: this.rankHits(hits, limit, options.sort), suggestion: suggestion !== query ? suggestion : null };
+    }
+
+    // Each corrected term matches as typed or as any of its corrections; negated parts are left alone
+    private static applyCorrections(node: QueryNode, corrections: Map<string, string[]>): QueryNode {
+        switch (node.type) {
+            case 'term': {
+                const terms = corrections.get(node.value);
+                if (!terms) return node;
+                return { type: 'or', children: [node, ...terms.map((value): QueryNode => ({ type: 'term', value }))] };
+            }
+            case 'and':
+            case 'or':
+                return { type: node.type, children: node.children.map(child => SearchEngine.applyCorrections(child, corrections)) };
+            default:
+                return node;
+        }
+    }
+
+    private async runQuery(parsedQuery: QueryNode, limit: number, options: SearchOptions, stream: SearchStream<SearchHit>): Promise<SearchHit[]> {
+        const positiveLeaves = QueryParser.getPositiveLeaves(parsedQuery);
+        const toHit = (match: QueryMatch) => this.toSearchHit(match, text => this.findLeaves(text, positiveLeaves, options));
+
+        // Titles (Fuse.js) and content (inverted index) are evaluated against the same query AST
+        const hits: Map<string, SearchHit> = new Map();
+        const matches = await this.index.search(parsedQuery, limit, options, this.getProgress(stream, hits, limit, options.sort, toHit));
+        return matches.map(match => hits.get(match.document.path) ?? toHit(match));
+    }
+
+    // The whole query is a regular expression, run with a time budget
+    private async searchPattern(query: string, limit: number, options: SearchOptions, stream: SearchStream<SearchHit>): Promise<SearchHit[]> {
+        let matcher: PatternMatcher;
+        try {
+            matcher = new PatternMatcher(query, options);
+        } catch {
+            return []; // Invalid pattern - the search window flags it
+        }
+
+        const toHit = (match: QueryMatch) => this.toSearchHit(match, text => matcher.findAll(text));
+        const hits: Map<string, SearchHit> = new Map();
+        const matches = await this.index.searchPattern(matcher, limit, SearchEngine.REGEX_TIME_BUDGET_MS, options.sort,
+            this.getProgress(stream, hits, limit, options.sort, toHit));
+        return matches.map(match => hits.get(match.document.path) ?? toHit(match));
+    }
+
+    /**
+     * Reports hits to the stream as the index finds them. Title hits come without snippets
+     * and are replaced once their note has been verified; verified hits are kept in `hits`.
+     */
+    private getProgress(stream: SearchStream<SearchHit>, hits: Map<string, SearchHit>, limit: number, sort: SortOrder,
+        toHit: (match: QueryMatch) => SearchHit): SearchProgress {
+        const onResults = stream.onResults;
+        if (!onResults) {
+            return { signal: stream.signal, onBatch: stream.onBatch };
+        }
+
+        let titleHits: SearchHit[] = [];
+        const publish = () => {
+            const pending = titleHits.filter(hit => !hits.has(hit.path));
+            onResults(this.rankHits(pending.concat(Array.from(hits.values())), limit, sort));
+        };
+        return {
+            signal: stream.signal,
+            onBatch: stream.onBatch,
+            onTitleMatches: (matches) => {
+                titleHits = matches.map(toHit);
+                if (titleHits.length > 0) publish();
+            },
+            onMatches: (matches) => {
+                matches.map(toHit).forEach(hit => hits.set(hit.path, hit));
+                publish();
+            }
+        };
+    }
+
+    // `findMatches` finds the query in a text: in the whole note text for the passages, then in each snippet
+    private toSearchHit(match: QueryMatch, findMatches: (text: string) => TextRange[]): SearchHit {
+        const hit: SearchHit = {
+            path: match.document.path,
+            name: match.document.basename,
+            score: match.score,
+            snippet: '',
+            matchRanges: [],
+            matchedAlias: match.matchedAlias ?? undefined,
+            matchedProperty: match.matchedProperty ?? undefined,
+            modified: match.document.mtime,
+            created: this.index.getCreated(match.document)
+        };
+        const text = match.text;
+        if (text === null || match.matchIndex === -1) {
+            return hit;
+        }
+
+        let ranges = this.mergeRanges(findMatches(text.text));
+        if (ranges.length === 0) {
+            ranges = [[match.matchIndex, match.matchIndex + match.matchLength]];
+        }
+        const { passages, best } = this.getPassages(text, ranges, findMatches);
+        return {
+            ...hit,
+            snippet: best.snippet,
+            matchRanges: best.matchRanges,
+            textMatch: best.textMatch,
+            matchCount: ranges.length,
+            passages
+        };
+    }
+
+    /**
+     * Groups the matches by line and keeps the lines with the most of them (earlier lines on ties).
+     * Returns them in note order, and the best one with a snippet that reaches into the lines around it.
+     */
+    private getPassages(text: ExtractedText, ranges: [number, number][], findMatches: (text: string) => TextRange[]): { passages: SearchPassage[]; best: SearchPassage } {
+        const lines = new Map<number, [number, number][]>(); // Line start -> matches on the line
+        for (const range of ranges) {
+            const lineStart = text.text.lastIndexOf('\n', range[0] - 1) + 1;
+            const line = lines.get(lineStart);
+            if (line) {
+                line.push(range);
+            } else {
+                lines.set(lineStart, [range]);
+            }
+        }
+
+        const ranked = Array.from(lines.values())
+            .sort((a, b) => (b.length - a.length) || (a[0][0] - b[0][0]))
+            .slice(0, SearchEngine.MAX_PASSAGES);
+        const toPassage = (snippet: string, line: [number, number][]): SearchPassage => ({
+            snippet,
+            matchRanges: this.mergeRanges(findMatches(snippet)),
+            textMatch: this.getTextMatch(text, line[0][0], line[0][1] - line[0][0])
+        });
+        const passages = ranked.map(line => toPassage(this.getLineSnippet(text.text, line[0][0], line[line.length - 1][1]), line));
+        const bestLine = ranked[0];
+        const best = toPassage(this.getContextSnippet(text.text, bestLine[0][0], bestLine[bestLine.length - 1][1] - bestLine[0][0]), bestLine);
+        passages.sort((a, b) => a.textMatch.offset - b.textMatch.offset);
+        return { passages, best };
+    }
+
+    // The line from `start` to `end`, starting a little before `start` (passages are shown one per line)
+    private getLineSnippet(content: string, start: number, end: number): string {
+        const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+        const lineEnd = content.indexOf('\n', end);
+        const from = Math.max(lineStart, start - SearchEngine.SNIPPET_CONTEXT_LENGTH);
+        const to = Math.min(lineEnd === -1 ? content.length : lineEnd, Math.max(end, from + SearchEngine.PASSAGE_MAX_LENGTH));
+        let snippet = content.substring(from, to).trim();
+
+        if (from > lineStart) snippet = '...' + snippet;
+        if (to < (lineEnd === -1 ? content.length : lineEnd)) snippet = snippet + '...';
+
+        return snippet;
+    }
+
+    // From the first to the last matched character in the source (markup in between is included)
+    private getTextMatch(text: ExtractedText, matchIndex: number, matchLength: number): TextMatch {
+        const offset = MarkdownExtractor.toSourceOffset(text, matchIndex);
+        const end = matchLength > 0 ? MarkdownExtractor.toSourceOffset(text, matchIndex + matchLength - 1) + 1 : offset;
+        return { offset, length: Math.max(0, end - offset) };
+    }
+
+    private getContextSnippet(content: string, matchIndex: number, matchLength: number): string {
+        let lineStart = matchIndex;
+        while (lineStart > 0 && content[lineStart - 1] !== '\n') {
+            lineStart--;
+        }
+
+        let lineEnd = matchIndex + matchLength;
+        while (lineEnd < content.length && content[lineEnd] !== '\n') {
+            lineEnd++;
+        }
+
+        const start = Math.max(0, lineStart - SearchEngine.SNIPPET_CONTEXT_LENGTH, matchIndex - SearchEngine.SNIPPET_MAX_LEAD);
+        const end = Math.min(content.length, lineEnd + SearchEngine.SNIPPET_CONTEXT_LENGTH);
+        let snippet = content.substring(start, end);
+
+        snippet = snippet.replace(/\n+/g, ' ').trim();
+
+        if (start > 0) snippet = '...' + snippet;
+        if (end < content.length) snippet = snippet + '...';
+
+        return snippet;
+    }
+
+    // Every occurrence of a positive term or phrase in `text`
+    private findLeaves(text: string, leaves: QueryLeaf[], options: SearchOptions): TextRange[] {
+        const ranges: TextRange[] = [];
+
+        for (const leaf of leaves) {
+            if (leaf.type === 'field') continue;
+            if (options.caseSensitive || options.wholeWord) {
+                ranges.push(...new PatternMatcher(leaf.value, { ...options, regex: false }).findAll(text));
+                continue;
+            }
+            const needle = this.normalizer.normalize(leaf.value);
+            if (!needle) continue;
+            ranges.push(...this.normalizer.findAll(text, needle));
+        }
+        return ranges;
+    }
+
+    private mergeRanges(ranges: TextRange[]): [number, number][] {
+        const sorted = ranges
+            .filter(range => range.length > 0)
+            .map((range): [number, number] => [range.index, range.index + range.length])
+            .sort((a, b) => a[0] - b[0]);
+        const merged: [number, number][] = [];
+        for (const range of sorted) {
+            const last = merged[merged.length - 1];
+            if (last && range[0] <= last[1]) {
+                last[1] = Math.max(last[1], range[1]);
+            } else {
+                merged.push([range[0], range[1]]);
+            }
+        }
+        return merged;
+    }
+}
@@ -0,0 +1,1179 @@
+import Fuse, { FuseGetFunction, FuseIndexRecords, FuseOptionKey } from 'fuse.js';
+import { QueryField, QueryLeaf, QueryNode, QueryParser } from './QueryParser';
+import { TextNormalizer, TextRange } from './TextNormalizer';
+import { DEFAULT_SEARCH_OPTIONS, PatternMatcher, SearchOptions, SortOrder } from './PatternMatcher';
+import { LinkGraph } from './LinkGraph';
+import { DateFilter } from './DateFilter';
+import { ExtractedText, MarkdownExtractor, MarkdownSection } from './MarkdownExtractor';
+import { FileTypes } from './FileTypes';
+
+export interface FileIndex {
+    path: string;
+    name: string;
+    basename: string;
+    aliases: string[];
+}
+
+export interface IndexedDocumentInput {
+    path: string;
+    name: string;
+    basename: string;
+    mtime: number;
+    ctime: number;
+    size: number;
+    tags: string[];
+    headings: string[];
+    aliases: string[];
+    properties: Record<string, string[]>; // Frontmatter values flattened to strings, by property name
+    content: string;
+    sections: MarkdownSection[] | null; // Blocks found by the metadata cache, null when not parsed yet
+}
+
+// The markdown of a note and its blocks, as read by the main thread
+export interface MarkdownSource {
+    content: string;
+    sections: MarkdownSection[] | null;
+}
+
+export interface IndexedDocument {
+    id: number;
+    path: string;
+    name: string;
+    basename: string;
+    mtime: number;
+    ctime: number;
+    size: number;
+    normalizedPath: string;
+    normalizedBasename: string;
+    tags: string[]; // Normalized, including parent tags: #a/b is stored as #a and #a/b
+    aliases: string[];
+    properties: Record<string, string[]>;
+    termIds: Uint32Array;
+    length: number; // Field-weighted number of tokens, used for BM25 length normalization
+}
+
+export interface QueryMatch {
+    document: IndexedDocument;
+    score: number; // BM25 relevance plus a boost for fuzzy title matches
+    text: ExtractedText | null;
+    matchIndex: number; // Position of the first positive term or phrase in `text.text`, -1 if none
+    matchLength: number;
+    matchedAlias: string | null; // Alias through which the note matched, if any
+    matchedProperty: { key: string; value: string } | null; // Property through which the note matched, if any
+}
+
+interface QueryContext {
+    titleHits: Map<string, Map<number, number>>; // term -> document id -> Fuse score
+    aliasHits: Map<string, Map<number, string>>; // term -> document id -> alias Fuse matched
+    prefixHits: Map<string, Map<number, number>>; // token -> document id -> weighted frequency of terms starting with it
+    contentIds: Map<string, Set<number> | null>; // term/phrase -> documents containing all its tokens, see getContentIds
+    options: SearchOptions;
+    matchers: Map<string, PatternMatcher>; // Exact matchers per term/phrase when case or whole words matter
+    linkTargets: Map<string, string[]>; // linksto:/linkedfrom: value -> paths the link can point to
+    dateFilters: Map<string, DateFilter | null>; // modified:/created: value -> parsed condition
+    now: number; // Relative dates (today, 7d) are resolved against the time the search started
+}
+
+// Identifies the version of a file a document was indexed from
+export interface IndexFingerprint {
+    path: string;
+    mtime: number;
+    size: number;
+}
+
+/**
+ * The index in a form that can be written to disk. Terms are stored once and referenced
+ * by position; the title index is stored prebuilt so Fuse does not re-normalize every title.
+ */
+export interface SerializedIndex {
+    version: number;
+    terms: string[];
+    documents: SerializedDocument[];
+    titleIndex: { keys: ReadonlyArray<string>; records: FuseIndexRecords };
+}
+
+interface SerializedDocument {
+    path: string;
+    name: string;
+    basename: string;
+    mtime: number;
+    ctime: number;
+    size: number;
+    tags: string[]; // Already expanded and normalized
+    aliases: string[];
+    properties: Record<string, string[]>;
+    terms: number[]; // Positions in SerializedIndex.terms
+    frequencies: number[]; // Weighted term frequency per entry of `terms`
+}
+
+/**
+ * Lets a caller show results while a search is still running and stop it early.
+ * An aborted search returns the matches found so far.
+ */
+export interface SearchProgress {
+    signal?: AbortSignal;
+    onTitleMatches?: (matches: QueryMatch[]) => void | Promise<void>; // Title matches, before any note text is read
+    onMatches?: (matches: QueryMatch[]) => void | Promise<void>; // Each verified batch, with match positions in the text
+    onBatch?: () => Promise<void>; // Awaited after every batch, e.g. so a worker can handle a cancel message
+}
+
+// Loads the markdown of a document whose text is no longer cached
+export type ContentLoader = (path: string) => Promise<MarkdownSource | null>;
+
+/**
+ * In-memory search index kept up to date incrementally.
+ * Holds a Fuse index over note titles and a tokenized (inverted) index over note content,
+ * so a single note can be added, replaced or removed without rebuilding everything.
+ *
+ * Memory stays bounded for large vaults: documents and terms are referenced by numeric ids,
+ * and extracted note text is only kept in a size-limited LRU cache (reloaded on demand).
+ */
+export class SearchIndex {
+    private titleIndex: Fuse<FileIndex>;
+    private documents: Map<string, IndexedDocument> = new Map();
+    private documentsById: Map<number, IndexedDocument> = new Map();
+    private termIds: Map<string, number> = new Map();
+    private termsById: Map<number, string> = new Map();
+    private postings: Map<number, Map<number, number>> = new Map(); // term id -> document id -> weighted term frequency
+    private sortedTerms: string[] | null = null; // Lazily rebuilt vocabulary for prefix lookups
+    private textCache: Map<number, ExtractedText> = new Map(); // document id -> extracted text (LRU)
+    private textCacheChars = 0;
+    private nextDocumentId = 1;
+    private nextTermId = 1;
+    private totalLength = 0;
+    private links: LinkGraph = new LinkGraph(); // Kept apart from the documents: it changes when other files do
+    private createdProperty = ''; // Normalized name of the frontmatter property holding creation dates, if any
+
+    static readonly FORMAT_VERSION = 3; // Bump whenever SerializedIndex or tokenization changes
+    private static readonly TITLE_KEYS: FuseOptionKey<FileIndex>[] = [
+        { name: 'basename', weight: 2 },
+        { name: 'aliases', weight: 1.5 },
+        { name: 'path', weight: 1 }
+    ];
+    private static readonly MAX_TERM_LENGTH = 64; // Longer tokens (URLs, base64) are indexed by their prefix
+    private static readonly MAX_TEXT_CACHE_CHARS = 8000000; // ~16 MB of cached note text
+    private static readonly VERIFY_BATCH_SIZE = 20; // Documents loaded at once when verifying matches
+    private static readonly PATTERN_TITLE_SCORE = 2; // Regex matches in the title rank above content-only ones
+    private static readonly MIN_CORRECTION_LENGTH = 4; // Shorter words have too many close neighbours to guess from
+    private static readonly LONG_WORD_LENGTH = 8; // From this length, words may be two edits away from the intended one
+    private static readonly MAX_CORRECTIONS = 3; // Vocabulary terms tried per misspelled word
+
+    // Ranking: BM25 over a single field-weighted term frequency (title, alias and heading tokens count extra)
+    private static readonly BM25_K1 = 1.2;
+    private static readonly BM25_B = 0.75;
+    private static readonly TITLE_WEIGHT = 5;
+    private static readonly ALIAS_WEIGHT = 4;
+    private static readonly PROPERTY_WEIGHT = 1;
+    private static readonly HEADING_WEIGHT = 2; // Added on top of the heading's occurrence in the body
+    private static readonly PREFIX_MATCH_WEIGHT = 0.5; // Terms only starting with the query token count half
+    private static readonly MIN_PREFIX_LENGTH = 2; // Shorter tokens ("c" of "C#") only match the same term, except CJK characters
+    private static readonly FUZZY_TITLE_BOOST = 3; // Scaled by (1 - Fuse score) for typo-tolerant title hits
+    private static readonly MIN_FUZZY_TITLE_LENGTH = 3; // Shorter terms must be in the title as typed ("c#" is not a typo of "c")
+
+    constructor(private loadContent: ContentLoader, private normalizer: TextNormalizer, private extractor: MarkdownExtractor) {
+        this.titleIndex = new Fuse<FileIndex>([], {
+            getFn: this.getTitleField,
+            keys: SearchIndex.TITLE_KEYS,
+            threshold: 0.4,
+            includeScore: true,
+            includeMatches: true,
+            minMatchCharLength: 1,
+            ignoreLocation: true
+        });
+    }
+
+    // Titles and aliases are matched in normalized form, like the content index
+    private getTitleField: FuseGetFunction<FileIndex> = (entry, path) => {
+        const value = Fuse.config.getFn(entry, path);
+        if (typeof value === 'string') {
+            return this.normalizer.normalize(value);
+        }
+        return value ? value.map(item => this.normalizer.normalize(item)) : value;
+    };
+
+    get size(): number {
+        return this.documents.size;
+    }
+
+    has(path: string): boolean {
+        return this.documents.has(path);
+    }
+
+    getDocument(path: string): IndexedDocument | undefined {
+        return this.documents.get(path);
+    }
+
+    // Replaces the link graph (source path -> target paths) used by the link filters
+    setLinks(links: Record<string, string[]>): void {
+        this.links.set(links);
+    }
+
+    // Property whose date is used as a note's creation date (the file's when empty, missing or not a date)
+    setCreatedProperty(property: string): void {
+        this.createdProperty = this.normalizer.normalize(property.trim());
+    }
+
+    getCreated(doc: IndexedDocument): number {
+        if (this.createdProperty) {
+            const key = Object.keys(doc.properties).find(name => this.normalizer.normalize(name) === this.createdProperty);
+            const created = key !== undefined && doc.properties[key].length > 0 ? DateFilter.parseDate(doc.properties[key][0]) : null;
+            if (created !== null) return created;
+        }
+        return doc.ctime;
+    }
+
+    upsert(input: IndexedDocumentInput): void {
+        this.remove(input.path);
+
+        const extracted = this.extractor.extract(input.content, input.sections);
+        const frequencies = new Map<string, number>();
+        const addTokens = (value: string, weight: number) => {
+            this.tokenize(value).forEach(term => {
+                frequencies.set(term, (frequencies.get(term) || 0) + weight);
+            });
+        };
+        addTokens(extracted.text, 1);
+        addTokens(input.basename, SearchIndex.TITLE_WEIGHT);
+        input.aliases.forEach(alias => addTokens(alias, SearchIndex.ALIAS_WEIGHT));
+        input.headings.forEach(heading => addTokens(heading, SearchIndex.HEADING_WEIGHT));
+        Object.keys(input.properties).forEach(key => {
+            input.properties[key].forEach(value => addTokens(value, SearchIndex.PROPERTY_WEIGHT));
+        });
+
+        const id = this.nextDocumentId++;
+        const termIds = new Uint32Array(frequencies.size);
+        let length = 0;
+
+        let i = 0;
+        frequencies.forEach((frequency, term) => {
+            let termId = this.termIds.get(term);
+            if (termId === undefined) {
+                termId = this.nextTermId++;
+                this.termIds.set(term, termId);
+                this.termsById.set(termId, term);
+                this.postings.set(termId, new Map());
+                this.sortedTerms = null;
+            }
+            this.postings.get(termId)?.set(id, frequency);
+            termIds[i++] = termId;
+            length += frequency;
+        });
+        this.totalLength += length;
+
+        const doc: IndexedDocument = {
+            id,
+            path: input.path,
+            name: input.name,
+            basename: input.basename,
+            mtime: input.mtime,
+            ctime: input.ctime,
+            size: input.size,
+            normalizedPath: this.normalizer.normalize(input.path),
+            normalizedBasename: this.normalizer.normalize(input.basename),
+            tags: this.expandTags(input.tags),
+            aliases: input.aliases,
+            properties: input.properties,
+            termIds,
+            length
+        };
+        this.documents.set(input.path, doc);
+        this.documentsById.set(id, doc);
+        this.cacheText(id, extracted);
+
+        this.titleIndex.add(SearchIndex.toFileIndex(doc));
+    }
+
+    remove(path: string): void {
+        const doc = this.documents.get(path);
+        if (!doc) {
+            return;
+        }
+
+        doc.termIds.forEach(termId => {
+            const ids = this.postings.get(termId);
+            if (!ids) return;
+            ids.delete(doc.id);
+            if (ids.size === 0) {
+                // Drop vocabulary entries no document uses anymore
+                const term = this.termsById.get(termId);
+                if (term !== undefined) this.termIds.delete(term);
+                this.termsById.delete(termId);
+                this.postings.delete(termId);
+                this.sortedTerms = null;
+            }
+        });
+
+        this.totalLength -= doc.length;
+        this.uncacheText(doc.id);
+        this.documents.delete(path);
+        this.documentsById.delete(doc.id);
+        this.titleIndex.remove(entry => entry.path === path);
+    }
+
+    clear(): void {
+        this.documents.clear();
+        this.documentsById.clear();
+        this.termIds.clear();
+        this.termsById.clear();
+        this.postings.clear();
+        this.textCache.clear();
+        this.textCacheChars = 0;
+        this.totalLength = 0;
+        this.sortedTerms = null;
+        this.titleIndex.setCollection([]);
+    }
+
+    getFingerprints(): IndexFingerprint[] {
+        return Array.from(this.documents.values(), doc => ({ path: doc.path, mtime: doc.mtime, size: doc.size }));
+    }
+
+    serialize(): SerializedIndex {
+        const terms: string[] = [];
+        const positions = new Map<number, number>(); // term id -> position in `terms`
+        const documents: SerializedDocument[] = [];
+        const entries: FileIndex[] = [];
+
+        this.documents.forEach(doc => {
+            const termPositions: number[] = [];
+            const frequencies: number[] = [];
+            doc.termIds.forEach(termId => {
+                let position = positions.get(termId);
+                if (position === undefined) {
+                    position = terms.length;
+                    positions.set(termId, position);
+                    terms.push(this.termsById.get(termId) ?? '');
+                }
+                termPositions.push(position);
+                frequencies.push(this.postings.get(termId)?.get(doc.id) || 0);
+            });
+
+            documents.push({
+                path: doc.path,
+                name: doc.name,
+                basename: doc.basename,
+                mtime: doc.mtime,
+                ctime: doc.ctime,
+                size: doc.size,
+                tags: doc.tags,
+                aliases: doc.aliases,
+                properties: doc.properties,
+                terms: termPositions,
+                frequencies
+            });
+            entries.push(SearchIndex.toFileIndex(doc));
+        });
+
+        return {
+            version: SearchIndex.FORMAT_VERSION,
+            terms,
+            documents,
+            titleIndex: Fuse.createIndex(SearchIndex.TITLE_KEYS, entries, { getFn: this.getTitleField }).toJSON()
+        };
+    }
+
+    /**
+     * Replaces the contents of the index with a serialized one. Throws when the data is from
+     * another format version or inconsistent; the index is then left empty.
+     */
+    restore(data: SerializedIndex): void {
+        this.clear();
+        try {
+            if (data.version !== SearchIndex.FORMAT_VERSION) {
+                throw new Error(`Unsupported search index version ${data.version}`);
+            }
+
+            const termIds = data.terms.map(term => {
+                const termId = this.nextTermId++;
+                this.termIds.set(term, termId);
+                this.termsById.set(termId, term);
+                this.postings.set(termId, new Map());
+                return termId;
+            });
+
+            const entries: FileIndex[] = [];
+            for (const saved of data.documents) {
+                if (saved.terms.length !== saved.frequencies.length || this.documents.has(saved.path)) {
+                    throw new Error(`Corrupt search index entry for ${saved.path}`);
+                }
+
+                const id = this.nextDocumentId++;
+                const docTermIds = new Uint32Array(saved.terms.length);
+                let length = 0;
+                saved.terms.forEach((position, i) => {
+                    const termId = termIds[position];
+                    if (termId === undefined) {
+                        throw new Error(`Corrupt search index entry for ${saved.path}`);
+                    }
+                    this.postings.get(termId)?.set(id, saved.frequencies[i]);
+                    docTermIds[i] = termId;
+                    length += saved.frequencies[i];
+                });
+                this.totalLength += length;
+
+                const doc: IndexedDocument = {
+                    id,
+                    path: saved.path,
+                    name: saved.name,
+                    basename: saved.basename,
+                    mtime: saved.mtime,
+                    ctime: saved.ctime,
+                    size: saved.size,
+                    normalizedPath: this.normalizer.normalize(saved.path),
+                    normalizedBasename: this.normalizer.normalize(saved.basename),
+                    tags: saved.tags,
+                    aliases: saved.aliases,
+                    properties: saved.properties,
+                    termIds: docTermIds,
+                    length
+                };
+                this.documents.set(doc.path, doc);
+                this.documentsById.set(id, doc);
+                entries.push(SearchIndex.toFileIndex(doc));
+            }
+
+            if (data.titleIndex.records.length !== entries.length) {
+                throw new Error('Corrupt search index: title index does not match the documents');
+            }
+            this.titleIndex.setCollection(entries, Fuse.parseIndex(data.titleIndex, { getFn: this.getTitleField }));
+        } catch (e) {
+            this.clear();
+            throw e;
+        }
+    }
+
+    /**
+     * Evaluates a parsed query against titles and content and returns up to `limit` matching documents,
+     * best first. A term matches when Fuse finds it in the title or when every token of it is a prefix
+     * of some term in the note (single-letter tokens must be the whole term; short terms with symbols,
+     * like c# or c++, must appear as typed); phrases are checked literally against the title and note text.
+     * Candidates are ranked with BM25 before verification, so note text is only loaded for the best ones.
+     * With `caseSensitive` or `wholeWord` set, terms and phrases must in addition appear exactly as written.
+     */
+    async search(query: QueryNode, limit: number, options: SearchOptions = DEFAULT_SEARCH_OPTIONS, progress: SearchProgress = {}): Promise<QueryMatch[]> {
+        const context: QueryContext = {
+            titleHits: new Map(),
+            aliasHits: new Map(),
+            prefixHits: new Map(),
+            contentIds: new Map(),
+            options,
+            matchers: new Map(),
+            linkTargets: new Map(),
+            dateFilters: new Map(),
+            now: Date.now()
+        };
+        this.collectTitleHits(query, context);
+
+        const candidateIds = this.getCandidateIds(query, context);
+        const candidates: IndexedDocument[] = [];
+        if (candidateIds) {
+            candidateIds.forEach(id => {
+                const doc = this.documentsById.get(id);
+                if (doc) candidates.push(doc);
+            });
+        } else {
+            this.documents.forEach(doc => candidates.push(doc));
+        }
+
+        const positiveLeaves = QueryParser.getPositiveLeaves(query);
+        const scores = new Map<number, number>();
+        candidates.forEach(doc => scores.set(doc.id, this.getScore(doc, positiveLeaves, context)));
+        // Candidates are verified in result order, so the first `limit` matches are the ones to return
+        candidates.sort(this.getDocumentOrder(options.sort, scores));
+
+        const toMatch = (doc: IndexedDocument, text: ExtractedText | null): QueryMatch => ({
+            document: doc,
+            score: scores.get(doc.id) || 0,
+            text,
+            matchIndex: -1,
+            matchLength: 0,
+            ...this.findMatchedField(doc, positiveLeaves, context)
+        });
+
+        // Evaluate candidates in batches; note text is only loaded when a phrase or exact match needs checking
+        const needsText = QueryParser.containsPhrase(query) || SearchIndex.isExact(options) || this.containsLiteralTerm(query);
+
+        // Without text checks, title hits are final and can be shown before any note is read
+        if (!needsText && progress.onTitleMatches) {
+            const titleMatches: QueryMatch[] = [];
+            for (let i = 0; i < candidates.length && titleMatches.length < limit; i++) {
+                const doc = candidates[i];
+                if (this.isTitleHit(doc, positiveLeaves, context) && this.evaluate(query, doc, null, null, context)) {
+                    titleMatches.push(toMatch(doc, null));
+                }
+            }
+            await progress.onTitleMatches(titleMatches);
+        }
+
+        const matches: QueryMatch[] = [];
+        for (let i = 0; i < candidates.length && matches.length < limit; i += SearchIndex.VERIFY_BATCH_SIZE) {
+            if (progress.signal?.aborted) break;
+
+            const batch = candidates.slice(i, i + SearchIndex.VERIFY_BATCH_SIZE);
+            const texts = needsText
+                ? await Promise.all(batch.map(doc => this.getText(doc)))
+                : batch.map(() => null);
+
+            const batchMatches: QueryMatch[] = [];
+            for (let j = 0; j < batch.length && matches.length + batchMatches.length < limit; j++) {
+                const doc = batch[j];
+                const text = texts[j]?.text ?? null;
+                const normalizedText = text !== null ? this.normalizer.normalize(text) : null;
+                if (this.evaluate(query, doc, text, normalizedText, context)) {
+                    batchMatches.push(toMatch(doc, texts[j]));
+                }
+            }
+
+            await this.locateMatches(batchMatches, positiveLeaves, context);
+            matches.push(...batchMatches);
+            if (batchMatches.length > 0 && !progress.signal?.aborted) {
+                await progress.onMatches?.(batchMatches);
+            }
+            await progress.onBatch?.();
+        }
+        return matches;
+    }
+
+    // Locates the first positive term or phrase in the text of each match for its snippet
+    private async locateMatches(matches: QueryMatch[], positiveLeaves: QueryLeaf[], context: QueryContext): Promise<void> {
+        const needles = positiveLeaves
+            .filter(leaf => leaf.type === 'term' || leaf.type === 'phrase')
+            .map(leaf => leaf.value);
+        if (needles.length === 0) {
+            return;
+        }
+
+        const texts = await Promise.all(matches.map(match => match.text !== null ? match.text : this.getText(match.document)));
+        matches.forEach((match, i) => {
+            match.text = texts[i];
+            const text = texts[i]?.text;
+            if (!text) return;
+            for (const needle of needles) {
+                const range = SearchIndex.isExact(context.options)
+                    ? this.getMatcher(needle, context).findFirst([text])[0]
+                    : this.normalizer.find(text, this.normalizer.normalize(needle));
+                if (range) {
+                    match.matchIndex = range.index;
+                    match.matchLength = range.length;
+                    break;
+                }
+            }
+        });
+    }
+
+    // Whether a positive term matched the title or aliases through Fuse, or a phrase is part of the path
+    private isTitleHit(doc: IndexedDocument, positiveLeaves: QueryLeaf[], context: QueryContext): boolean {
+        return positiveLeaves.some(leaf => {
+            if (leaf.type === 'term') {
+                return context.titleHits.get(this.normalizer.normalize(leaf.value))?.has(doc.id) || false;
+            }
+            return leaf.type === 'phrase' && this.titleContains(doc, this.normalizer.normalize(leaf.value));
+        });
+    }
+
+    /**
+     * Scans titles and note text with a regular expression, most recently modified notes first (or in `sort` order).
+     * Stops after `limit` matches or once `timeBudgetMs` has passed (checked between batches), returning what was found.
+     */
+    async searchPattern(matcher: PatternMatcher, limit: number, timeBudgetMs: number, sort: SortOrder, progress: SearchProgress = {}): Promise<QueryMatch[]> {
+        const deadline = Date.now() + timeBudgetMs;
+        const order = this.getDocumentOrder(sort, null);
+        const documents = Array.from(this.documents.values()).sort(order);
+        const matches: QueryMatch[] = [];
+
+        for (let i = 0; i < documents.length && matches.length < limit; i += SearchIndex.VERIFY_BATCH_SIZE) {
+            if (progress.signal?.aborted) break;
+
+            const batch = documents.slice(i, i + SearchIndex.VERIFY_BATCH_SIZE);
+            const texts = await Promise.all(batch.map(doc => this.getText(doc)));
+
+            let titleRanges: (TextRange | null)[];
+            let textRanges: (TextRange | null)[];
+            try {
+                titleRanges = matcher.findFirst(batch.map(doc => doc.basename));
+                textRanges = matcher.findFirst(texts.map(text => text?.text ?? null));
+            } catch {
+                break; // E.g. a stack overflow on a deeply nested pattern
+            }
+
+            const batchMatches: QueryMatch[] = [];
+            batch.forEach((doc, j) => {
+                const textRange = textRanges[j];
+                if (matches.length + batchMatches.length >= limit || (!titleRanges[j] && !textRange)) return;
+                batchMatches.push({
+                    document: doc,
+                    score: (titleRanges[j] ? SearchIndex.PATTERN_TITLE_SCORE : 0) + (textRange ? 1 : 0),
+                    text: texts[j],
+                    matchIndex: textRange ? textRange.index : -1,
+                    matchLength: textRange ? textRange.length : 0,
+                    matchedAlias: null,
+                    matchedProperty: null
+                });
+            });
+            matches.push(...batchMatches);
+            if (batchMatches.length > 0 && !progress.signal?.aborted) {
+                await progress.onMatches?.(batchMatches);
+            }
+            await progress.onBatch?.();
+            if (Date.now() >= deadline) break;
+        }
+        return matches.sort((a, b) => (sort === 'relevance' ? b.score - a.score : 0) || order(a.document, b.document));
+    }
+
+    /**
+     * Compares documents in result order: by score (most recently modified first on ties, or
+     * without scores), by date (newest first) or by name.
+     */
+    private getDocumentOrder(sort: SortOrder, scores: Map<number, number> | null): (a: IndexedDocument, b: IndexedDocument) => number {
+        switch (sort) {
+            case 'modified':
+                return (a, b) => b.mtime - a.mtime;
+            case 'created': {
+                const created = new Map<number, number>(); // Property dates are parsed once per document
+                const getCreated = (doc: IndexedDocument) => {
+                    let time = created.get(doc.id);
+                    if (time === undefined) {
+                        time = this.getCreated(doc);
+                        created.set(doc.id, time);
+                    }
+                    return time;
+                };
+                return (a, b) => getCreated(b) - getCreated(a);
+            }
+            case 'name':
+                return (a, b) => a.basename.localeCompare(b.basename);
+            default:
+                return (a, b) => ((scores?.get(b.id) || 0) - (scores?.get(a.id) || 0)) || (b.mtime - a.mtime);
+        }
+    }
+
+    /**
+     * Guesses the intended words for misspelled query terms from the vault's own vocabulary:
+     * terms one edit away (two for long words; swapping adjacent letters is one edit) that occur
+     * in more notes than the word as typed. Returns the best few per term value, most likely first.
+     */
+    getCorrections(query: QueryNode): Map<string, string[]> {
+        const corrections = new Map<string, string[]>();
+        for (const leaf of QueryParser.getPositiveLeaves(query)) {
+            if (leaf.type !== 'term' || corrections.has(leaf.value)) continue;
+            const tokens = this.tokenize(leaf.value);
+            if (tokens.length !== 1 || tokens[0].length < SearchIndex.MIN_CORRECTION_LENGTH) continue;
+
+            const token = tokens[0];
+            const maxDistance = token.length >= SearchIndex.LONG_WORD_LENGTH ? 2 : 1;
+            const frequency = this.getDocumentFrequency(token);
+            const candidates: { term: string; distance: number; frequency: number }[] = [];
+            for (const term of this.getSortedTerms()) {
+                if (Math.abs(term.length - token.length) > maxDistance || term === token) continue;
+                const distance = SearchIndex.editDistance(token, term, maxDistance);
+                if (distance > maxDistance) continue;
+                const termFrequency = this.getDocumentFrequency(term);
+                if (termFrequency > frequency) {
+                    candidates.push({ term, distance, frequency: termFrequency });
+                }
+            }
+
+            if (candidates.length > 0) {
+                candidates.sort((a, b) => (a.distance - b.distance) || (b.frequency - a.frequency));
+                corrections.set(leaf.value, candidates.slice(0, SearchIndex.MAX_CORRECTIONS).map(candidate => candidate.term));
+            }
+        }
+        return corrections;
+    }
+
+    private getDocumentFrequency(term: string): number {
+        const termId = this.termIds.get(term);
+        return termId === undefined ? 0 : this.postings.get(termId)?.size || 0;
+    }
+
+    // Optimal string alignment distance, or max + 1 as soon as it is known to exceed max
+    private static editDistance(a: string, b: string, max: number): number {
+        let beforePrevious: number[] = [];
+        let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+        for (let i = 1; i <= a.length; i++) {
+            const current = [i];
+            let rowMin = i;
+            for (let j = 1; j <= b.length; j++) {
+                const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+                let distance = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+                if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                    distance = Math.min(distance, beforePrevious[j - 2] + 1); // Transposition
+                }
+                current[j] = distance;
+                rowMin = Math.min(rowMin, distance);
+            }
+            if (rowMin > max) return max + 1;
+            beforePrevious = previous;
+            previous = current;
+        }
+        return Math.min(previous[b.length], max + 1);
+    }
+
+    // Runs Fuse once per distinct term (negated ones included) and remembers which titles matched
+    private collectTitleHits(node: QueryNode, context: QueryContext): void {
+        switch (node.type) {
+            case 'term': {
+                const term = this.normalizer.normalize(node.value);
+                if (!context.titleHits.has(term)) {
+                    const hits = new Map<number, number>();
+                    const aliasHits = new Map<number, string>();
+                    const literal = Array.from(term).length < SearchIndex.MIN_FUZZY_TITLE_LENGTH;
+                    this.titleIndex.search(term).forEach(result => {
+                        const doc = this.documents.get(result.item.path);
+                        if (!doc || (literal && !result.matches?.some(match => match.value?.includes(term)))) return;
+                        hits.set(doc.id, result.score || 0);
+
+                        const aliasMatch = result.matches?.find(match => match.key === 'aliases');
+                        if (aliasMatch?.value) aliasHits.set(doc.id, aliasMatch.value);
+                    });
+                    context.titleHits.set(term, hits);
+                    context.aliasHits.set(term, aliasHits);
+                }
+                break;
+            }
+            case 'not':
+                this.collectTitleHits(node.child, context);
+                break;
+            case 'and':
+            case 'or':
+                node.children.forEach(child => this.collectTitleHits(child, context));
+                break;
+        }
+    }
+
+    /**
+     * BM25 score of the positive terms and phrases, plus a boost when a term matched
+     * the title through Fuse (which also covers typos the token index cannot match).
+     */
+    private getScore(doc: IndexedDocument, positiveLeaves: QueryLeaf[], context: QueryContext): number {
+        const documentCount = this.documents.size;
+        const averageLength = documentCount > 0 ? this.totalLength / documentCount : 1;
+        const lengthNorm = 1 - SearchIndex.BM25_B + SearchIndex.BM25_B * (doc.length / (averageLength || 1));
+
+        let score = 0;
+        let bestTitleScore: number | null = null;
+        const seenTokens = new Set<string>();
+
+        for (const leaf of positiveLeaves) {
+            if (leaf.type !== 'term' && leaf.type !== 'phrase') continue;
+
+            for (const token of this.tokenize(leaf.value)) {
+                if (seenTokens.has(token)) continue;
+                seenTokens.add(token);
+
+                const hits = this.getPrefixHits(token, context);
+                const frequency = hits.get(doc.id);
+                if (!frequency) continue;
+
+                const idf = Math.log(1 + (documentCount - hits.size + 0.5) / (hits.size + 0.5));
+                score += idf * (frequency * (SearchIndex.BM25_K1 + 1)) / (frequency + SearchIndex.BM25_K1 * lengthNorm);
+            }
+
+            if (leaf.type === 'term') {
+                const titleScore = context.titleHits.get(this.normalizer.normalize(leaf.value))?.get(doc.id);
+                if (titleScore !== undefined && (bestTitleScore === null || titleScore < bestTitleScore)) {
+                    bestTitleScore = titleScore;
+                }
+            }
+        }
+
+        if (bestTitleScore !== null) {
+            score += SearchIndex.FUZZY_TITLE_BOOST * (1 - bestTitleScore);
+        }
+        return score;
+    }
+
+    // Tells which alias or property made a document match, so the result row can show it
+    private findMatchedField(doc: IndexedDocument, positiveLeaves: QueryLeaf[], context: QueryContext): Pick<QueryMatch, 'matchedAlias' | 'matchedProperty'> {
+        let matchedAlias: string | null = null;
+        let matchedProperty: { key: string; value: string } | null = null;
+
+        for (const leaf of positiveLeaves) {
+            if (leaf.type === 'field') {
+                if (leaf.field === 'prop' && !matchedProperty) {
+                    const { key, value } = this.parsePropertyFilter(leaf.value);
+                    matchedProperty = this.findProperty(doc, key, value, true);
+                }
+                continue;
+            }
+
+            const value = this.normalizer.normalize(leaf.value);
+            if (!matchedAlias) {
+                matchedAlias = (leaf.type === 'term' ? context.aliasHits.get(value)?.get(doc.id) : undefined)
+                    ?? doc.aliases.find(alias => this.normalizer.normalize(alias).includes(value))
+                    ?? null;
+            }
+            if (!matchedProperty) {
+                matchedProperty = this.findProperty(doc, null, value, false);
+            }
+        }
+        return { matchedAlias, matchedProperty };
+    }
+
+    /**
+     * Finds a property whose name equals `key` (any name when null) and whose value
+     * equals (`exact`) or contains `value` (any value when null). Both are compared normalized.
+     */
+    private findProperty(doc: IndexedDocument, key: string | null, value: string | null, exact: boolean): { key: string; value: string } | null {
+        for (const name of Object.keys(doc.properties)) {
+            if (key !== null && this.normalizer.normalize(name) !== key) continue;
+
+            for (const propertyValue of doc.properties[name]) {
+                const normalizedValue = this.normalizer.normalize(propertyValue);
+                if (value === null || (exact ? normalizedValue === value : normalizedValue.includes(value))) {
+                    return { key: name, value: propertyValue };
+                }
+            }
+            if (key !== null && value === null && doc.properties[name].length === 0) {
+                return { key: name, value: '' };
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Computes a superset of the documents that can match, or null when the query
+     * cannot be narrowed through the index (fields and negations are checked per document).
+     */
+    private getCandidateIds(node: QueryNode, context: QueryContext): Set<number> | null {
+        switch (node.type) {
+            case 'term': {
+                const contentIds = this.getContentIds(node.value, context);
+                if (!contentIds) return null;
+                const ids = new Set(contentIds);
+                context.titleHits.get(this.normalizer.normalize(node.value))?.forEach((_score, id) => ids.add(id));
+                return ids;
+            }
+            case 'phrase': {
+                const contentIds = this.getContentIds(node.value, context);
+                if (!contentIds) return null;
+                const ids = new Set(contentIds);
+                const phrase = this.normalizer.normalize(node.value);
+                this.documents.forEach(doc => {
+                    if (this.titleContains(doc, phrase)) ids.add(doc.id);
+                });
+                return ids;
+            }
+            case 'field':
+            case 'not':
+                return null;
+            case 'and': {
+                let result: Set<number> | null = null;
+                for (const child of node.children) {
+                    const ids = this.getCandidateIds(child, context);
+                    if (ids) {
+                        result = result ? this.intersect(result, ids) : ids;
+                    }
+                }
+                return result;
+            }
+            case 'or': {
+                const result = new Set<number>();
+                for (const child of node.children) {
+                    const ids = this.getCandidateIds(child, context);
+                    if (!ids) return null;
+                    ids.forEach(id => result.add(id));
+                }
+                return result;
+            }
+        }
+    }
+
+    // Documents containing every token of `value` (as a term prefix), or null if it has no tokens.
+    // Computed once per query: evaluate() looks them up for every document
+    private getContentIds(value: string, context: QueryContext): Set<number> | null {
+        if (context.contentIds.has(value)) {
+            return context.contentIds.get(value) ?? null;
+        }
+
+        let ids: Set<number> | null = null;
+        for (const token of this.tokenize(value)) {
+            const tokenIds = new Set(this.getPrefixHits(token, context).keys());
+            ids = ids ? this.intersect(ids, tokenIds) : tokenIds;
+        }
+        context.contentIds.set(value, ids);
+        return ids;
+    }
+
+    private getPrefixHits(token: string, context: QueryContext): Map<number, number> {
+        let hits = context.prefixHits.get(token);
+        if (!hits) {
+            hits = this.getFrequenciesForPrefix(token);
+            context.prefixHits.set(token, hits);
+        }
+        return hits;
+    }
+
+    private evaluate(node: QueryNode, doc: IndexedDocument, text: string | null, normalizedText: string | null, context: QueryContext): boolean {
+        switch (node.type) {
+            case 'term': {
+                if (this.isLiteralTerm(node.value)) {
+                    const literal = this.normalizer.normalize(node.value);
+                    const found = this.titleContains(doc, literal) || (normalizedText !== null && normalizedText.includes(literal));
+                    return found && (!SearchIndex.isExact(context.options) || this.containsExactly(node.value, doc, text, context));
+                }
+                let matched = context.titleHits.get(this.normalizer.normalize(node.value))?.has(doc.id) || false;
+                if (!matched) {
+                    const contentIds = this.getContentIds(node.value, context);
+                    matched = contentIds !== null && contentIds.has(doc.id);
+                }
+                return matched && (!SearchIndex.isExact(context.options) || this.containsExactly(node.value, doc, text, context));
+            }
+            case 'phrase': {
+                if (SearchIndex.isExact(context.options)) {
+                    return this.containsExactly(node.value, doc, text, context);
+                }
+                const phrase = this.normalizer.normalize(node.value);
+                return this.titleContains(doc, phrase) || (normalizedText !== null && normalizedText.includes(phrase));
+            }
+            case 'field':
+                return this.evaluateField(node.field, this.normalizer.normalize(node.value), doc, context);
+            case 'not':
+                return !this.evaluate(node.child, doc, text, normalizedText, context);
+            case 'and':
+                return node.children.every(child => this.evaluate(child, doc, text, normalizedText, context));
+            case 'or':
+                return node.children.some(child => this.evaluate(child, doc, text, normalizedText, context));
+        }
+    }
+
+    // Case-sensitive / whole-word check of a term or phrase against the path, aliases and note text
+    private containsExactly(value: string, doc: IndexedDocument, text: string | null, context: QueryContext): boolean {
+        const matcher = this.getMatcher(value, context);
+        return matcher.test(doc.path)
+            || doc.aliases.some(alias => matcher.test(alias))
+            || (text !== null && matcher.test(text));
+    }
+
+    private getMatcher(value: string, context: QueryContext): PatternMatcher {
+        let matcher = context.matchers.get(value);
+        if (!matcher) {
+            // Query words are literals here; only the whole query can be a regular expression
+            matcher = new PatternMatcher(value, { ...context.options, regex: false });
+            context.matchers.set(value, matcher);
+        }
+        return matcher;
+    }
+
+    private static isExact(options: SearchOptions): boolean {
+        return options.caseSensitive || options.wholeWord;
+    }
+
+    private evaluateField(field: QueryField, value: string, doc: IndexedDocument, context: QueryContext): boolean {
+        switch (field) {
+            case 'path':
+                return doc.normalizedPath.includes(value);
+            case 'file':
+                return doc.normalizedBasename.includes(value);
+            case 'tag':
+                return doc.tags.includes(value.startsWith('#') ? value : '#' + value);
+            case 'prop': {
+                const filter = this.parsePropertyFilter(value);
+                return this.findProperty(doc, filter.key, filter.value, true) !== null;
+            }
+            case 'linksto':
+                return this.getLinkTargets(value, context).some(target => this.links.linksTo(doc.path, target));
+            case 'linkedfrom':
+                return this.getLinkTargets(value, context).some(source => this.links.linksTo(source, doc.path));
+            case 'is':
+                return value === 'orphan' && this.links.isOrphan(doc.path);
+            case 'type':
+                return FileTypes.matches(FileTypes.fromPath(doc.path), value);
+            case 'modified':
+            case 'created': {
+                const filter = this.getDateFilter(value, context);
+                return filter !== null && filter.matches(field === 'modified' ? doc.mtime : this.getCreated(doc));
+            }
+            case 'due': {
+                // A note's own due date is its `due` property
+                const filter = this.getDateFilter(value, context);
+                return filter !== null && Object.keys(doc.properties).some(name => this.normalizer.normalize(name) === 'due' &&
+                    doc.properties[name].some(propertyValue => {
+                        const due = DateFilter.parseDate(propertyValue);
+                        return due !== null && filter.matches(due);
+                    }));
+            }
+        }
+    }
+
+    private getDateFilter(value: string, context: QueryContext): DateFilter | null {
+        let filter = context.dateFilters.get(value);
+        if (filter === undefined) {
+            filter = DateFilter.parse(value, context.now);
+            context.dateFilters.set(value, filter);
+        }
+        return filter;
+    }
+
+    // Indexed notes and linked files (e.g. attachments) that a link written as `value` can point to
+    private getLinkTargets(value: string, context: QueryContext): string[] {
+        let targets = context.linkTargets.get(value);
+        if (!targets) {
+            const linkText = LinkGraph.parseLinkText(value);
+            const paths = new Set(this.documents.keys());
+            this.links.getPaths().forEach(path => paths.add(path));
+            targets = Array.from(paths).filter(path => LinkGraph.matchesPath(linkText, this.normalizer.normalize(path)));
+            context.linkTargets.set(value, targets);
+        }
+        return targets;
+    }
+
+    /**
+     * Whether a term is a short word with symbols the tokens leave out (c#, c++, f#): its token alone
+     * ("c") would match any note with that letter as a word, so the term is looked for as typed.
+     */
+    private isLiteralTerm(value: string): boolean {
+        const normalized = this.normalizer.normalize(value);
+        const tokens = this.tokenize(value);
+        return tokens.length === 1 && tokens[0] !== normalized
+            && Array.from(tokens[0]).length < SearchIndex.MIN_PREFIX_LENGTH && !TextNormalizer.isCjk(tokens[0]);
+    }
+
+    // Whether the query has a literal term anywhere, negated ones included: those are checked against the note text
+    private containsLiteralTerm(node: QueryNode): boolean {
+        switch (node.type) {
+            case 'term':
+                return this.isLiteralTerm(node.value);
+            case 'not':
+                return this.containsLiteralTerm(node.child);
+            case 'and':
+            case 'or':
+                return node.children.some(child => this.containsLiteralTerm(child));
+            default:
+                return false;
+        }
+    }
+
+    private titleContains(doc: IndexedDocument, normalizedValue: string): boolean {
+        return doc.normalizedPath.includes(normalizedValue); // The path includes the basename
+    }
+
+    private async getText(doc: IndexedDocument): Promise<ExtractedText | null> {
+        const cached = this.textCache.get(doc.id);
+        if (cached !== undefined) {
+            // LRU: Move to end (mark as most recently used)
+            this.textCache.delete(doc.id);
+            this.textCache.set(doc.id, cached);
+            return cached;
+        }
+
+        const source = await this.loadContent(doc.path);
+        // The document may have been replaced or removed while loading
+        if (source === null || this.documentsById.get(doc.id) !== doc) {
+            return null;
+        }
+        const text = this.extractor.extract(source.content, source.sections);
+        this.cacheText(doc.id, text);
+        return text;
+    }
+
+    private cacheText(id: number, text: ExtractedText): void {
+        this.uncacheText(id);
+        const chars = SearchIndex.getCacheSize(text);
+        if (chars > SearchIndex.MAX_TEXT_CACHE_CHARS) {
+            return;
+        }
+
+        this.textCache.set(id, text);
+        this.textCacheChars += chars;
+
+        // LRU eviction: Drop least recently used texts until we are back under budget
+        while (this.textCacheChars > SearchIndex.MAX_TEXT_CACHE_CHARS) {
+            const oldest = this.textCache.keys().next();
+            if (oldest.done) break;
+            this.uncacheText(oldest.value);
+        }
+    }
+
+    private uncacheText(id: number): void {
+        const text = this.textCache.get(id);
+        if (text !== undefined) {
+            this.textCacheChars -= SearchIndex.getCacheSize(text);
+            this.textCache.delete(id);
+        }
+    }
+
+    // Roughly in characters: a map entry takes about as much memory as two of them
+    private static getCacheSize(text: ExtractedText): number {
+        return text.text.length + text.map.length * 2;
+    }
+
+    // Weighted frequency per document of all terms starting with `prefix`, or only of the term itself when it is too short
+    private getFrequenciesForPrefix(prefix: string): Map<number, number> {
+        const exactOnly = Array.from(prefix).length < SearchIndex.MIN_PREFIX_LENGTH && !TextNormalizer.isCjk(prefix);
+        const terms = this.getSortedTerms();
+        const result = new Map<number, number>();
+
+        // Binary search for the first term >= prefix, then walk while terms share the prefix
+        let low = 0;
+        let high = terms.length;
+        while (low < high) {
+            const mid = (low + high) >>> 1;
+            if (terms[mid] < prefix) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+
+        for (let i = low; i < terms.length && terms[i].startsWith(prefix); i++) {
+            // The term itself sorts first
+            if (exactOnly && terms[i] !== prefix) break;
+            const termId = this.termIds.get(terms[i]);
+            if (termId === undefined) continue;
+
+            const weight = terms[i] === prefix ? 1 : SearchIndex.PREFIX_MATCH_WEIGHT;
+            this.postings.get(termId)?.forEach((frequency, id) => {
+                result.set(id, (result.get(id) || 0) + frequency * weight);
+            });
+        }
+        return result;
+    }
+
+    private getSortedTerms(): string[] {
+        if (!this.sortedTerms) {
+            this.sortedTerms = Array.from(this.termIds.keys()).sort();
+        }
+        return this.sortedTerms;
+    }
+
+    private intersect(a: Set<number>, b: Set<number>): Set<number> {
+        const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+        const result = new Set<number>();
+        smaller.forEach(value => {
+            if (larger.has(value)) result.add(value);
+        });
+        return result;
+    }
+
+    // prop:status=done -> { key: 'status', value: 'done' }; prop:status -> any value
+    private parsePropertyFilter(filter: string): { key: string; value: string | null } {
+        const separator = filter.indexOf('=');
+        if (separator === -1) {
+            return { key: this.normalizer.normalize(filter), value: null };
+        }
+        return {
+            key: this.normalizer.normalize(filter.substring(0, separator).trim()),
+            value: this.normalizer.normalize(filter.substring(separator + 1).trim())
+        };
+    }
+
+    private static toFileIndex(doc: IndexedDocument): FileIndex {
+        return { path: doc.path, name: doc.name, basename: doc.basename, aliases: doc.aliases };
+    }
+
+    private expandTags(tags: string[]): string[] {
+        const expanded = new Set<string>();
+        tags.forEach(tag => {
+            const parts = this.normalizer.normalize(tag).replace(/^#/, '').split('/');
+            for (let i = 1; i <= parts.length; i++) {
+                expanded.add('#' + parts.slice(0, i).join('/'));
+            }
+        });
+        return Array.from(expanded);
+    }
+
+    private tokenize(text: string): string[] {
+        return this.normalizer.tokenize(this.normalizer.normalize(text))
+            .map(term => term.substring(0, SearchIndex.MAX_TERM_LENGTH));
+    }
+}
@@ -1,190 +1,804 @@
-import { App, TFile } from 'obsidian';
-import Fuse from 'fuse.js';
+import { App, CachedMetadata, EventRef, FrontMatterCache, HeadingCache, TAbstractFile, TFile, getAllTags, parseFrontMatterAliases, parseFrontMatterTags, prepareFuzzySearch } from 'obsidian';
+import { NormalizerOptions, TextNormalizer } from './TextNormalizer';
+import { DEFAULT_SEARCH_OPTIONS, SearchOptions, SortOrder } from './PatternMatcher';
+import { SearchEngine, SearchHit, SearchResponse, SearchStream, TextMatch } from './SearchEngine';
+import type { IndexFingerprint } from './SearchIndex';
+import { OpenHistory, RecentSearch } from './OpenHistory';
+import { PathFilter } from './PathFilter';
+import { LinkGraph } from './LinkGraph';
+import { TaskFilter, TaskItem } from './TaskFilter';
+import { FileType, FileTypes } from './FileTypes';
+import { CanvasReader } from './CanvasReader';
+import type { ExtractorOptions, MarkdownSection } from './MarkdownExtractor';
+import type { WorkerRequest, WorkerResponse } from '../worker/protocol';
+import type GlobalSearchPlugin from '../main';
+import searchWorkerCode from 'inline-worker:../worker/searchWorker';
 
 export interface SearchResult {
     path: string;
     name: string;
     score: number;
     snippet: string;
+    matchRanges?: [number, number][]; // [start, end) of query matches within the snippet
+    matchedAlias?: string;
+    matchedProperty?: { key: string; value: string };
+    modified?: number;
+    created?: number;
+    subpath?: string; // '#Heading' or '#^blockid' to open the note at
+    location?: MatchLocation; // Where the content match is in the markdown source
+    heading?: string; // Closest heading above the content match
+    matchCount?: number; // Occurrences of the query in the note text
+    passages?: SearchResultPassage[]; // Matching lines in note order, the snippet's among them
+    task?: TaskInfo; // Task mode: the snippet is the task text
+    fileType?: FileType; // Canvas boards and attachments (not set for notes)
 }
 
-interface FileIndex {
-    path: string;
-    name: string;
-    basename: string;
+export interface SearchResultPassage {
+    snippet: string;
+    matchRanges: [number, number][];
+    location?: MatchLocation;
+    heading?: string;
+}
+
+export interface TaskInfo {
+    line: number;
+    checked: boolean;
+    heading?: string;
+    due?: number;
+}
+
+export interface MatchLocation {
+    line: number;
+    ch: number;
+    length: number;
+}
+
+export interface IndexStatus {
+    indexed: number;
+    total: number;
+    isIndexing: boolean;
 }
 
 interface CachedSearchResult {
-    results: SearchResult[];
+    response: SearchResponse<SearchResult>;
     timestamp: number;
 }
 
+// Internal Obsidian APIs for the vault's "Excluded files" setting
+interface VaultWithConfig {
+    getConfig?: (key: string) => unknown;
+}
+
+interface MetadataCacheWithIgnore {
+    isUserIgnored?: (path: string) => boolean;
+}
+
+interface PendingSearch {
+    resolve: (response: SearchResponse<SearchHit>) => void;
+    onResults?: (hits: SearchHit[]) => void;
+    watchdog: ReturnType<typeof setTimeout> | null;
+    regex: boolean;
+}
+
+/**
+ * Keeps the search worker's index in sync with the vault and answers searches through it.
+ * Indexing and querying (tokenizing, Fuse, regular expressions) run in a Web Worker so typing in
+ * the search window never blocks Obsidian; this class reads files and sends them over as they change.
+ * Notes and canvas boards are indexed with their text, other files (attachments) with their names.
+ */
 export class SearchService {
-    private fileIndex: Fuse<FileIndex> | null = null;
-    private lastIndexUpdate: number = 0;
+    private worker: Worker | null = null;
+    private normalizer: TextNormalizer; // Same options as the worker's, for task filters and history queries
+    private normalizerOptions: NormalizerOptions;
+    private extractorOptions: ExtractorOptions;
+    private history: OpenHistory; // Notes opened from the search window, for frecency ranking
+    private pathFilter: PathFilter; // Excluded files (Obsidian's setting and the plugin's own rules)
+    private pathFilterKey = ''; // The rules pathFilter was built from, to notice changes
+    private linkGraph: LinkGraph = new LinkGraph(); // Resolved links, for the backlink boost (the worker has a copy for filters)
+    private linksTimer: ReturnType<typeof setTimeout> | null = null;
+    private indexedPaths: Set<string> = new Set(); // Paths sent to the worker
+    private pendingSearches: Map<number, PendingSearch> = new Map();
+    private pendingReplies: Map<number, (response: WorkerResponse | null) => void> = new Map(); // restore/serialize requests
+    private nextRequestId = 1;
+    private indexChanged = false; // The worker's index differs from the saved one
+    private saveTimer: ReturnType<typeof setTimeout> | null = null;
+    private buildGeneration = 0; // Bumped when the index is rebuilt so a stale build stops
+    private vaultEventRefs: EventRef[] = [];
+    private metadataEventRefs: EventRef[] = [];
     private searchCache: Map<string, CachedSearchResult> = new Map();
+    private isDestroyed = false;
+    private indexStatus: IndexStatus = { indexed: 0, total: 0, isIndexing: true };
+    private indexStatusListener: ((status: IndexStatus) => void) | null = null;
 
     // Constants for performance and memory management
-    private readonly INDEX_UPDATE_INTERVAL = 5000; // 5 seconds
-    private readonly MAX_INDEX_SIZE = 5000; // Maximum files in index to prevent memory issues
-    private readonly SNIPPET_CONTEXT_LENGTH = 40; // Characters before/after match in snippet
     private readonly CACHE_TTL = 30000; // Cache results for 30 seconds
     private readonly MAX_CACHE_SIZE = 50; // Maximum cached queries
-    private readonly CONTENT_SEARCH_BATCH_SIZE = 20; // Process files in batches
-
-    constructor(private app: App) {}
-
-    private updateFileIndex(): void {
-        const now = Date.now();
-        if (this.fileIndex && (now - this.lastIndexUpdate) < this.INDEX_UPDATE_INTERVAL) {
-            return; // Use cached index
-        }
-
-        // Get all markdown files and sort by modification time (most recent first)
-        const files = this.app.vault.getMarkdownFiles()
-            .sort((a, b) => b.stat.mtime - a.stat.mtime)
-            .slice(0, this.MAX_INDEX_SIZE); // Limit index size for performance
-
-        const fileData: FileIndex[] = files.map(file => ({
-            path: file.path,
-            name: file.name,
-            basename: file.basename
-        }));
-
-        this.fileIndex = new Fuse(fileData, {
-            keys: [
-                { name: 'basename', weight: 2 },
-                { name: 'path', weight: 1 }
-            ],
-            threshold: 0.4,
-            includeScore: true,
-            minMatchCharLength: 1,
-            ignoreLocation: true
+    private readonly INDEX_BUILD_BATCH_SIZE = 20; // Read files in batches while building the index
+    private readonly INDEX_STATUS_EVERY_BATCHES = 10; // Report indexing progress every N batches
+    private readonly MAX_SUBPATH_NOTES = 10; // Notes whose headings/blocks are listed in subpath mode
+    private readonly SAVE_DELAY_MS = 60000; // Save the index a minute after the last change
+    private readonly LINKS_UPDATE_DELAY_MS = 500; // Links are re-read once the metadata cache settles
+    private readonly LINK_BOOST_WEIGHT = 0.5; // Most a well-linked note's score can grow by
+    private readonly LINK_BOOST_HALF = 5; // Backlinks that give half of that boost
+    private readonly INDEX_FILE = 'search-index.json'; // In the plugin folder
+    private readonly HISTORY_FILE = 'open-history.json'; // In the plugin folder
+    private readonly WORKER_STALL_TIMEOUT_MS = SearchEngine.REGEX_TIME_BUDGET_MS + 3500; // A silent regex search this long is stuck
+    private readonly SKIPPED_PROPERTIES = ['aliases', 'alias', 'tags', 'tag', 'position']; // Indexed separately
+
+    // "note#heading" or "note#^block": a '#' directly after a word (not tag:#...) switches to subpath results
+    private static readonly SUBPATH_QUERY = /^(.*[^\s:#])#(\^?)([^#]*)$/;
+    private static readonly UNCLOSED_LINK = /\[\[[^\]]*$/; // The '#' is inside a link: linksto:[[Note#Heading]]
+    // "[ ] filter" lists open tasks, "[x] filter" completed ones
+    private static readonly TASK_QUERY = /^\[([ xX]?)\](?:\s+([\s\S]*))?$/;
+    private static readonly NO_RESULTS: SearchResponse<SearchHit> = { results: [], suggestion: null };
+
+    constructor(private app: App, private plugin: GlobalSearchPlugin) {
+        this.normalizerOptions = this.getNormalizerOptions();
+        this.normalizer = new TextNormalizer(this.normalizerOptions);
+        this.extractorOptions = this.getExtractorOptions();
+        this.history = new OpenHistory(app, `${this.getPluginDir()}/${this.HISTORY_FILE}`);
+        this.pathFilter = this.createPathFilter();
+    }
+
+    initialize(): void {
+        void this.history.load();
+        this.app.workspace.onLayoutReady(() => {
+            if (this.isDestroyed) return;
+            this.startWorker();
+
+            // Subscribe before the initial build so edits made while it runs are not lost
+            this.vaultEventRefs.push(
+                this.app.vault.on('create', (file) => this.onFileChanged(file)),
+                // Notes are re-read once the metadata cache has parsed them (below), other files right away
+                this.app.vault.on('modify', (file) => {
+                    if (FileTypes.fromPath(file.path) !== 'note') this.onFileChanged(file);
+                }),
+                this.app.vault.on('rename', (file, oldPath) => this.onFileRenamed(file, oldPath)),
+                this.app.vault.on('delete', (file) => this.onFileDeleted(file))
+            );
+            // Modifications are picked up once the metadata cache has re-parsed the note,
+            // so tags are never indexed from stale metadata
+            this.metadataEventRefs.push(
+                this.app.metadataCache.on('changed', (file, data, cache) => this.onMetadataChanged(file, data, cache)),
+                // Fired after links have been resolved, initially and after changes
+                this.app.metadataCache.on('resolved', () => this.scheduleLinksUpdate())
+            );
+
+            void this.buildIndex();
         });
+    }
 
-        this.lastIndexUpdate = now;
+    destroy(): void {
+        this.isDestroyed = true;
+        this.vaultEventRefs.forEach(ref => this.app.vault.offref(ref));
+        this.metadataEventRefs.forEach(ref => this.app.metadataCache.offref(ref));
+        this.vaultEventRefs = [];
+        this.metadataEventRefs = [];
+        if (this.saveTimer) clearTimeout(this.saveTimer);
+        if (this.linksTimer) clearTimeout(this.linksTimer);
+        this.history.destroy();
+        this.stopWorker();
+        this.indexedPaths.clear();
+        this.searchCache.clear();
     }
 
-    async searchInFiles(query: string, limit = 50): Promise<SearchResult[]> {
-        if (!query || query.length < 1) {
-            return [];
+    /**
+     * Applies changed settings: exclusion rules are re-checked, and the index is re-created when
+     * settings that affect normalization (diacritic folding, language) or the indexed parts of
+     * notes (code blocks, comments, frontmatter) have changed. Everything is re-tokenized then,
+     * so that is a full rebuild.
+     */
+    refreshIndex(): void {
+        this.searchCache.clear(); // Other settings (e.g. learning from history) change ranking too
+        this.refreshExclusions();
+        this.postToWorker({ type: 'created-property', property: this.plugin.settings.createdProperty });
+        const options = this.getNormalizerOptions();
+        const extractorOptions = this.getExtractorOptions();
+        if (options.foldDiacritics === this.normalizerOptions.foldDiacritics &&
+            options.locale === this.normalizerOptions.locale &&
+            (Object.keys(extractorOptions) as (keyof ExtractorOptions)[])
+                .every(option => extractorOptions[option] === this.extractorOptions[option])) {
+            return;
         }
 
-        // Check cache first - include limit in cache key
-        const cacheKey = `${query}:${limit}`;
-        const cached = this.searchCache.get(cacheKey);
-        if (cached && (Date.now() - cached.timestamp) < this.CACHE_TTL) {
-            // LRU: Move to end (mark as most recently used)
-            this.searchCache.delete(cacheKey);
-            this.searchCache.set(cacheKey, cached);
-            return cached.results;
+        this.normalizerOptions = options;
+        this.normalizer = new TextNormalizer(options);
+        this.extractorOptions = extractorOptions;
+        this.indexedPaths.clear();
+        this.searchCache.clear();
+        if (!this.isDestroyed && this.worker) {
+            this.postToWorker({ type: 'configure', normalizer: options, extractor: extractorOptions });
+            void this.buildIndex();
         }
+    }
 
-        this.updateFileIndex();
+    /**
+     * Re-reads the exclusion rules (Obsidian's "Excluded files" has no change event, so this is
+     * also called when the search window opens) and indexes or drops files whose status changed.
+     */
+    refreshExclusions(): void {
+        const key = this.getPathFilterKey();
+        if (key === this.pathFilterKey) {
+            return;
+        }
+        this.pathFilter = this.createPathFilter();
+        this.pathFilterKey = key;
+        this.searchCache.clear();
+        if (this.isDestroyed || !this.worker) return;
 
-        const results: SearchResult[] = [];
-        const queryLower = query.toLowerCase();
-        const foundPaths = new Set<string>();
-        const resultIndexMap = new Map<string, number>(); // Map path to index for O(1) lookup
-
-        // Search by filename using Fuse.js (fast)
-        if (this.fileIndex) {
-            const filenameResults = this.fileIndex.search(query);
-
-            for (const result of filenameResults.slice(0, limit)) {
-                const file = this.app.vault.getAbstractFileByPath(result.item.path);
-                if (file instanceof TFile) {
-                    const score = (1 - (result.score || 0)) * 1000;
-                    const index = results.length;
-                    results.push({
-                        path: file.path,
-                        name: file.basename,
-                        score: score,
-                        snippet: ''
-                    });
-                    foundPaths.add(file.path);
-                    resultIndexMap.set(file.path, index); // Track index for fast lookup
-                }
+        for (const file of this.app.vault.getFiles()) {
+            const indexed = this.indexedPaths.has(file.path);
+            if (indexed && !this.shouldIndex(file)) {
+                this.removeFile(file.path);
+            } else if (!indexed && this.shouldIndex(file)) {
+                void this.indexFile(file);
             }
         }
+    }
+
+    isExcluded(path: string): boolean {
+        return this.pathFilter.isExcluded(path);
+    }
 
-        // Content search with early termination and batch processing
-        // Sort by modification time (prioritize recent files) but search all files
-        const allFiles = this.app.vault.getMarkdownFiles()
-            .sort((a, b) => b.stat.mtime - a.stat.mtime);
+    private createPathFilter(): PathFilter {
+        const settings = this.plugin.settings;
+        return new PathFilter(settings.includePatterns, settings.excludePatterns, path => this.isUserIgnored(path));
+    }
 
-        // Process files in batches and stop when we have enough results
-        let shouldContinue = true;
-        for (let i = 0; i < allFiles.length && shouldContinue; i += this.CONTENT_SEARCH_BATCH_SIZE) {
-            const batch = allFiles.slice(i, i + this.CONTENT_SEARCH_BATCH_SIZE);
+    private getPathFilterKey(): string {
+        const settings = this.plugin.settings;
+        return JSON.stringify([this.getUserIgnoreFilters(), settings.includePatterns, settings.excludePatterns, settings.excludedFilesMode]);
+    }
 
-            const batchPromises = batch.map(async (file) => {
+    private getUserIgnoreFilters(): string[] {
+        const filters = (this.app.vault as unknown as VaultWithConfig).getConfig?.('userIgnoreFilters');
+        return Array.isArray(filters) ? filters.filter((filter): filter is string => typeof filter === 'string') : [];
+    }
+
+    // Same rules as Obsidian: a filter is a path prefix, or a regular expression written as /.../
+    private isUserIgnored(path: string): boolean {
+        const metadataCache = this.app.metadataCache as unknown as MetadataCacheWithIgnore;
+        if (metadataCache.isUserIgnored) {
+            return metadataCache.isUserIgnored(path);
+        }
+        return this.getUserIgnoreFilters().some(filter => {
+            if (filter.length > 2 && filter.startsWith('/') && filter.endsWith('/')) {
                 try {
-                    const content = await this.app.vault.cachedRead(file);
-                    // Strip markdown for searching
-                    const strippedContent = this.stripMarkdown(content);
-                    const strippedLower = strippedContent.toLowerCase();
-                    const index = strippedLower.indexOf(queryLower);
-
-                    if (index !== -1) {
-                        const snippet = this.getContextSnippet(strippedContent, index, query);
-                        const contentScore = 800; // High score so exact phrase matches in content rank highly
-
-                        // Check if file was already found by filename search
-                        if (foundPaths.has(file.path)) {
-                            // Update existing result if content score is better (O(1) lookup with Map)
-                            const existingIndex = resultIndexMap.get(file.path);
-                            if (existingIndex !== undefined) {
-                                if (contentScore > results[existingIndex].score) {
-                                    results[existingIndex].score = contentScore;
-                                }
-                                // Always add snippet if it was empty
-                                if (!results[existingIndex].snippet) {
-                                    results[existingIndex].snippet = snippet;
-                                }
-                            }
-                            return null;
-                        }
-
-                        return {
-                            path: file.path,
-                            name: file.basename,
-                            score: contentScore,
-                            snippet: snippet
-                        };
-                    }
-                    return null;
-                } catch (e) {
-                    console.error(`Error searching in file ${file.path}:`, e);
-                    return null;
+                    return new RegExp(filter.slice(1, -1)).test(path);
+                } catch {
+                    return false;
                 }
-            });
+            }
+            return path.startsWith(filter);
+        });
+    }
+
+    // Excluded files are left out of the index unless they are only ranked lower; files excluded in Obsidian always are
+    private shouldIndex(file: TFile): boolean {
+        if (this.isUserIgnored(file.path)) {
+            return false;
+        }
+        return this.plugin.settings.excludedFilesMode === 'downrank' || !this.pathFilter.isExcluded(file.path);
+    }
+
+    private getNormalizerOptions(): NormalizerOptions {
+        return {
+            foldDiacritics: this.plugin.settings.foldDiacritics,
+            locale: this.plugin.getLanguage()
+        };
+    }
+
+    private getExtractorOptions(): ExtractorOptions {
+        return {
+            codeBlocks: this.plugin.settings.indexCodeBlocks,
+            comments: this.plugin.settings.indexComments,
+            frontmatter: this.plugin.settings.indexFrontmatter
+        };
+    }
+
+    private startWorker(): void {
+        // The worker is bundled into main.js as a string (see esbuild.config.mjs)
+        const url = URL.createObjectURL(new Blob([searchWorkerCode], { type: 'text/javascript' }));
+        try {
+            this.worker = new Worker(url);
+        } catch (e) {
+            console.error('Error starting search worker:', e);
+            return;
+        } finally {
+            URL.revokeObjectURL(url);
+        }
+
+        this.worker.onmessage = (event: MessageEvent) => this.onWorkerMessage(event.data as WorkerResponse);
+        this.worker.onerror = (event: ErrorEvent) => console.error('Search worker error:', event.message);
+        this.postToWorker({ type: 'configure', normalizer: this.normalizerOptions, extractor: this.extractorOptions });
+        this.postToWorker({ type: 'created-property', property: this.plugin.settings.createdProperty });
+        this.updateLinks();
+    }
 
-            const batchResults = await Promise.all(batchPromises);
-            const validResults = batchResults.filter((r): r is SearchResult => r !== null);
+    private stopWorker(): void {
+        this.worker?.terminate();
+        this.worker = null;
+        Array.from(this.pendingSearches.keys()).forEach(id => this.finishSearch(id, SearchService.NO_RESULTS));
+        this.pendingReplies.forEach(resolve => resolve(null));
+        this.pendingReplies.clear();
+    }
+
+    // A running regular expression cannot be interrupted - the only way to stop it is to drop the worker
+    private restartWorker(): void {
+        console.warn('Search worker stopped responding, restarting it');
+        this.stopWorker();
+        this.indexedPaths.clear();
+        this.searchCache.clear();
+        if (this.isDestroyed) return;
+        this.startWorker();
+        void this.buildIndex();
+    }
+
+    private scheduleLinksUpdate(): void {
+        if (this.linksTimer) clearTimeout(this.linksTimer);
+        this.linksTimer = setTimeout(() => this.updateLinks(), this.LINKS_UPDATE_DELAY_MS);
+    }
 
-            for (const result of validResults) {
-                const newIndex = results.length;
-                results.push(result);
-                foundPaths.add(result.path);
-                resultIndexMap.set(result.path, newIndex); // Track new result index
+    // Sends the resolved links to the worker, which has no access to the metadata cache
+    private updateLinks(): void {
+        this.linksTimer = null;
+        const resolvedLinks = this.app.metadataCache.resolvedLinks;
+        const links: Record<string, string[]> = {};
+        for (const source of Object.keys(resolvedLinks)) {
+            const targets = Object.keys(resolvedLinks[source]);
+            if (targets.length > 0) links[source] = targets;
+        }
+        this.linkGraph.set(links);
+        this.searchCache.clear();
+        this.postToWorker({ type: 'links', links });
+    }
 
-                // Early exit if we have enough results
-                if (results.length >= limit) {
-                    shouldContinue = false;
-                    break;
+    private postToWorker(request: WorkerRequest): void {
+        this.worker?.postMessage(request);
+    }
+
+    private onWorkerMessage(response: WorkerResponse): void {
+        switch (response.type) {
+            case 'results': {
+                const search = this.pendingSearches.get(response.id);
+                if (!search) return;
+                if (response.done) {
+                    this.finishSearch(response.id, { results: response.results, suggestion: response.suggestion });
+                } else {
+                    this.armWatchdog(response.id, search);
+                    search.onResults?.(response.results);
                 }
+                break;
+            }
+            case 'error':
+                console.error('Search failed:', response.message);
+                this.finishSearch(response.id, SearchService.NO_RESULTS);
+                break;
+            case 'restored':
+            case 'serialized': {
+                const resolve = this.pendingReplies.get(response.id);
+                this.pendingReplies.delete(response.id);
+                resolve?.(response);
+                break;
+            }
+            case 'load-content':
+                void this.readText(response.path).then(content => {
+                    this.postToWorker({
+                        type: 'content',
+                        id: response.id,
+                        source: content === null ? null : { content, sections: SearchService.getSections(this.getNoteCache(response.path)) }
+                    });
+                });
+                break;
+        }
+    }
+
+    // Aborting resolves right away with no hits and stops the search in the worker
+    private searchInWorker(query: string, limit: number, options: SearchOptions, stream: SearchStream<SearchHit> = {}): Promise<SearchResponse<SearchHit>> {
+        if (!this.worker || stream.signal?.aborted) {
+            return Promise.resolve(SearchService.NO_RESULTS);
+        }
+
+        return new Promise(resolve => {
+            const id = this.nextRequestId++;
+            const search: PendingSearch = { resolve, onResults: stream.onResults, watchdog: null, regex: options.regex };
+            this.pendingSearches.set(id, search);
+            stream.signal?.addEventListener('abort', () => {
+                this.postToWorker({ type: 'cancel', id });
+                this.finishSearch(id, SearchService.NO_RESULTS);
+            });
+
+            this.armWatchdog(id, search);
+            this.postToWorker({ type: 'search', id, query, limit, options, stream: !!stream.onResults });
+        });
+    }
+
+    // Resolves with the worker's reply, or null when the worker is stopped first
+    private requestFromWorker(request: Extract<WorkerRequest, { type: 'restore' | 'serialize' }>): Promise<WorkerResponse | null> {
+        if (!this.worker) {
+            return Promise.resolve(null);
+        }
+        return new Promise(resolve => {
+            this.pendingReplies.set(request.id, resolve);
+            this.postToWorker(request);
+        });
+    }
+
+    private armWatchdog(id: number, search: PendingSearch): void {
+        if (!search.regex) return;
+        if (search.watchdog) clearTimeout(search.watchdog);
+        search.watchdog = setTimeout(() => {
+            if (this.pendingSearches.get(id) === search) {
+                this.restartWorker();
+            }
+        }, this.WORKER_STALL_TIMEOUT_MS);
+    }
+
+    private finishSearch(id: number, response: SearchResponse<SearchHit>): void {
+        const search = this.pendingSearches.get(id);
+        if (!search) return;
+        if (search.watchdog) clearTimeout(search.watchdog);
+        this.pendingSearches.delete(id);
+        search.resolve(response);
+    }
+
+    getIndexStatus(): IndexStatus {
+        return { ...this.indexStatus };
+    }
+
+    setIndexStatusListener(listener: ((status: IndexStatus) => void) | null): void {
+        this.indexStatusListener = listener;
+    }
+
+    private updateIndexStatus(status: IndexStatus): void {
+        this.indexStatus = status;
+        this.indexStatusListener?.(this.getIndexStatus());
+    }
+
+    private async buildIndex(): Promise<void> {
+        const generation = ++this.buildGeneration;
+        this.pathFilter = this.createPathFilter();
+        this.pathFilterKey = this.getPathFilterKey();
+        const allFiles = this.app.vault.getFiles().filter(file => this.shouldIndex(file));
+        this.updateIndexStatus({ indexed: 0, total: allFiles.length, isIndexing: true });
+
+        // Start from the saved index and only read files that changed since it was written
+        const saved = await this.restoreIndex();
+        if (generation !== this.buildGeneration || this.isDestroyed) return;
+        const savedFiles = new Map((saved || []).map(fingerprint => [fingerprint.path, fingerprint]));
+        const files: TFile[] = [];
+        this.indexedPaths.clear();
+        for (const file of allFiles) {
+            const fingerprint = savedFiles.get(file.path);
+            savedFiles.delete(file.path);
+            if (fingerprint && fingerprint.mtime === file.stat.mtime && fingerprint.size === file.stat.size) {
+                this.indexedPaths.add(file.path);
+            } else {
+                files.push(file);
+            }
+        }
+        savedFiles.forEach((fingerprint, path) => this.postToWorker({ type: 'remove', path })); // Deleted while Obsidian was closed
+        this.indexChanged = !saved || files.length > 0 || savedFiles.size > 0;
+        const unchanged = allFiles.length - files.length;
+
+        for (let i = 0; i < files.length && !this.isDestroyed; i += this.INDEX_BUILD_BATCH_SIZE) {
+            if (generation !== this.buildGeneration) return; // Superseded by a rebuild
+
+            const batch = files.slice(i, i + this.INDEX_BUILD_BATCH_SIZE)
+                // Skip files already indexed by a vault event during the build
+                .filter(file => !this.indexedPaths.has(file.path));
+            await Promise.all(batch.map(file => this.indexFile(file)));
+
+            // Results found so far are incomplete - don't keep them around
+            this.searchCache.clear();
+            if ((i / this.INDEX_BUILD_BATCH_SIZE) % this.INDEX_STATUS_EVERY_BATCHES === 0) {
+                this.updateIndexStatus({
+                    indexed: unchanged + Math.min(i + this.INDEX_BUILD_BATCH_SIZE, files.length),
+                    total: allFiles.length,
+                    isIndexing: true
+                });
+            }
+        }
+        if (generation !== this.buildGeneration || this.isDestroyed) return;
+        this.updateIndexStatus({ indexed: this.indexedPaths.size, total: this.indexedPaths.size, isIndexing: false });
+        if (this.indexChanged) {
+            void this.saveIndex();
+        }
+    }
+
+    // Loads the index saved by a previous session into the worker; null if there is none or it is unusable
+    private async restoreIndex(): Promise<IndexFingerprint[] | null> {
+        const path = this.getIndexPath();
+        try {
+            if (!await this.app.vault.adapter.exists(path)) {
+                return null;
+            }
+            const data = await this.app.vault.adapter.read(path);
+            const response = await this.requestFromWorker({ type: 'restore', id: this.nextRequestId++, data });
+            return response?.type === 'restored' ? response.files : null;
+        } catch (e) {
+            console.error('Error loading the saved search index:', e);
+            return null;
+        }
+    }
+
+    private async saveIndex(): Promise<void> {
+        if (this.saveTimer) {
+            clearTimeout(this.saveTimer);
+            this.saveTimer = null;
+        }
+        this.indexChanged = false;
+        const response = await this.requestFromWorker({ type: 'serialize', id: this.nextRequestId++ });
+        if (response?.type !== 'serialized' || this.isDestroyed) {
+            return;
+        }
+        try {
+            await this.app.vault.adapter.write(this.getIndexPath(), response.data);
+        } catch (e) {
+            console.error('Error saving the search index:', e);
+        }
+    }
+
+    // Called on every change; the index is saved once changes stop (not while it is being built)
+    private scheduleSave(): void {
+        this.indexChanged = true;
+        if (this.indexStatus.isIndexing) return;
+        if (this.saveTimer) clearTimeout(this.saveTimer);
+        this.saveTimer = setTimeout(() => void this.saveIndex(), this.SAVE_DELAY_MS);
+    }
+
+    private getIndexPath(): string {
+        return `${this.getPluginDir()}/${this.INDEX_FILE}`;
+    }
+
+    private getPluginDir(): string {
+        return this.plugin.manifest.dir || `${this.app.vault.configDir}/plugins/${this.plugin.manifest.id}`;
+    }
+
+    /**
+     * Records that a note was opened from the search window for `query` (empty for recent files).
+     */
+    recordOpen(path: string, query: string): void {
+        if (!this.plugin.settings.learnFromHistory) {
+            return;
+        }
+        this.history.recordOpen(path, this.getHistoryQuery(query));
+        this.searchCache.clear();
+    }
+
+    recordSearch(search: RecentSearch): void {
+        this.history.recordSearch(search);
+    }
+
+    getRecentSearches(): RecentSearch[] {
+        return this.history.getRecentSearches();
+    }
+
+    resetHistory(): void {
+        this.history.reset();
+        this.searchCache.clear();
+    }
+
+    // How often and recently the note was opened from the search window, 0 if never (or learning is off)
+    getOpenScore(path: string): number {
+        return this.plugin.settings.learnFromHistory ? this.history.getNoteScore(path) : 0;
+    }
+
+    private getHistoryQuery(query: string): string {
+        return this.normalizer.normalize(query.trim());
+    }
+
+    // Blends frecency and backlinks into the scores and re-sorts; excluded files (in 'downrank' mode) come last
+    private rankResults(results: SearchResult[], query: string, sort: SortOrder): SearchResult[] {
+        const settings = this.plugin.settings;
+        if (settings.learnFromHistory || settings.boostLinkedNotes) {
+            const historyQuery = this.getHistoryQuery(query);
+            results = results.map(result => ({ ...result, score: result.score * this.getBoost(result.path, historyQuery) }));
+        }
+        const excluded = new Set(results.filter(result => this.pathFilter.isExcluded(result.path)).map(result => result.path));
+        const compare = SearchEngine.compareHits(sort);
+        return results.sort((a, b) =>
+            (Number(excluded.has(a.path)) - Number(excluded.has(b.path))) || compare(a, b));
+    }
+
+    // Factor to multiply a result's score by, for the enabled boosts (1 when none applies)
+    private getBoost(path: string, historyQuery: string): number {
+        let boost = 1;
+        if (this.plugin.settings.learnFromHistory) {
+            boost *= this.history.getBoost(path, historyQuery);
+        }
+        if (this.plugin.settings.boostLinkedNotes) {
+            const backlinks = this.linkGraph.getBacklinkCount(path);
+            boost *= 1 + this.LINK_BOOST_WEIGHT * backlinks / (backlinks + this.LINK_BOOST_HALF);
+        }
+        return boost;
+    }
+
+    private async readFile(path: string): Promise<string | null> {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile)) {
+            return null;
+        }
+        try {
+            return await this.app.vault.cachedRead(file);
+        } catch (e) {
+            console.error(`Error reading file ${path}:`, e);
+            return null;
+        }
+    }
+
+    /**
+     * The searchable text of a file: a note's markdown, the text of a canvas board as markdown
+     * (see CanvasReader), and nothing for attachments. Null if the file cannot be read.
+     */
+    private async readText(path: string): Promise<string | null> {
+        switch (FileTypes.fromPath(path)) {
+            case 'note':
+                return this.readFile(path);
+            case 'canvas': {
+                const json = await this.readFile(path);
+                return json === null ? null : CanvasReader.toMarkdown(json);
+            }
+            default:
+                return this.app.vault.getAbstractFileByPath(path) instanceof TFile ? '' : null;
+        }
+    }
+
+    // The metadata of a note; other files have none worth indexing
+    private getNoteCache(path: string): CachedMetadata | null {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        return file instanceof TFile && FileTypes.fromPath(path) === 'note' ? this.app.metadataCache.getFileCache(file) : null;
+    }
+
+    private async indexFile(file: TFile): Promise<void> {
+        if (!this.shouldIndex(file)) return;
+        try {
+            const content = await this.readText(file.path);
+            // The file may have been deleted or renamed while it was being read
+            if (content === null || this.isDestroyed || this.app.vault.getAbstractFileByPath(file.path) !== file) return;
+            this.upsertFile(file, content, this.getNoteCache(file.path));
+        } catch (e) {
+            console.error(`Error indexing file ${file.path}:`, e);
+        }
+    }
+
+    private upsertFile(file: TFile, content: string, cache: CachedMetadata | null): void {
+        this.indexedPaths.add(file.path);
+        this.scheduleSave();
+        this.postToWorker({
+            type: 'upsert',
+            document: {
+                path: file.path,
+                name: file.name,
+                basename: file.basename,
+                mtime: file.stat.mtime,
+                ctime: file.stat.ctime,
+                size: file.stat.size,
+                tags: (cache && getAllTags(cache)) || [],
+                headings: cache?.headings?.map(heading => heading.heading) || [],
+                aliases: parseFrontMatterAliases(cache?.frontmatter ?? null) || [],
+                properties: this.getProperties(cache?.frontmatter),
+                content,
+                sections: SearchService.getSections(cache)
+            }
+        });
+    }
+
+    private static getSections(cache: CachedMetadata | null): MarkdownSection[] | null {
+        return cache?.sections?.map(section => ({
+            type: section.type,
+            start: section.position.start.offset,
+            end: section.position.end.offset
+        })) ?? null;
+    }
+
+    // Flattens frontmatter into string values per property (aliases and tags have their own fields)
+    private getProperties(frontmatter: FrontMatterCache | undefined): Record<string, string[]> {
+        const properties: Record<string, string[]> = {};
+        if (!frontmatter) {
+            return properties;
+        }
+
+        const flatten = (value: unknown): string[] => {
+            if (value === null || value === undefined) return [];
+            if (Array.isArray(value)) {
+                return value.reduce<string[]>((values, item) => values.concat(flatten(item)), []);
             }
+            if (typeof value === 'object') return [];
+            return [String(value)];
+        };
+
+        for (const key of Object.keys(frontmatter)) {
+            if (this.SKIPPED_PROPERTIES.includes(key.toLowerCase())) continue;
+            properties[key] = flatten(frontmatter[key]);
+        }
+        return properties;
+    }
+
+    private onMetadataChanged(file: TFile, data: string, cache: CachedMetadata): void {
+        if (FileTypes.fromPath(file.path) === 'note' && this.shouldIndex(file)) {
+            this.upsertFile(file, data, cache);
+            this.searchCache.clear();
+        }
+    }
+
+    private onFileChanged(file: TAbstractFile): void {
+        if (file instanceof TFile) {
+            this.searchCache.clear();
+            void this.indexFile(file).then(() => this.searchCache.clear());
+        }
+    }
+
+    private onFileRenamed(file: TAbstractFile, oldPath: string): void {
+        this.history.rename(oldPath, file.path);
+        this.removeFile(oldPath);
+        this.onFileChanged(file);
+    }
+
+    private onFileDeleted(file: TAbstractFile): void {
+        if (file instanceof TFile) {
+            this.history.remove(file.path);
+            this.removeFile(file.path);
+            this.searchCache.clear();
+        }
+    }
+
+    private removeFile(path: string): void {
+        if (this.indexedPaths.delete(path)) {
+            this.postToWorker({ type: 'remove', path });
+            this.scheduleSave();
         }
+    }
 
-        // Sort and limit results
-        const finalResults = results
-            .sort((a, b) => b.score - a.score)
-            .slice(0, limit);
+    /**
+     * Runs a search and returns the final results, with a corrected query to suggest when words
+     * seem misspelled. With `stream.onResults`, title hits are reported right away and content hits
+     * as each batch of notes is verified.
+     */
+    async searchInFiles(query: string, limit = 50, options: SearchOptions = DEFAULT_SEARCH_OPTIONS, stream: SearchStream<SearchResult> = {}): Promise<SearchResponse<SearchResult>> {
+        if (!query || query.length < 1) {
+            return { results: [], suggestion: null };
+        }
+
+        // Check cache first - include limit and toggles in cache key
+        const flags = [options.caseSensitive, options.wholeWord, options.regex].map(flag => flag ? '1' : '0').join('');
+        const cacheKey = `${flags}:${options.sort}:${query}:${limit}`;
+        const cached = this.searchCache.get(cacheKey);
+        if (cached && (Date.now() - cached.timestamp) < this.CACHE_TTL) {
+            // LRU: Move to end (mark as most recently used)
+            this.searchCache.delete(cacheKey);
+            this.searchCache.set(cacheKey, cached);
+            return cached.response;
+        }
 
-        // Store in cache with limit in key
+        const taskQuery = options.regex ? null : SearchService.TASK_QUERY.exec(query);
+        let subpathQuery = options.regex || taskQuery ? null : SearchService.SUBPATH_QUERY.exec(query);
+        if (subpathQuery && SearchService.UNCLOSED_LINK.test(subpathQuery[1])) {
+            subpathQuery = null;
+        }
+        // A '#' that names no heading or block of a note is searched as text, as in "C#"
+        const subpaths = subpathQuery
+            ? await this.searchSubpaths(subpathQuery[1], subpathQuery[2] === '^', subpathQuery[3].trim(), options)
+            : [];
+        const response = taskQuery
+            ? { results: await this.searchTasks(taskQuery[1].trim() !== '', (taskQuery[2] || '').trim(), limit, options, stream.signal), suggestion: null }
+            : subpaths.length > 0
+                ? { results: subpaths, suggestion: null }
+                : await this.searchNotes(query, limit, options, {
+                    signal: stream.signal,
+                    onResults: stream.onResults && (partial => stream.onResults?.(this.rankResults(partial, query, options.sort)))
+                });
+
+        // Sort and limit results (tasks come sorted)
+        const ranked = taskQuery ? response.results : this.rankResults(response.results, query, options.sort);
+        const finalResponse = { results: ranked.slice(0, limit), suggestion: response.suggestion };
+
+        // Store in cache with limit in key (partial results while indexing or of aborted searches are not cached)
+        if (this.indexStatus.isIndexing || stream.signal?.aborted) {
+            return finalResponse;
+        }
         this.searchCache.set(cacheKey, {
-            results: finalResults,
+            response: finalResponse,
             timestamp: Date.now()
         });
 
@@ -196,53 +810,247 @@ export class SearchService {
             }
         }
 
-        return finalResults;
+        return finalResponse;
+    }
+
+    private async searchNotes(query: string, limit: number, options: SearchOptions, stream: SearchStream<SearchResult>): Promise<SearchResponse<SearchResult>> {
+        // Partial results are converted in order, and the final results are returned only after them
+        let published: Promise<void> = Promise.resolve();
+        const onResults = stream.onResults;
+        const response = await this.searchInWorker(query, limit, options, {
+            signal: stream.signal,
+            onResults: onResults ? (partial) => {
+                published = published.then(async () => {
+                    const results = await this.toSearchResults(partial);
+                    if (!stream.signal?.aborted) onResults(results);
+                });
+            } : undefined
+        });
+        const results = await this.toSearchResults(response.results);
+        await published;
+        return { results, suggestion: response.suggestion };
     }
 
-    private stripMarkdown(text: string): string {
-        return text
-            // Wikilinks: [[link|alias]] → alias, [[link]] → link
-            .replace(/\[\[([^\]|]+)\|([^\]]+)\]\]/g, '$2')
-            .replace(/\[\[([^\]]+)\]\]/g, '$1')
-            // Bold: **text** or __text__
-            .replace(/(\*\*|__)(.*?)\1/g, '$2')
-            // Italic: *text* or _text_
-            .replace(/(\*|_)(.*?)\1/g, '$2')
-            // Strikethrough: ~~text~~
-            .replace(/~~(.*?)~~/g, '$1')
-            // Inline code: `text`
-            .replace(/`([^`]+)`/g, '$1')
-            // Images: ![alt](url) - MUST be before Links!
-            .replace(/!\[([^\]]*)\]\([^)]+\)/g, '$1')
-            // Links: [text](url)
-            .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1')
-            // Headings: ## text
-            .replace(/^#{1,6}\s+/gm, '')
-            // List markers: - or * or 1.
-            .replace(/^[\s]*[-*+]\s+/gm, '')
-            .replace(/^[\s]*\d+\.\s+/gm, '');
+    private toSearchResults(hits: SearchHit[]): Promise<SearchResult[]> {
+        return Promise.all(hits.map(hit => this.toSearchResult(hit)));
     }
 
-    private getContextSnippet(content: string, matchIndex: number, query: string): string {
-        let lineStart = matchIndex;
-        while (lineStart > 0 && content[lineStart - 1] !== '\n') {
-            lineStart--;
+    /**
+     * Places the content matches of a hit in the note, under the heading each one follows.
+     * Canvas boards are indexed from text that is not their source, so their matches have no location.
+     */
+    private async toSearchResult({ textMatch, passages, ...hit }: SearchHit): Promise<SearchResult> {
+        const fileType = FileTypes.fromPath(hit.path);
+        if (fileType !== 'note') {
+            return { ...hit, passages: passages?.map(({ textMatch: _passageMatch, ...passage }) => passage), fileType };
         }
+        if (!textMatch) {
+            return hit;
+        }
+
+        const source = await this.readFile(hit.path);
+        const headings = this.getNoteCache(hit.path)?.headings || [];
+        const locate = (match: TextMatch) => {
+            const location = SearchService.locateInSource(source, match);
+            return { location, heading: location ? SearchService.getHeadingAbove(headings, location.line) : undefined };
+        };
+        return {
+            ...hit,
+            ...locate(textMatch),
+            passages: passages?.map(({ textMatch: passageMatch, ...passage }) => ({ ...passage, ...locate(passageMatch) }))
+        };
+    }
 
-        let lineEnd = matchIndex + query.length;
-        while (lineEnd < content.length && content[lineEnd] !== '\n') {
-            lineEnd++;
+    /**
+     * Lists the headings (or ^block ids) of the notes matching `noteQuery`, filtered fuzzily by `filter`.
+     * Without a filter, notes keep their ranking and headings/blocks their document order.
+     * Only notes whose title contains the word the '#' is attached to are listed; with nothing after
+     * the '#', the word must be a whole word of the title.
+     */
+    private async searchSubpaths(noteQuery: string, blocks: boolean, filter: string, options: SearchOptions): Promise<SearchResult[]> {
+        const lastWord = noteQuery.substring(noteQuery.search(/\S+$/));
+        const noteWord = this.normalizer.normalize(lastWord.substring(lastWord.lastIndexOf(':') + 1).replace(/^[-"]+|"+$/g, ''));
+        if (!noteWord) {
+            return [];
         }
+        const noteWordTokens = this.normalizer.tokenize(noteWord);
+        const namesNote = (name: string): boolean => {
+            const normalizedName = this.normalizer.normalize(name);
+            if (filter) {
+                return normalizedName.includes(noteWord);
+            }
+            const nameTokens = this.normalizer.tokenize(normalizedName);
+            return noteWordTokens.length > 0 && noteWordTokens.every(token => nameTokens.includes(token));
+        };
+        const notes = (await this.searchInWorker(noteQuery, this.MAX_SUBPATH_NOTES, options)).results
+            .filter(note => namesNote(note.name));
+        const fuzzy = filter ? prepareFuzzySearch(filter) : null;
+        const results: SearchResult[] = [];
 
-        const start = Math.max(0, lineStart - this.SNIPPET_CONTEXT_LENGTH);
-        const end = Math.min(content.length, lineEnd + this.SNIPPET_CONTEXT_LENGTH);
-        let snippet = content.substring(start, end);
+        for (let noteIndex = 0; noteIndex < notes.length; noteIndex++) {
+            const note = notes[noteIndex];
+            const file = this.app.vault.getAbstractFileByPath(note.path);
+            const cache = file instanceof TFile ? this.app.metadataCache.getFileCache(file) : null;
+            if (!(file instanceof TFile) || !cache) continue;
 
-        snippet = snippet.replace(/\n+/g, ' ').trim();
+            const entries: { subpath: string; label: string; snippet: string }[] = [];
+            if (blocks) {
+                const blockIds = Object.keys(cache.blocks || {});
+                // Blocks of a note that cannot be read are still listed, without their text
+                const content = blockIds.length > 0 ? await this.readFile(file.path) : null;
+                const lines = content !== null ? content.split('\n') : [];
+                blockIds.forEach(id => {
+                    const block = cache.blocks?.[id];
+                    const line = block ? lines[block.position.start.line] || '' : '';
+                    entries.push({
+                        subpath: '#^' + id,
+                        label: id,
+                        snippet: line.replace(/\s*\^[\w-]+\s*$/, '').trim()
+                    });
+                });
+            } else {
+                (cache.headings || []).forEach(heading => {
+                    entries.push({ subpath: '#' + heading.heading, label: heading.heading, snippet: '' });
+                });
+            }
+
+            entries.forEach((entry, entryIndex) => {
+                const match = fuzzy ? fuzzy(entry.label + ' ' + entry.snippet) : null;
+                if (fuzzy && !match) return;
+
+                results.push({
+                    path: note.path,
+                    name: note.name,
+                    // Fuzzy scores are <= 0 (closer to 0 is better); otherwise keep note rank and document order
+                    score: match ? match.score : (notes.length - noteIndex) * 10000 - entryIndex,
+                    snippet: entry.snippet,
+                    subpath: entry.subpath
+                });
+            });
+        }
+        return results;
+    }
+
+    /**
+     * Lists up to `limit` open (or, with `checked`, completed) tasks in the vault that match `filter`.
+     * Tasks are found through the list items in the metadata cache, so only notes with such tasks
+     * are read, and only the task lines are parsed. Notes are visited in the sort order (last modified
+     * first by relevance) with excluded files last, and the search stops at the limit. By relevance,
+     * the tasks found are then ordered by due date, soonest first, then those without one.
+     */
+    private async searchTasks(checked: boolean, filter: string, limit: number, options: SearchOptions, signal?: AbortSignal): Promise<SearchResult[]> {
+        const taskFilter = new TaskFilter(filter, this.normalizer, options);
+        const compareNotes = SearchEngine.compareHits(options.sort === 'relevance' ? 'modified' : options.sort);
+        const notes = this.app.vault.getMarkdownFiles()
+            .filter(file => this.shouldIndex(file))
+            .map(file => ({
+                file,
+                name: file.basename,
+                score: 0,
+                modified: file.stat.mtime,
+                created: file.stat.ctime,
+                excluded: this.pathFilter.isExcluded(file.path)
+            }))
+            .sort((a, b) => (Number(a.excluded) - Number(b.excluded)) || compareNotes(a, b) || a.file.path.localeCompare(b.file.path));
+        const results: SearchResult[] = [];
+
+        for (const { file } of notes) {
+            if (signal?.aborted || results.length >= limit) break;
+            const cache = this.app.metadataCache.getFileCache(file);
+            const items = cache?.listItems?.filter(item => item.task !== undefined && (item.task !== ' ') === checked);
+            if (!cache || !items || items.length === 0) continue;
+
+            const content = await this.readFile(file.path);
+            if (content === null) continue;
+            const noteTags = parseFrontMatterTags(cache.frontmatter ?? null) || [];
+
+            for (const item of items) {
+                if (signal?.aborted || results.length >= limit) break;
+                // The task's first line, from the list item's position in the source
+                const lineStart = item.position.start.offset - item.position.start.col;
+                const lineEnd = content.indexOf('\n', item.position.start.offset);
+                const taskLine = TaskFilter.parseLine(content.substring(lineStart, lineEnd === -1 ? content.length : lineEnd));
+                if (!taskLine || taskLine.checked !== checked) continue;
+
+                const line = item.position.start.line;
+                const task: TaskItem = {
+                    path: file.path,
+                    line,
+                    text: taskLine.text,
+                    checked,
+                    heading: SearchService.getHeadingAbove(cache.headings || [], line),
+                    tags: noteTags.concat((cache.tags || []).filter(tag => tag.position.start.line === line).map(tag => tag.tag)),
+                    due: TaskFilter.getDueDate(taskLine.text)
+                };
+                if (!taskFilter.matches(task)) continue;
+
+                results.push({
+                    path: file.path,
+                    name: file.basename,
+                    score: 0,
+                    snippet: task.text,
+                    matchRanges: taskFilter.getMatchRanges(task.text),
+                    modified: file.stat.mtime,
+                    created: file.stat.ctime,
+                    location: { line, ch: taskLine.offset, length: 0 },
+                    task: { line, checked, heading: task.heading, due: task.due }
+                });
+            }
+        }
+
+        // Results are in note order already; by relevance, tasks due soonest move up (the sort is stable)
+        if (options.sort === 'relevance') {
+            const excluded = new Set(results.filter(result => this.pathFilter.isExcluded(result.path)).map(result => result.path));
+            results.sort((a, b) => (Number(excluded.has(a.path)) - Number(excluded.has(b.path))) || (a.task?.due ?? Infinity) - (b.task?.due ?? Infinity));
+        }
+        return results.map((result, index) => ({ ...result, score: results.length - index }));
+    }
+
+    /**
+     * Checks a task off (or clears its checkbox) in the note. The task is looked for by its text
+     * at `line`, or elsewhere in the note if the note changed since it was listed.
+     * Returns whether the task was found.
+     */
+    async setTaskChecked(path: string, line: number, text: string, checked: boolean): Promise<boolean> {
+        const file = this.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile) || file.extension !== 'md') {
+            return false;
+        }
+
+        let found = false;
+        await this.app.vault.process(file, data => {
+            const lines = data.split('\n');
+            const isTask = (index: number) => TaskFilter.parseLine(lines[index])?.text === text;
+            const index = line < lines.length && isTask(line) ? line : lines.findIndex((_line, i) => isTask(i));
+            if (index === -1) {
+                return data;
+            }
+            found = true;
+            lines[index] = TaskFilter.setChecked(lines[index], checked);
+            return lines.join('\n');
+        });
+        this.searchCache.clear();
+        return found;
+    }
 
-        if (start > 0) snippet = '...' + snippet;
-        if (end < content.length) snippet = snippet + '...';
+    // Turns the source offset of a match into a line/column (undefined if the note got shorter since it was indexed)
+    private static locateInSource(source: string | null, textMatch: TextMatch): MatchLocation | undefined {
+        if (source === null || textMatch.offset + textMatch.length > source.length) {
+            return undefined;
+        }
 
-        return snippet;
+        const offset = textMatch.offset;
+        const lineStart = source.lastIndexOf('\n', offset - 1) + 1;
+        const line = source.substring(0, lineStart).split('\n').length - 1;
+        return { line, ch: offset - lineStart, length: textMatch.length };
+    }
+
+    private static getHeadingAbove(headings: HeadingCache[], line: number): string | undefined {
+        let heading: string | undefined;
+        for (const candidate of headings) {
+            if (candidate.position.start.line >= line) break;
+            heading = candidate.heading;
+        }
+        return heading;
     }
 }
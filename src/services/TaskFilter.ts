@@ -0,0 +1,145 @@
+import { QueryLeaf, QueryNode, QueryParser } from './QueryParser';
+import { PatternMatcher, SearchOptions } from './PatternMatcher';
+import { TextNormalizer } from './TextNormalizer';
+import { DateFilter } from './DateFilter';
+
+export interface TaskItem {
+    path: string;
+    line: number; // In the markdown source
+    text: string; // Without the list marker, checkbox and block id
+    checked: boolean;
+    heading?: string; // Closest heading above the task
+    tags: string[]; // On the task line and in the note's properties, with '#'
+    due?: number;
+}
+
+interface TaskLine {
+    checked: boolean;
+    text: string;
+    offset: number; // Where the text starts in the line
+}
+
+/**
+ * Filters tasks with the query syntax: words and phrases are looked for in the task text,
+ * tag: in the task's tags (or a nested tag below it), due: compares its due date (see DateFilter),
+ * path: and file: the note it is in. Other fields match nothing.
+ * Words are literals even with the regular expression option: filtering runs outside the search worker.
+ */
+export class TaskFilter {
+    private root: QueryNode | null;
+    private matchers: Map<string, PatternMatcher> = new Map();
+    private dateFilters: Map<string, DateFilter | null> = new Map();
+
+    // "- [ ] text", "* [x] text", "1. [ ] text"; the status is any single character
+    private static readonly TASK_LINE = /^(\s*(?:[-*+]|\d+[.)])\s+\[)(.)(\]\s?)(.*?)\r?$/;
+    private static readonly BLOCK_ID = /\s+\^[\w-]+\s*$/;
+    // Tasks plugin (📅 2025-01-15) and Dataview ([due:: 2025-01-15]) due dates
+    private static readonly DUE_DATE = /(?:📅|\bdue::)\s*(\d{4}-\d{1,2}-\d{1,2})/;
+
+    constructor(query: string, private normalizer: TextNormalizer, private options: SearchOptions, private now = Date.now()) {
+        this.root = new QueryParser().parse(query);
+    }
+
+    matches(task: TaskItem): boolean {
+        return this.root === null || this.evaluate(this.root, task);
+    }
+
+    // [start, end) of the query's words and phrases in the task text, in order
+    getMatchRanges(text: string): [number, number][] {
+        const ranges: [number, number][] = [];
+        QueryParser.getPositiveLeaves(this.root).forEach(leaf => {
+            if (leaf.type === 'field') return;
+            const found = this.isExact()
+                ? this.getMatcher(leaf.value).findAll(text)
+                : this.normalizer.findAll(text, this.normalizer.normalize(leaf.value));
+            found.forEach(range => ranges.push([range.index, range.index + range.length]));
+        });
+        ranges.sort((a, b) => a[0] - b[0] || b[1] - a[1]);
+        return ranges.filter((range, index) => index === 0 || range[0] >= ranges[index - 1][1]);
+    }
+
+    private evaluate(node: QueryNode, task: TaskItem): boolean {
+        switch (node.type) {
+            case 'term':
+            case 'phrase':
+                return this.containsText(node, task.text);
+            case 'field':
+                return this.evaluateField(node, task);
+            case 'not':
+                return !this.evaluate(node.child, task);
+            case 'and':
+                return node.children.every(child => this.evaluate(child, task));
+            case 'or':
+                return node.children.some(child => this.evaluate(child, task));
+        }
+    }
+
+    private containsText(leaf: QueryLeaf, text: string): boolean {
+        if (this.isExact()) {
+            return this.getMatcher(leaf.value).test(text);
+        }
+        return this.normalizer.normalize(text).includes(this.normalizer.normalize(leaf.value));
+    }
+
+    private evaluateField(leaf: Extract<QueryNode, { type: 'field' }>, task: TaskItem): boolean {
+        const value = this.normalizer.normalize(leaf.value);
+        switch (leaf.field) {
+            case 'path':
+                return this.normalizer.normalize(task.path).includes(value);
+            case 'file':
+                return this.normalizer.normalize(task.path.substring(task.path.lastIndexOf('/') + 1)).includes(value);
+            case 'tag': {
+                const tag = value.startsWith('#') ? value : '#' + value;
+                return task.tags.some(taskTag => {
+                    const normalizedTag = this.normalizer.normalize(taskTag);
+                    return normalizedTag === tag || normalizedTag.startsWith(tag + '/');
+                });
+            }
+            case 'due': {
+                let filter = this.dateFilters.get(value);
+                if (filter === undefined) {
+                    filter = DateFilter.parse(value, this.now);
+                    this.dateFilters.set(value, filter);
+                }
+                return filter !== null && task.due !== undefined && filter.matches(task.due);
+            }
+            default:
+                return false;
+        }
+    }
+
+    private isExact(): boolean {
+        return this.options.caseSensitive || this.options.wholeWord;
+    }
+
+    private getMatcher(value: string): PatternMatcher {
+        let matcher = this.matchers.get(value);
+        if (!matcher) {
+            matcher = new PatternMatcher(value, { ...this.options, regex: false });
+            this.matchers.set(value, matcher);
+        }
+        return matcher;
+    }
+
+    // The checkbox and text of a task list line, or null for any other line
+    static parseLine(line: string): TaskLine | null {
+        const match = TaskFilter.TASK_LINE.exec(line);
+        if (!match) return null;
+        return {
+            checked: match[2] !== ' ',
+            text: match[4].replace(TaskFilter.BLOCK_ID, '').trim(),
+            offset: match[1].length + match[2].length + match[3].length
+        };
+    }
+
+    // The line with its checkbox checked ('x') or cleared; other lines are returned as they are
+    static setChecked(line: string, checked: boolean): string {
+        return line.replace(TaskFilter.TASK_LINE, (whole, start: string, status: string, end: string, text: string) =>
+            start + (checked ? (status === ' ' ? 'x' : status) : ' ') + end + text + (whole.endsWith('\r') ? '\r' : ''));
+    }
+
+    static getDueDate(text: string): number | undefined {
+        const match = TaskFilter.DUE_DATE.exec(text);
+        return (match && DateFilter.parseDate(match[1])) ?? undefined;
+    }
+}
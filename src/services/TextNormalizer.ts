@@ -0,0 +1,159 @@
+export interface NormalizerOptions {
+    foldDiacritics: boolean;
+    locale: string; // Used for case folding, e.g. 'tr' lowercases İ to i and I to ı
+}
+
+export interface TextRange {
+    index: number;
+    length: number;
+}
+
+const COMBINING_MARKS = /\p{M}/gu;
+const WORD_SEPARATORS = /[^\p{L}\p{M}\p{N}_]+/u;
+// Han, kana, the prolonged sound mark and the iteration mark
+const CJK_CHARS = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u30FC\u3005]/u;
+const CJK_RUNS = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u30FC\u3005]+|[^\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u30FC\u3005]+/gu;
+
+// Letters that NFKD does not decompose but users expect to fold like accents
+const EXTRA_FOLDS: Record<string, string> = {
+    'ı': 'i', 'ł': 'l', 'ø': 'o', 'đ': 'd', 'ħ': 'h', 'ŧ': 't'
+};
+const EXTRA_FOLD_CHARS = /[ıłøđħŧ]/g;
+
+/**
+ * Normalizes text the same way for indexing and querying:
+ * Unicode compatibility normalization, optional diacritic folding (Zürich → zurich)
+ * and locale-aware lowercasing. Tokenization splits on non-word characters and
+ * turns runs of CJK characters into overlapping bigrams, since they have no spaces.
+ */
+export class TextNormalizer {
+    private mappedText: string | null = null; // Single-entry memo for find()/findAll()
+    private mapped: { normalized: string; starts: number[]; ends: number[] } | null = null;
+    private charCache: Map<string, string> = new Map(); // Normalized form of single characters
+
+    constructor(private options: NormalizerOptions) {}
+
+    normalize(text: string): string {
+        let result = this.options.foldDiacritics
+            ? text.normalize('NFKD').replace(COMBINING_MARKS, '').normalize('NFC')
+            : text.normalize('NFKC');
+        result = this.toLower(result);
+        if (this.options.foldDiacritics) {
+            result = result.replace(EXTRA_FOLD_CHARS, char => EXTRA_FOLDS[char] || char);
+        }
+        return result;
+    }
+
+    /**
+     * Splits already normalized text into index terms.
+     */
+    tokenize(normalized: string): string[] {
+        const tokens: string[] = [];
+        for (const word of normalized.split(WORD_SEPARATORS)) {
+            if (!word) continue;
+            if (!CJK_CHARS.test(word)) {
+                tokens.push(word);
+                continue;
+            }
+
+            for (const run of word.match(CJK_RUNS) || []) {
+                if (!CJK_CHARS.test(run)) {
+                    tokens.push(run);
+                    continue;
+                }
+                const chars = Array.from(run);
+                if (chars.length === 1) {
+                    tokens.push(chars[0]);
+                }
+                for (let i = 0; i < chars.length - 1; i++) {
+                    tokens.push(chars[i] + chars[i + 1]);
+                }
+            }
+        }
+        return tokens;
+    }
+
+    // Whether the text has Chinese or Japanese characters, which are indexed as bigrams
+    static isCjk(text: string): boolean {
+        return CJK_CHARS.test(text);
+    }
+
+    /**
+     * Finds the first occurrence of a normalized needle in the original text at or after
+     * `fromIndex` (an original-text position) and returns its range in the original text.
+     */
+    find(text: string, normalizedNeedle: string, fromIndex = 0): TextRange | null {
+        if (!normalizedNeedle) return null;
+        const { normalized, starts, ends } = this.getMapping(text);
+
+        // Binary search for the first normalized position that maps at or after fromIndex
+        let position = 0;
+        let high = starts.length;
+        while (position < high) {
+            const mid = (position + high) >>> 1;
+            if (starts[mid] < fromIndex) {
+                position = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+
+        const index = normalized.indexOf(normalizedNeedle, position);
+        if (index === -1) {
+            return null;
+        }
+        const start = starts[index];
+        const end = ends[index + normalizedNeedle.length - 1];
+        return { index: start, length: end - start };
+    }
+
+    findAll(text: string, normalizedNeedle: string): TextRange[] {
+        const ranges: TextRange[] = [];
+        let range = this.find(text, normalizedNeedle);
+        while (range) {
+            ranges.push(range);
+            range = this.find(text, normalizedNeedle, range.index + Math.max(range.length, 1));
+        }
+        return ranges;
+    }
+
+    private toLower(text: string): string {
+        try {
+            return text.toLocaleLowerCase(this.options.locale);
+        } catch {
+            return text.toLowerCase(); // Unknown locale tag
+        }
+    }
+
+    /**
+     * Normalizes character by character, remembering for every normalized character
+     * the original range it came from. Only done for the few texts shown as results.
+     */
+    private getMapping(text: string): { normalized: string; starts: number[]; ends: number[] } {
+        if (this.mappedText === text && this.mapped) {
+            return this.mapped;
+        }
+
+        const parts: string[] = [];
+        const starts: number[] = [];
+        const ends: number[] = [];
+        let offset = 0;
+        for (const char of text) {
+            let normalizedChar = this.charCache.get(char);
+            if (normalizedChar === undefined) {
+                normalizedChar = this.normalize(char);
+                this.charCache.set(char, normalizedChar);
+            }
+            for (let i = 0; i < normalizedChar.length; i++) {
+                starts.push(offset);
+                ends.push(offset + char.length);
+            }
+            parts.push(normalizedChar);
+            offset += char.length;
+        }
+
+        this.mappedText = text;
+        this.mapped = { normalized: parts.join(''), starts, ends };
+        return this.mapped;
+    }
+}
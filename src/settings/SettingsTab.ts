@@ -1,5 +1,6 @@
 import { App, Notice, Platform, PluginSettingTab, Setting } from 'obsidian';
 import type GlobalSearchPlugin from '../main';
+import { HOTKEY_ACTIONS, HotkeyBinding } from './settings';
 
 export class GlobalSearchSettingTab extends PluginSettingTab {
     plugin: GlobalSearchPlugin;
@@ -47,38 +48,27 @@ export class GlobalSearchSettingTab extends PluginSettingTab {
                     void (async () => {
                         this.plugin.settings.language = value;
                         await this.plugin.saveSettings();
+                        // Case folding is locale-aware (e.g. Turkish dotted and dotless i)
+                        this.plugin.refreshSearchIndex();
                         this.display();
                     })();
                 }));
 
-        const hotkeySetting = new Setting(containerEl)
+        new Setting(containerEl)
             .setName(this.plugin.t('settingHotkeyName'))
-            .setDesc(this.plugin.t('settingHotkeyDesc'));
-
-        let textInput: HTMLInputElement;
-        let recordButton: HTMLButtonElement;
-
-        hotkeySetting.addText(text => {
-            textInput = text.inputEl;
-            text.setPlaceholder('CommandOrControl+Shift+O')
-                .setValue(this.plugin.settings.globalHotkey)
-                .onChange((value) => {
+            .setDesc(this.plugin.t('settingHotkeyDesc'))
+            .addButton(button => button
+                .setButtonText(this.plugin.t('addHotkey'))
+                .onClick(() => {
                     void (async () => {
-                        this.plugin.settings.globalHotkey = value;
+                        this.plugin.settings.hotkeys = this.plugin.settings.hotkeys.concat({ accelerator: '', action: 'search', scope: '' });
                         await this.plugin.saveSettings();
-                        this.plugin.registerGlobalHotkey();
+                        this.display();
                     })();
-                });
-        });
+                }));
 
-        hotkeySetting.addButton(button => {
-            recordButton = button.buttonEl;
-            button
-                .setButtonText(this.plugin.t('recordHotkey'))
-                .setClass('mod-cta')
-                .onClick(() => {
-                    this.startRecording(textInput, recordButton);
-                });
+        this.plugin.settings.hotkeys.forEach((binding) => {
+            this.addHotkeySetting(containerEl, binding);
         });
 
         containerEl.createEl('p', {
@@ -106,9 +96,298 @@ export class GlobalSearchSettingTab extends PluginSettingTab {
                         }
                     })();
                 }));
+
+        new Setting(containerEl)
+            .setName(this.plugin.t('settingFoldDiacriticsName'))
+            .setDesc(this.plugin.t('settingFoldDiacriticsDesc'))
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.foldDiacritics)
+                .onChange((value) => {
+                    void (async () => {
+                        this.plugin.settings.foldDiacritics = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshSearchIndex();
+                    })();
+                }));
+
+        new Setting(containerEl)
+            .setName(this.plugin.t('settingIndexCodeBlocksName'))
+            .setDesc(this.plugin.t('settingIndexCodeBlocksDesc'))
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.indexCodeBlocks)
+                .onChange((value) => {
+                    void (async () => {
+                        this.plugin.settings.indexCodeBlocks = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshSearchIndex();
+                    })();
+                }));
+
+        new Setting(containerEl)
+            .setName(this.plugin.t('settingIndexCommentsName'))
+            .setDesc(this.plugin.t('settingIndexCommentsDesc'))
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.indexComments)
+                .onChange((value) => {
+                    void (async () => {
+                        this.plugin.settings.indexComments = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshSearchIndex();
+                    })();
+                }));
+
+        new Setting(containerEl)
+            .setName(this.plugin.t('settingIndexFrontmatterName'))
+            .setDesc(this.plugin.t('settingIndexFrontmatterDesc'))
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.indexFrontmatter)
+                .onChange((value) => {
+                    void (async () => {
+                        this.plugin.settings.indexFrontmatter = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshSearchIndex();
+                    })();
+                }));
+
+        new Setting(containerEl)
+            .setName(this.plugin.t('settingLearnFromHistoryName'))
+            .setDesc(this.plugin.t('settingLearnFromHistoryDesc'))
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.learnFromHistory)
+                .onChange((value) => {
+                    void (async () => {
+                        this.plugin.settings.learnFromHistory = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshSearchIndex();
+                    })();
+                }));
+
+        new Setting(containerEl)
+            .setName(this.plugin.t('settingBoostLinkedNotesName'))
+            .setDesc(this.plugin.t('settingBoostLinkedNotesDesc'))
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.boostLinkedNotes)
+                .onChange((value) => {
+                    void (async () => {
+                        this.plugin.settings.boostLinkedNotes = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshSearchIndex();
+                    })();
+                }));
+
+        new Setting(containerEl)
+            .setName(this.plugin.t('settingCreatedPropertyName'))
+            .setDesc(this.plugin.t('settingCreatedPropertyDesc'))
+            .addText(text => text
+                .setPlaceholder('created')
+                .setValue(this.plugin.settings.createdProperty)
+                .onChange((value) => {
+                    void (async () => {
+                        this.plugin.settings.createdProperty = value.trim();
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshSearchIndex();
+                    })();
+                }));
+
+        new Setting(containerEl)
+            .setName(this.plugin.t('settingExcludePatternsName'))
+            .setDesc(this.plugin.t('settingExcludePatternsDesc'))
+            .addTextArea(text => text
+                .setPlaceholder('Templates/\nArchive/**\n**/*.excalidraw.md')
+                .setValue(this.plugin.settings.excludePatterns.join('\n'))
+                .onChange((value) => {
+                    void (async () => {
+                        this.plugin.settings.excludePatterns = this.parsePatterns(value);
+                        await this.plugin.saveSettings();
+                    })();
+                })
+                // Re-index once editing is done, not for every partially typed pattern
+                .then(text => text.inputEl.addEventListener('blur', () => this.plugin.refreshSearchIndex())));
+
+        new Setting(containerEl)
+            .setName(this.plugin.t('settingIncludePatternsName'))
+            .setDesc(this.plugin.t('settingIncludePatternsDesc'))
+            .addTextArea(text => text
+                .setPlaceholder('Notes/\nProjects/**')
+                .setValue(this.plugin.settings.includePatterns.join('\n'))
+                .onChange((value) => {
+                    void (async () => {
+                        this.plugin.settings.includePatterns = this.parsePatterns(value);
+                        await this.plugin.saveSettings();
+                    })();
+                })
+                // Re-index once editing is done, not for every partially typed pattern
+                .then(text => text.inputEl.addEventListener('blur', () => this.plugin.refreshSearchIndex())));
+
+        new Setting(containerEl)
+            .setName(this.plugin.t('settingExcludedFilesModeName'))
+            .setDesc(this.plugin.t('settingExcludedFilesModeDesc'))
+            .addDropdown(dropdown => dropdown
+                .addOption('hide', this.plugin.t('excludedFilesHide'))
+                .addOption('downrank', this.plugin.t('excludedFilesDownrank'))
+                .setValue(this.plugin.settings.excludedFilesMode)
+                .onChange((value) => {
+                    void (async () => {
+                        this.plugin.settings.excludedFilesMode = value === 'downrank' ? 'downrank' : 'hide';
+                        await this.plugin.saveSettings();
+                        this.plugin.refreshSearchIndex();
+                    })();
+                }));
+
+        new Setting(containerEl)
+            .setName(this.plugin.t('settingQuickCaptureHeading'))
+            .setHeading();
+
+        new Setting(containerEl)
+            .setName(this.plugin.t('settingNewNoteFolderName'))
+            .setDesc(this.plugin.t('settingNewNoteFolderDesc'))
+            .addText(text => text
+                .setPlaceholder('Inbox')
+                .setValue(this.plugin.settings.newNoteFolder)
+                .onChange((value) => {
+                    void (async () => {
+                        this.plugin.settings.newNoteFolder = value.trim();
+                        await this.plugin.saveSettings();
+                    })();
+                }));
+
+        new Setting(containerEl)
+            .setName(this.plugin.t('settingNewNoteTemplateName'))
+            .setDesc(this.plugin.t('settingNewNoteTemplateDesc'))
+            .addText(text => text
+                .setPlaceholder('Templates/New note.md')
+                .setValue(this.plugin.settings.newNoteTemplate)
+                .onChange((value) => {
+                    void (async () => {
+                        this.plugin.settings.newNoteTemplate = value.trim();
+                        await this.plugin.saveSettings();
+                    })();
+                }));
+
+        new Setting(containerEl)
+            .setName(this.plugin.t('settingCaptureFormatName'))
+            .setDesc(this.plugin.t('settingCaptureFormatDesc'))
+            .addDropdown(dropdown => dropdown
+                .addOption('bullet', this.plugin.t('captureFormatBullet'))
+                .addOption('task', this.plugin.t('captureFormatTask'))
+                .setValue(this.plugin.settings.captureFormat)
+                .onChange((value) => {
+                    void (async () => {
+                        this.plugin.settings.captureFormat = value === 'task' ? 'task' : 'bullet';
+                        await this.plugin.saveSettings();
+                    })();
+                }));
+
+        new Setting(containerEl)
+            .setName(this.plugin.t('settingCaptureTimestampName'))
+            .setDesc(this.plugin.t('settingCaptureTimestampDesc'))
+            .addText(text => text
+                .setPlaceholder('HH:mm')
+                .setValue(this.plugin.settings.captureTimestampFormat)
+                .onChange((value) => {
+                    void (async () => {
+                        this.plugin.settings.captureTimestampFormat = value.trim();
+                        await this.plugin.saveSettings();
+                    })();
+                }));
+
+        new Setting(containerEl)
+            .setName(this.plugin.t('savedSearches'))
+            .setDesc(this.plugin.t('settingSavedSearchesDesc'))
+            .setHeading();
+
+        this.plugin.settings.savedSearches.forEach((search) => {
+            new Setting(containerEl)
+                .setName(search.name)
+                .setDesc(search.query)
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip(this.plugin.t('deleteSavedSearch'))
+                    .onClick(() => {
+                        void (async () => {
+                            this.plugin.settings.savedSearches = this.plugin.settings.savedSearches.filter(saved => saved !== search);
+                            await this.plugin.saveSettings();
+                            this.display();
+                        })();
+                    }));
+        });
+    }
+
+    // One binding: what it does, the folder or tag it searches in (for scoped searches) and its accelerator
+    private addHotkeySetting(containerEl: HTMLElement, binding: HotkeyBinding): void {
+        const setting = new Setting(containerEl)
+            .addDropdown(dropdown => dropdown
+                .addOption('search', this.plugin.t('hotkeyActionSearch'))
+                .addOption('capture', this.plugin.t('hotkeyActionCapture'))
+                .addOption('daily-note', this.plugin.t('hotkeyActionDailyNote'))
+                .addOption('search-folder', this.plugin.t('hotkeyActionSearchFolder'))
+                .addOption('search-tag', this.plugin.t('hotkeyActionSearchTag'))
+                .setValue(binding.action)
+                .onChange((value) => {
+                    void (async () => {
+                        binding.action = HOTKEY_ACTIONS.find(action => action === value) || 'search';
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })();
+                }));
+
+        if (binding.action === 'search-folder' || binding.action === 'search-tag') {
+            setting.addText(text => text
+                .setPlaceholder(binding.action === 'search-folder' ? 'Projects' : '#work')
+                .setValue(binding.scope)
+                .onChange((value) => {
+                    void (async () => {
+                        binding.scope = value.trim();
+                        await this.plugin.saveSettings();
+                    })();
+                }));
+        }
+
+        let textInput: HTMLInputElement;
+        let recordButton: HTMLButtonElement;
+
+        setting.addText(text => {
+            textInput = text.inputEl;
+            text.setPlaceholder('CommandOrControl+Shift+O')
+                .setValue(binding.accelerator)
+                .onChange((value) => {
+                    void (async () => {
+                        binding.accelerator = value;
+                        await this.plugin.saveSettings();
+                        this.plugin.registerGlobalHotkeys();
+                    })();
+                });
+        });
+
+        setting.addButton(button => {
+            recordButton = button.buttonEl;
+            button
+                .setButtonText(this.plugin.t('recordHotkey'))
+                .setClass('mod-cta')
+                .onClick(() => {
+                    this.startRecording(binding, textInput, recordButton);
+                });
+        });
+
+        setting.addExtraButton(button => button
+            .setIcon('trash')
+            .setTooltip(this.plugin.t('deleteHotkey'))
+            .onClick(() => {
+                void (async () => {
+                    this.plugin.settings.hotkeys = this.plugin.settings.hotkeys.filter(other => other !== binding);
+                    await this.plugin.saveSettings();
+                    this.plugin.registerGlobalHotkeys();
+                    this.display();
+                })();
+            }));
+    }
+
+    // One glob per line
+    private parsePatterns(value: string): string[] {
+        return value.split('\n').map(line => line.trim()).filter(line => line.length > 0);
     }
 
-    startRecording(inputEl: HTMLInputElement, buttonEl: HTMLButtonElement) {
+    startRecording(binding: HotkeyBinding, inputEl: HTMLInputElement, buttonEl: HTMLButtonElement) {
         if (this.isRecording) return;
 
         this.isRecording = true;
@@ -142,31 +421,31 @@ export class GlobalSearchSettingTab extends PluginSettingTab {
                 const normalizedHotkey = this.normalizeHotkey(hotkey, isMac);
 
                 inputEl.value = normalizedHotkey;
-                this.plugin.settings.globalHotkey = normalizedHotkey;
+                binding.accelerator = normalizedHotkey;
                 void (async () => {
                     await this.plugin.saveSettings();
-                    this.plugin.registerGlobalHotkey();
+                    this.plugin.registerGlobalHotkeys();
                     new Notice(this.plugin.t('hotkeyRecorded', normalizedHotkey));
                 })();
             }
 
-            this.stopRecording(inputEl, buttonEl, handler);
+            this.stopRecording(binding, inputEl, buttonEl, handler);
         };
 
         inputEl.addEventListener('keydown', handler);
 
         setTimeout(() => {
             if (this.isRecording) {
-                this.stopRecording(inputEl, buttonEl, handler);
+                this.stopRecording(binding, inputEl, buttonEl, handler);
             }
         }, 10000);
     }
 
-    stopRecording(inputEl: HTMLInputElement, buttonEl: HTMLButtonElement, handler: (e: KeyboardEvent) => void) {
+    stopRecording(binding: HotkeyBinding, inputEl: HTMLInputElement, buttonEl: HTMLButtonElement, handler: (e: KeyboardEvent) => void) {
         this.isRecording = false;
         buttonEl.textContent = this.plugin.t('recordHotkey');
         buttonEl.removeClass('is-recording');
-        inputEl.value = this.plugin.settings.globalHotkey;
+        inputEl.value = binding.accelerator;
         inputEl.removeEventListener('keydown', handler);
     }
 
@@ -1,11 +1,60 @@
+import type { ExcludedFilesMode } from '../services/PathFilter';
+import type { RecentSearch } from '../services/OpenHistory';
+import type { CaptureFormat } from '../services/QuickCapture';
+
+export type HotkeyAction = 'search' | 'capture' | 'daily-note' | 'search-folder' | 'search-tag';
+export const HOTKEY_ACTIONS: HotkeyAction[] = ['search', 'capture', 'daily-note', 'search-folder', 'search-tag'];
+
+// A system-wide accelerator and what it does; the scope is the folder or tag of the scoped searches
+export interface HotkeyBinding {
+    accelerator: string;
+    action: HotkeyAction;
+    scope: string;
+}
+
+// A query with its match options, saved under a name
+export interface SavedSearch extends RecentSearch {
+    name: string;
+}
+
 export interface GlobalSearchSettings {
-    globalHotkey: string;
+    hotkeys: HotkeyBinding[];
     language: string;
     maxSearchResults: number;
+    foldDiacritics: boolean;
+    indexCodeBlocks: boolean;
+    indexComments: boolean; // %%comments%% and HTML comments
+    indexFrontmatter: boolean; // The YAML text (property values are always searched)
+    learnFromHistory: boolean;
+    boostLinkedNotes: boolean; // Rank notes with many backlinks higher
+    createdProperty: string; // Frontmatter property with the creation date; file creation time when empty
+    includePatterns: string[]; // When not empty, only matching files are searched
+    excludePatterns: string[];
+    excludedFilesMode: ExcludedFilesMode;
+    savedSearches: SavedSearch[];
+    newNoteFolder: string; // Obsidian's default location for new notes when empty
+    newNoteTemplate: string; // Path of the template for notes created from the search window, none when empty
+    captureFormat: CaptureFormat; // How text captured to the daily note is written
+    captureTimestampFormat: string; // Moment format of the time before captured text, none when empty
 }
 
 export const DEFAULT_SETTINGS: GlobalSearchSettings = {
-    globalHotkey: 'CommandOrControl+Shift+O',
+    hotkeys: [{ accelerator: 'CommandOrControl+Shift+O', action: 'search', scope: '' }],
     language: 'auto',
-    maxSearchResults: 50
+    maxSearchResults: 50,
+    foldDiacritics: true,
+    indexCodeBlocks: true,
+    indexComments: true,
+    indexFrontmatter: false,
+    learnFromHistory: true,
+    boostLinkedNotes: false,
+    createdProperty: '',
+    includePatterns: [],
+    excludePatterns: [],
+    excludedFilesMode: 'hide',
+    savedSearches: [],
+    newNoteFolder: '',
+    newNoteTemplate: '',
+    captureFormat: 'bullet',
+    captureTimestampFormat: 'HH:mm'
 };
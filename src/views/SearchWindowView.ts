@@ -1,7 +1,10 @@
 import type { Translation } from '../i18n/translations';
+import type { RecentSearch } from '../services/OpenHistory';
 
 export class SearchWindowView {
-    generateSearchHTML(isDark = true, t: Translation): string {
+    generateSearchHTML(isDark = true, t: Translation, initialSearch: RecentSearch | null = null): string {
+        // Embedded in the script: '<' is escaped so the query cannot close the script tag
+        const initialSearchJson = JSON.stringify(initialSearch).replace(/</g, '\\u003c');
         const colors = isDark ? {
             bg: '#202020',
             bgSecondary: '#161616',
@@ -98,6 +101,94 @@ export class SearchWindowView {
             color: ${colors.textMuted};
             font-size: 14px;
         }
+        input.invalid {
+            border-color: #e5484d;
+        }
+        .search-input-row {
+            display: flex;
+            align-items: center;
+            gap: 6px;
+        }
+        .search-input-row input {
+            flex: 1;
+            min-width: 0;
+        }
+        .search-toggle {
+            flex-shrink: 0;
+            min-width: 30px;
+            height: 30px;
+            padding: 0 6px;
+            font-size: 13px;
+            font-family: 'Monaco', 'Courier New', monospace;
+            border: 1.5px solid ${colors.border};
+            border-radius: 6px;
+            background: ${colors.bg};
+            color: ${colors.textMuted};
+            cursor: pointer;
+        }
+        .search-toggle:hover {
+            background: ${colors.bgHover};
+        }
+        .search-toggle.active {
+            border-color: ${colors.borderFocus};
+            background: ${colors.borderFocus};
+            color: #ffffff;
+        }
+        .search-toggle.whole-word {
+            text-decoration: underline;
+        }
+        .search-sort {
+            flex-shrink: 0;
+            height: 30px;
+            padding: 0 4px;
+            font-size: 12px;
+            border: 1.5px solid ${colors.border};
+            border-radius: 6px;
+            background: ${colors.bg};
+            color: ${colors.textMuted};
+            cursor: pointer;
+            outline: none;
+        }
+        .search-sort:hover {
+            background: ${colors.bgHover};
+        }
+        .search-sort.active {
+            border-color: ${colors.borderFocus};
+            color: ${colors.text};
+        }
+        .index-status {
+            margin-top: 8px;
+            font-size: 12px;
+            color: ${colors.textMuted};
+        }
+        .index-status.hidden,
+        .search-status.hidden,
+        .search-suggestion.hidden,
+        .save-search.hidden {
+            display: none;
+        }
+        .save-search {
+            margin-top: 8px;
+        }
+        .search-status {
+            margin-top: 8px;
+            font-size: 12px;
+            color: ${colors.textMuted};
+        }
+        .search-suggestion {
+            margin-top: 8px;
+            font-size: 12px;
+            color: ${colors.textMuted};
+        }
+        .search-suggestion button {
+            background: none;
+            border: none;
+            padding: 0;
+            font: inherit;
+            color: ${colors.borderFocus};
+            text-decoration: underline;
+            cursor: pointer;
+        }
         .results {
             flex: 1;
             overflow-y: auto;
@@ -116,6 +207,14 @@ export class SearchWindowView {
             text-align: center;
             padding: 40px;
         }
+        .results-section {
+            padding: 10px 20px 4px;
+            font-size: 11px;
+            font-weight: 600;
+            text-transform: uppercase;
+            letter-spacing: 0.04em;
+            color: ${colors.textMuted};
+        }
         .result-item {
             padding: 14px 20px;
             cursor: pointer;
@@ -138,16 +237,81 @@ export class SearchWindowView {
             -webkit-line-clamp: 2;
             -webkit-box-orient: vertical;
         }
-        .result-snippet .match {
+        .result-path {
+            font-size: 11px;
+            color: ${colors.textMuted};
+            line-height: 1.4;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .result-meta {
+            font-size: 12px;
+            color: ${colors.textMuted};
+            line-height: 1.4;
+            white-space: nowrap;
+            overflow: hidden;
+            text-overflow: ellipsis;
+        }
+        .result-snippet .match,
+        .result-title .match {
             color: ${colors.borderFocus};
             font-weight: 600;
         }
+        .result-breadcrumb {
+            font-weight: 600;
+        }
+        .result-type {
+            margin-right: 6px;
+            padding: 1px 6px;
+            border: 1px solid ${colors.border};
+            border-radius: 4px;
+            font-size: 10px;
+            font-weight: 400;
+            text-transform: uppercase;
+            color: ${colors.textMuted};
+        }
+        .result-count {
+            float: right;
+            margin-left: 8px;
+            font-size: 11px;
+            font-weight: 400;
+            color: ${colors.textMuted};
+        }
+        .result-count.expandable {
+            cursor: pointer;
+        }
+        .result-passage {
+            margin-top: 4px;
+            padding-left: 8px;
+            border-left: 2px solid transparent;
+            -webkit-line-clamp: 1;
+        }
+        .result-passage.selected {
+            border-left-color: ${colors.borderFocus};
+        }
+        .result-item.selected .result-passage.selected {
+            border-left-color: #ffffff;
+        }
+        .task-checkbox {
+            margin-right: 6px;
+            cursor: pointer;
+        }
+        .result-item.task-done .result-title {
+            text-decoration: line-through;
+            opacity: 0.6;
+        }
         .result-item.selected {
             background: ${colors.borderFocus};
         }
         .result-item.selected .result-title,
+        .result-item.selected .result-path,
+        .result-item.selected .result-meta,
+        .result-item.selected .result-count,
+        .result-item.selected .result-type,
         .result-item.selected .result-snippet,
-        .result-item.selected .result-snippet .match {
+        .result-item.selected .result-snippet .match,
+        .result-item.selected .result-title .match {
             color: #ffffff;
         }
         .result-item:last-child {
@@ -325,6 +489,26 @@ export class SearchWindowView {
         .preview-content .task-list-item input[type="checkbox"] {
             margin-right: 0.5em;
         }
+        .preview-content .preview-media {
+            display: block;
+            width: 100%;
+            margin: 0 0 1em;
+        }
+        .preview-file {
+            font-size: 12px;
+            color: ${colors.textMuted};
+        }
+        .preview-content .canvas-card {
+            border: 1px solid ${colors.border};
+            border-radius: 6px;
+            padding: 8px 12px;
+            margin-bottom: 8px;
+        }
+        .preview-content .canvas-group {
+            margin: 1em 0 0.5em;
+            font-weight: 600;
+            color: ${colors.textMuted};
+        }
         .preview-loading {
             color: ${colors.textMuted};
             font-style: italic;
@@ -338,7 +522,20 @@ export class SearchWindowView {
         <div class="content-wrapper">
             <div class="results-panel">
                 <div class="search-header">
-                    <input type="text" id="searchInput" placeholder="${t.searchPlaceholder}" autofocus />
+                    <div class="search-input-row">
+                        <input type="text" id="searchInput" placeholder="${t.searchPlaceholder}" autofocus />
+                        <button class="search-toggle" id="toggleCaseSensitive" tabindex="-1">Aa</button>
+                        <button class="search-toggle whole-word" id="toggleWholeWord" tabindex="-1">ab</button>
+                        <button class="search-toggle" id="toggleRegex" tabindex="-1">.*</button>
+                        <select class="search-sort" id="sortOrder" tabindex="-1"></select>
+                        <button class="search-toggle" id="saveSearchButton" tabindex="-1">☆</button>
+                    </div>
+                    <div class="save-search hidden" id="saveSearch">
+                        <input type="text" id="saveSearchName" />
+                    </div>
+                    <div class="index-status hidden" id="indexStatus"></div>
+                    <div class="search-status hidden" id="searchStatus"></div>
+                    <div class="search-suggestion hidden" id="searchSuggestion"></div>
                 </div>
                 <div class="results" id="results"></div>
             </div>
@@ -369,6 +566,66 @@ export class SearchWindowView {
             const previewWindow = document.getElementById('previewWindow');
             const previewTitle = document.getElementById('previewTitle');
             const previewContent = document.getElementById('previewContent');
+            const indexStatusDiv = document.getElementById('indexStatus');
+            const searchStatusDiv = document.getElementById('searchStatus');
+            const suggestionDiv = document.getElementById('searchSuggestion');
+            searchStatusDiv.textContent = ${JSON.stringify(t.searching)};
+
+            // Every search gets a new id; results of older searches are ignored
+            let searchRequestId = 0;
+            let renderedRequestId = -1;
+            let previewPath = null;
+            let suggestedQuery = ''; // "Did you mean" query of the last search
+
+            // Match case / whole word / regular expression toggles (Alt+C, Alt+W, Alt+R)
+            const searchOptions = { caseSensitive: false, wholeWord: false, regex: false, sort: 'relevance' };
+            const toggleButtons = {
+                caseSensitive: document.getElementById('toggleCaseSensitive'),
+                wholeWord: document.getElementById('toggleWholeWord'),
+                regex: document.getElementById('toggleRegex')
+            };
+            toggleButtons.caseSensitive.title = ${JSON.stringify(t.toggleCaseSensitive)};
+            toggleButtons.wholeWord.title = ${JSON.stringify(t.toggleWholeWord)};
+            toggleButtons.regex.title = ${JSON.stringify(t.toggleRegex)};
+
+            // Sort order of the results (Alt+S cycles through it)
+            const SORT_LABELS = {
+                relevance: ${JSON.stringify(t.sortRelevance)},
+                modified: ${JSON.stringify(t.sortModified)},
+                created: ${JSON.stringify(t.sortCreated)},
+                name: ${JSON.stringify(t.sortName)}
+            };
+            const sortSelect = document.getElementById('sortOrder');
+            sortSelect.title = ${JSON.stringify(t.sortOrder)};
+            Object.keys(SORT_LABELS).forEach((order) => {
+                const option = document.createElement('option');
+                option.value = order;
+                option.textContent = SORT_LABELS[order];
+                sortSelect.appendChild(option);
+            });
+
+            // Badges of canvas boards and attachments in the results
+            const FILE_TYPE_LABELS = {
+                canvas: ${JSON.stringify(t.fileTypeCanvas)},
+                image: ${JSON.stringify(t.fileTypeImage)},
+                audio: ${JSON.stringify(t.fileTypeAudio)},
+                video: ${JSON.stringify(t.fileTypeVideo)},
+                pdf: ${JSON.stringify(t.fileTypePdf)},
+                other: ${JSON.stringify(t.fileTypeOther)}
+            };
+
+            // Saved searches (pinned) and recent queries, shown above the recent files when the query is empty
+            const MAX_RECENT_SEARCHES = 5;
+            const initialSearch = ${initialSearchJson};
+            let savedSearches = [];
+            let recentSearches = [];
+            let recentFiles = [];
+            let historyPosition = -1; // Recent query recalled with the up arrow, -1 when typing
+            const saveSearchButton = document.getElementById('saveSearchButton');
+            const saveSearchDiv = document.getElementById('saveSearch');
+            const saveSearchName = document.getElementById('saveSearchName');
+            saveSearchButton.title = ${JSON.stringify(t.saveSearch)};
+            saveSearchName.placeholder = ${JSON.stringify(t.saveSearchNamePlaceholder)};
 
         // Escape HTML to prevent XSS attacks
         function escapeHtml(unsafe) {
@@ -381,14 +638,259 @@ export class SearchWindowView {
                 .replace(/'/g, '&#039;');
         }
 
-        api.onSearchResults((results) => {
+        // Partial results arrive while the search runs (titles first, then content batches)
+        api.onSearchResults((results, requestId, done, suggestion) => {
+            if (requestId !== searchRequestId) return;
+
+            // Keep the selection while results of the same search are being appended
+            const selected = requestId === renderedRequestId ? currentResults[selectedIndex] : null;
+            renderedRequestId = requestId;
             currentResults = results;
-            displayResults(results);
+            displayResults(results, selected);
+            if (done) {
+                setSearching(false);
+                showSuggestion(suggestion);
+                showCreateNote(results.length === 0 ? searchInput.value.trim() : '');
+            }
         });
 
         api.onRecentFiles((results) => {
-            currentResults = results;
-            displayResults(results);
+            recentFiles = results;
+            if (!searchInput.value.trim()) showEmptyState();
+        });
+
+        api.onSearchHistory((saved, recent) => {
+            savedSearches = saved;
+            recentSearches = recent;
+            updateSaveButton();
+            if (!searchInput.value.trim()) showEmptyState();
+        });
+
+        // Notes matching on several lines can be expanded (→, or a click on the match count) to open at any of them
+        let expandedPath = null;
+        let selectedPassage = -1; // Passage of the selected result the arrow keys are on, -1 for the result itself
+
+        function canExpand(result) {
+            return Boolean(result && result.passages && result.passages.length > 1);
+        }
+
+        function getPassages(result) {
+            return canExpand(result) && result.path === expandedPath ? result.passages : [];
+        }
+
+        function setExpanded(index, expanded) {
+            const result = currentResults[index];
+            if (!canExpand(result)) return;
+            expandedPath = expanded ? result.path : null;
+            selectedIndex = index;
+            selectedPassage = -1;
+            displayResults(currentResults, result);
+        }
+
+        // Opens a result, at its selected passage if one is selected
+        function openResult(index) {
+            const result = currentResults[index];
+            const passage = index === selectedIndex ? getPassages(result)[selectedPassage] : undefined;
+            api.openFile(result.path, result.subpath || '', (passage || result).location, searchInput.value.trim());
+        }
+
+        function isCaretAtEnd() {
+            return searchInput.selectionStart === searchInput.value.length && searchInput.selectionEnd === searchInput.value.length;
+        }
+
+        // Task results ("[ ] filter") are checked off in place; a task that moved is looked up again
+        function toggleTask(index) {
+            const result = currentResults[index];
+            if (result && result.task) {
+                api.setTaskChecked(result.path, result.task.line, result.snippet, !result.task.checked);
+            }
+        }
+
+        api.onTaskChecked((path, line, checked, found) => {
+            if (!found) {
+                updateResults();
+                return;
+            }
+            const result = currentResults.find(r => r.task && r.path === path && r.task.line === line);
+            if (result) {
+                result.task.checked = checked;
+                displayResults(currentResults);
+            }
+        });
+
+        // A search that finds nothing offers to create a note named after the query (Shift+Enter)
+        let creatableQuery = '';
+
+        function showCreateNote(query) {
+            const isTaskQuery = ['[ ]', '[x]', '[X]'].indexOf(query.substring(0, 3)) !== -1;
+            creatableQuery = query && !searchOptions.regex && !isTaskQuery ? query : '';
+            if (creatableQuery) {
+                showEmptyMessage(${JSON.stringify(t.createNoteHint)}.replace('{0}', creatableQuery));
+            }
+        }
+
+        // "+ text" adds the text to today's daily note (Enter), without opening it
+        function getCaptureText(query) {
+            return query.charAt(0) === '+' ? query.substring(1).trim() : null;
+        }
+
+        function showCapture(text) {
+            currentResults = [{
+                path: '',
+                name: ${JSON.stringify(t.captureToDailyNote)},
+                snippet: text || ${JSON.stringify(t.captureHint)},
+                capture: text
+            }];
+            displayResults(currentResults);
+        }
+
+        function capture(entry) {
+            if (entry.capture) {
+                api.appendToDailyNote(entry.capture);
+            }
+        }
+
+        api.onCaptureResult((success, fileName) => {
+            if (success) {
+                searchInput.value = '';
+                updateSaveButton();
+                showEmptyMessage(${JSON.stringify(t.capturedToDailyNote)}.replace('{0}', fileName));
+            } else {
+                showEmptyMessage(${JSON.stringify(t.captureFailed)});
+            }
+        });
+
+        // Marks of the match options a search was made with, as on the toggle buttons
+        function describeOptions(options) {
+            return [
+                options.caseSensitive ? 'Aa' : '',
+                options.wholeWord ? 'ab' : '',
+                options.regex ? '.*' : '',
+                SORT_LABELS[options.sort] && options.sort !== 'relevance' ? '⇅ ' + SORT_LABELS[options.sort] : ''
+            ].filter(Boolean).join(' ');
+        }
+
+        function showEmptyState() {
+            const searches = savedSearches.map(search => ({
+                path: '',
+                name: '★ ' + search.name,
+                snippet: [search.query, describeOptions(search.options)].filter(Boolean).join('  '),
+                search: search,
+                section: ${JSON.stringify(t.savedSearches)}
+            })).concat(recentSearches.slice(0, MAX_RECENT_SEARCHES).map(search => ({
+                path: '',
+                name: search.query,
+                snippet: describeOptions(search.options),
+                search: search,
+                section: ${JSON.stringify(t.recentSearches)}
+            })));
+            const files = searches.length > 0
+                ? recentFiles.map(f => Object.assign({}, f, { section: ${JSON.stringify(t.recentlyViewed)} }))
+                : recentFiles;
+            currentResults = searches.concat(files);
+            displayResults(currentResults);
+        }
+
+        // Runs a saved or recent search: its query and its match options
+        function applySearch(search) {
+            searchInput.value = search.query;
+            Object.keys(toggleButtons).forEach((option) => {
+                searchOptions[option] = search.options[option] === true;
+                toggleButtons[option].classList.toggle('active', searchOptions[option]);
+            });
+            showSortOrder(SORT_LABELS[search.options.sort] ? search.options.sort : 'relevance');
+            searchInput.focus();
+            updateResults();
+        }
+
+        function updateSaveButton() {
+            const query = searchInput.value.trim();
+            const saved = query !== '' && savedSearches.some(search => search.query === query);
+            saveSearchButton.textContent = saved ? '★' : '☆';
+            saveSearchButton.classList.toggle('active', saved);
+        }
+
+        // Asks for a name (the query, or the name it is already saved under) and saves the current search
+        function openSaveSearch() {
+            const query = searchInput.value.trim();
+            if (!query) return;
+            const existing = savedSearches.find(search => search.query === query);
+            saveSearchName.value = existing ? existing.name : query;
+            saveSearchDiv.classList.remove('hidden');
+            saveSearchName.focus();
+            saveSearchName.select();
+        }
+
+        function closeSaveSearch() {
+            saveSearchDiv.classList.add('hidden');
+            searchInput.focus();
+        }
+
+        saveSearchButton.addEventListener('click', openSaveSearch);
+
+        saveSearchName.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                const name = saveSearchName.value.trim();
+                const query = searchInput.value.trim();
+                if (name && query) {
+                    api.saveSearch(name, query, searchOptions);
+                }
+                closeSaveSearch();
+            } else if (e.key === 'Escape') {
+                e.preventDefault();
+                closeSaveSearch();
+            }
+        });
+
+        // Files get a preview; saved and recent searches and the capture entry have none
+        function previewEntry(entry) {
+            if (!entry || entry.search || entry.capture !== undefined) {
+                hidePreview();
+            } else {
+                showPreview(entry.path, entry.name);
+            }
+        }
+
+        function setSearching(searching) {
+            searchStatusDiv.classList.toggle('hidden', !searching);
+        }
+
+        // "Did you mean ...?" with the corrected query as a link; Tab also accepts it
+        function showSuggestion(suggestion) {
+            suggestedQuery = suggestion || '';
+            while (suggestionDiv.firstChild) {
+                suggestionDiv.removeChild(suggestionDiv.firstChild);
+            }
+            suggestionDiv.classList.toggle('hidden', !suggestedQuery);
+            if (!suggestedQuery) return;
+
+            const parts = ${JSON.stringify(t.didYouMean)}.split('{0}');
+            const button = document.createElement('button');
+            button.tabIndex = -1;
+            button.textContent = suggestedQuery;
+            button.addEventListener('click', acceptSuggestion);
+            suggestionDiv.appendChild(document.createTextNode(parts[0]));
+            suggestionDiv.appendChild(button);
+            suggestionDiv.appendChild(document.createTextNode(parts[1] || ''));
+        }
+
+        function acceptSuggestion() {
+            if (!suggestedQuery) return;
+            searchInput.value = suggestedQuery;
+            searchInput.focus();
+            updateResults();
+        }
+
+        api.onIndexStatus((status) => {
+            if (status.isIndexing) {
+                indexStatusDiv.textContent = ${JSON.stringify(t.indexingProgress)}
+                    .replace('{0}', String(status.indexed))
+                    .replace('{1}', String(status.total));
+                indexStatusDiv.classList.remove('hidden');
+            } else {
+                indexStatusDiv.classList.add('hidden');
+            }
         });
 
         api.onFilePreview((data) => {
@@ -415,6 +917,9 @@ export class SearchWindowView {
         });
 
         function showPreview(filePath, fileName) {
+            if (filePath === previewPath) return;
+            previewPath = filePath;
+
             // Use textContent instead of innerHTML to prevent XSS
             previewTitle.textContent = fileName;
 
@@ -431,6 +936,8 @@ export class SearchWindowView {
         }
 
         function hidePreview() {
+            previewPath = null;
+
             // Use DOM API instead of innerHTML
             while (previewContent.firstChild) {
                 previewContent.removeChild(previewContent.firstChild);
@@ -441,8 +948,96 @@ export class SearchWindowView {
             previewContent.appendChild(emptyDiv);
         }
 
-        function displayResults(matches) {
-            selectedIndex = 0;
+        // Render snippet text with highlighted ranges as text nodes and spans (never as HTML)
+        function renderSnippet(container, snippet, ranges) {
+            let position = 0;
+            (ranges || []).forEach(([start, end]) => {
+                if (start < position || end > snippet.length) return;
+                if (start > position) {
+                    container.appendChild(document.createTextNode(snippet.substring(position, start)));
+                }
+                const matchSpan = document.createElement('span');
+                matchSpan.className = 'match';
+                matchSpan.textContent = snippet.substring(start, end);
+                container.appendChild(matchSpan);
+                position = end;
+            });
+            if (position < snippet.length) {
+                container.appendChild(document.createTextNode(snippet.substring(position)));
+            }
+        }
+
+        // Snippet of a result or passage, after the heading it is under
+        function renderPassage(container, passage) {
+            if (passage.heading) {
+                const breadcrumb = document.createElement('span');
+                breadcrumb.className = 'result-breadcrumb';
+                breadcrumb.textContent = passage.heading + ' › ';
+                container.appendChild(breadcrumb);
+            }
+            renderSnippet(container, passage.snippet, passage.matchRanges);
+        }
+
+        function toggleSearchOption(option) {
+            searchOptions[option] = !searchOptions[option];
+            toggleButtons[option].classList.toggle('active', searchOptions[option]);
+            updateResults();
+        }
+
+        Object.keys(toggleButtons).forEach((option) => {
+            toggleButtons[option].addEventListener('click', () => toggleSearchOption(option));
+        });
+
+        function showSortOrder(order) {
+            searchOptions.sort = order;
+            sortSelect.value = order;
+            sortSelect.classList.toggle('active', order !== 'relevance');
+        }
+
+        function setSortOrder(order) {
+            showSortOrder(order);
+            updateResults();
+        }
+
+        function cycleSortOrder() {
+            const orders = Object.keys(SORT_LABELS);
+            setSortOrder(orders[(orders.indexOf(searchOptions.sort) + 1) % orders.length]);
+        }
+
+        sortSelect.addEventListener('change', () => {
+            setSortOrder(sortSelect.value);
+            searchInput.focus();
+        });
+
+        // Same flags the search service compiles the pattern with
+        function isValidPattern(query) {
+            try {
+                new RegExp(query, searchOptions.wholeWord ? 'u' : '');
+                return true;
+            } catch (e) {
+                return false;
+            }
+        }
+
+        function showEmptyMessage(message) {
+            while (resultsDiv.firstChild) {
+                resultsDiv.removeChild(resultsDiv.firstChild);
+            }
+            currentResults = [];
+            const emptyDiv = document.createElement('div');
+            emptyDiv.className = 'results-empty';
+            emptyDiv.textContent = message;
+            resultsDiv.appendChild(emptyDiv);
+            hidePreview();
+        }
+
+        function displayResults(matches, selected) {
+            const index = selected
+                ? matches.findIndex(m => m.path === selected.path && (m.subpath || '') === (selected.subpath || ''))
+                : -1;
+            selectedIndex = Math.max(index, 0);
+            if (!selected) expandedPath = null;
+            if (index === -1 || selectedPassage >= getPassages(matches[index]).length) selectedPassage = -1;
 
             // Clear results using DOM API
             while (resultsDiv.firstChild) {
@@ -460,18 +1055,124 @@ export class SearchWindowView {
 
             // Create result items using DOM API
             const fragment = document.createDocumentFragment();
+            let section = '';
             matches.forEach((f, idx) => {
+                if (f.section && f.section !== section) {
+                    section = f.section;
+                    const sectionDiv = document.createElement('div');
+                    sectionDiv.className = 'results-section';
+                    sectionDiv.textContent = section;
+                    fragment.appendChild(sectionDiv);
+                }
+
                 const itemDiv = document.createElement('div');
                 itemDiv.className = idx === selectedIndex ? 'result-item selected' : 'result-item';
                 itemDiv.setAttribute('data-path', f.path);
                 itemDiv.setAttribute('data-index', String(idx));
                 itemDiv.setAttribute('data-name', f.name);
+                itemDiv.setAttribute('data-subpath', f.subpath || '');
 
                 const titleDiv = document.createElement('div');
                 titleDiv.className = 'result-title';
-                titleDiv.textContent = f.name;
+                if (f.task) {
+                    // Task results: checkbox and task text, with the note and heading below
+                    itemDiv.classList.toggle('task-done', f.task.checked);
+                    const checkbox = document.createElement('span');
+                    checkbox.className = 'task-checkbox';
+                    checkbox.textContent = f.task.checked ? '☑' : '☐';
+                    checkbox.title = ${JSON.stringify(t.toggleTask)};
+                    checkbox.addEventListener('click', (e) => {
+                        e.stopPropagation();
+                        toggleTask(idx);
+                        searchInput.focus();
+                    });
+                    titleDiv.appendChild(checkbox);
+                    renderSnippet(titleDiv, f.snippet, f.matchRanges);
+                } else {
+                    // Heading and block results: "Note › Heading" / "Note › ^blockid"
+                    // Attachments by their file name, with the extension
+                    const name = f.fileType && f.fileType !== 'canvas' ? f.path.substring(f.path.lastIndexOf('/') + 1) : f.name;
+                    titleDiv.textContent = f.subpath ? name + ' › ' + f.subpath.substring(1) : name;
+                    if (FILE_TYPE_LABELS[f.fileType]) {
+                        const typeSpan = document.createElement('span');
+                        typeSpan.className = 'result-type';
+                        typeSpan.textContent = FILE_TYPE_LABELS[f.fileType];
+                        titleDiv.insertBefore(typeSpan, titleDiv.firstChild);
+                    }
+                    if (f.matchCount) {
+                        const countSpan = document.createElement('span');
+                        countSpan.className = 'result-count';
+                        countSpan.textContent = ${JSON.stringify(t.matchCount)}.replace('{0}', String(f.matchCount));
+                        if (canExpand(f)) {
+                            countSpan.classList.add('expandable');
+                            countSpan.textContent += f.path === expandedPath ? ' ▾' : ' ▸';
+                            countSpan.title = ${JSON.stringify(t.toggleMatches)};
+                            countSpan.addEventListener('click', (e) => {
+                                e.stopPropagation();
+                                setExpanded(idx, f.path !== expandedPath);
+                                searchInput.focus();
+                            });
+                        }
+                        titleDiv.insertBefore(countSpan, titleDiv.firstChild);
+                    }
+                }
 
                 itemDiv.appendChild(titleDiv);
+
+                // Folder path tells apart notes with the same name
+                const folder = f.path.includes('/') ? f.path.substring(0, f.path.lastIndexOf('/')) : '';
+                // When sorted by date, the date the results are ordered by
+                const time = searchOptions.sort === 'modified' ? f.modified
+                    : searchOptions.sort === 'created' ? f.created : undefined;
+                const date = time ? new Date(time).toLocaleDateString() : '';
+                const note = f.task ? [f.name, f.task.heading].filter(Boolean).join(' › ') : '';
+                if (note || folder || date) {
+                    const pathDiv = document.createElement('div');
+                    pathDiv.className = 'result-path';
+                    pathDiv.textContent = [note, folder, date].filter(Boolean).join(' · ');
+                    itemDiv.appendChild(pathDiv);
+                }
+
+                // Show which alias or property the note was found through
+                const meta = f.matchedAlias
+                    ? ${JSON.stringify(t.matchedAlias)}.replace('{0}', f.matchedAlias)
+                    : f.matchedProperty
+                        ? f.matchedProperty.key + ': ' + f.matchedProperty.value
+                        : '';
+                if (meta) {
+                    const metaDiv = document.createElement('div');
+                    metaDiv.className = 'result-meta';
+                    metaDiv.textContent = meta;
+                    itemDiv.appendChild(metaDiv);
+                }
+
+                const passages = getPassages(f);
+                passages.forEach((passage, passageIndex) => {
+                    const passageDiv = document.createElement('div');
+                    passageDiv.className = 'result-snippet result-passage';
+                    passageDiv.classList.toggle('selected', idx === selectedIndex && passageIndex === selectedPassage);
+                    passageDiv.setAttribute('data-passage', String(passageIndex));
+                    renderPassage(passageDiv, passage);
+                    passageDiv.addEventListener('click', (e) => {
+                        e.stopPropagation();
+                        if (idx === selectedIndex && passageIndex === selectedPassage) {
+                            openResult(idx);
+                        } else {
+                            selectedIndex = idx;
+                            selectedPassage = passageIndex;
+                            updateSelection();
+                        }
+                        searchInput.focus();
+                    });
+                    itemDiv.appendChild(passageDiv);
+                });
+                if (passages.length === 0 && f.snippet && !f.task) {
+                    const snippetDiv = document.createElement('div');
+                    snippetDiv.className = 'result-snippet';
+                    renderPassage(snippetDiv, f);
+                    itemDiv.appendChild(snippetDiv);
+                }
+
                 fragment.appendChild(itemDiv);
             });
             resultsDiv.appendChild(fragment);
@@ -480,69 +1181,146 @@ export class SearchWindowView {
                 item.addEventListener('click', () => {
                     const itemIndex = parseInt(item.dataset.index);
 
-                    if (itemIndex === selectedIndex) {
-                        api.openFile(item.dataset.path);
+                    if (currentResults[itemIndex].search) {
+                        applySearch(currentResults[itemIndex].search);
+                    } else if (currentResults[itemIndex].capture !== undefined) {
+                        capture(currentResults[itemIndex]);
+                    } else if (itemIndex === selectedIndex && selectedPassage === -1) {
+                        openResult(itemIndex);
                     } else {
                         selectedIndex = itemIndex;
+                        selectedPassage = -1;
                         updateSelection();
-                        showPreview(item.dataset.path, item.dataset.name);
                     }
 
                     searchInput.focus();
                 });
             });
 
-            if (matches.length > 0) {
-                showPreview(matches[0].path, matches[0].name);
-            }
+            previewEntry(matches[selectedIndex]);
         }
 
         let searchTimeout;
         function updateResults() {
             const query = searchInput.value.trim();
+            clearTimeout(searchTimeout);
+            searchInput.classList.remove('invalid');
+            const requestId = ++searchRequestId;
+            setSearching(false);
+            showSuggestion('');
+            updateSaveButton();
+            creatableQuery = '';
 
             if (!query) {
                 api.getRecentFiles();
                 return;
             }
 
-            clearTimeout(searchTimeout);
+            const captureText = getCaptureText(query);
+            if (captureText !== null) {
+                showCapture(captureText);
+                return;
+            }
+
+            if (searchOptions.regex && !isValidPattern(query)) {
+                searchInput.classList.add('invalid');
+                showEmptyMessage(${JSON.stringify(t.invalidRegex)});
+                return;
+            }
+
             searchTimeout = setTimeout(() => {
-                api.searchContent(query);
+                setSearching(true);
+                api.searchContent(query, searchOptions, requestId);
             }, 200);
         }
 
         function updateSelection() {
             document.querySelectorAll('.result-item').forEach((item, idx) => {
+                item.querySelectorAll('.result-passage').forEach((passageDiv) => {
+                    passageDiv.classList.toggle('selected', idx === selectedIndex && Number(passageDiv.dataset.passage) === selectedPassage);
+                });
                 if (idx === selectedIndex) {
                     item.classList.add('selected');
-                    item.scrollIntoView({ block: 'nearest' });
-                    if (currentResults[selectedIndex]) {
-                        showPreview(currentResults[selectedIndex].path, currentResults[selectedIndex].name);
-                    }
+                    (item.querySelector('.result-passage.selected') || item).scrollIntoView({ block: 'nearest' });
+                    previewEntry(currentResults[selectedIndex]);
                 } else {
                     item.classList.remove('selected');
                 }
             });
         }
 
-        searchInput.addEventListener('input', updateResults);
+        searchInput.addEventListener('input', () => {
+            historyPosition = -1;
+            updateResults();
+        });
+
+        // Up arrow on an empty input (or on a query recalled this way) goes back through the recent queries
+        function canRecallSearch() {
+            if (selectedIndex !== 0 || selectedPassage !== -1 || historyPosition + 1 >= recentSearches.length) return false;
+            const query = searchInput.value;
+            return query.trim() === '' || (historyPosition >= 0 && query === recentSearches[historyPosition].query);
+        }
 
         searchInput.addEventListener('keydown', (e) => {
             const items = document.querySelectorAll('.result-item');
 
-            if (e.key === 'ArrowDown') {
+            if (e.altKey && (e.code === 'KeyC' || e.code === 'KeyW' || e.code === 'KeyR')) {
+                e.preventDefault();
+                toggleSearchOption(e.code === 'KeyC' ? 'caseSensitive' : e.code === 'KeyW' ? 'wholeWord' : 'regex');
+            } else if (e.altKey && e.code === 'KeyS') {
+                e.preventDefault();
+                cycleSortOrder();
+            } else if (e.key === 'ArrowDown') {
                 e.preventDefault();
-                selectedIndex = Math.min(selectedIndex + 1, items.length - 1);
+                if (selectedPassage < getPassages(currentResults[selectedIndex]).length - 1) {
+                    selectedPassage++;
+                } else if (selectedIndex < items.length - 1) {
+                    selectedIndex++;
+                    selectedPassage = -1;
+                }
                 updateSelection();
+            } else if (e.key === 'ArrowUp' && canRecallSearch()) {
+                e.preventDefault();
+                historyPosition++;
+                applySearch(recentSearches[historyPosition]);
             } else if (e.key === 'ArrowUp') {
                 e.preventDefault();
-                selectedIndex = Math.max(selectedIndex - 1, 0);
+                if (selectedPassage >= 0) {
+                    selectedPassage--;
+                } else if (selectedIndex > 0) {
+                    selectedIndex--;
+                    selectedPassage = getPassages(currentResults[selectedIndex]).length - 1;
+                }
                 updateSelection();
+            } else if (e.key === 'ArrowRight' && isCaretAtEnd() && canExpand(currentResults[selectedIndex]) && currentResults[selectedIndex].path !== expandedPath) {
+                e.preventDefault();
+                setExpanded(selectedIndex, true);
+            } else if (e.key === 'ArrowLeft' && isCaretAtEnd() && canExpand(currentResults[selectedIndex]) && currentResults[selectedIndex].path === expandedPath) {
+                e.preventDefault();
+                setExpanded(selectedIndex, false);
+            } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && items.length > 0 && currentResults[selectedIndex].task) {
+                e.preventDefault();
+                toggleTask(selectedIndex);
+            } else if (e.key === 'Enter' && e.shiftKey && creatableQuery && creatableQuery === searchInput.value.trim()) {
+                e.preventDefault();
+                api.createNote(creatableQuery);
             } else if (e.key === 'Enter' && items.length > 0) {
                 e.preventDefault();
-                const selectedPath = items[selectedIndex].dataset.path;
-                api.openFile(selectedPath);
+                if (currentResults[selectedIndex].search) {
+                    applySearch(currentResults[selectedIndex].search);
+                    return;
+                }
+                if (currentResults[selectedIndex].capture !== undefined) {
+                    capture(currentResults[selectedIndex]);
+                    return;
+                }
+                openResult(selectedIndex);
+            } else if ((e.ctrlKey || e.metaKey) && e.code === 'KeyS') {
+                e.preventDefault();
+                openSaveSearch();
+            } else if (e.key === 'Tab' && suggestedQuery) {
+                e.preventDefault();
+                acceptSuggestion();
             } else if (e.key === 'Escape') {
                 api.closeWindow();
             }
@@ -554,10 +1332,16 @@ export class SearchWindowView {
             searchInput.focus();
         });
 
-        api.getRecentFiles();
+        api.getSearchHistory();
+        if (initialSearch) {
+            applySearch(initialSearch);
+        } else {
+            api.getRecentFiles();
+        }
+        api.getIndexStatus();
 
         document.addEventListener('mousedown', (e) => {
-            if (e.target !== searchInput) {
+            if (e.target !== searchInput && e.target !== saveSearchName && e.target !== sortSelect) {
                 setTimeout(() => {
                     searchInput.focus();
                 }, 0);
@@ -565,7 +1349,7 @@ export class SearchWindowView {
         });
 
         document.addEventListener('wheel', (e) => {
-            if (document.activeElement !== searchInput) {
+            if (document.activeElement !== searchInput && document.activeElement !== saveSearchName) {
                 searchInput.focus();
             }
         });
@@ -0,0 +1,5 @@
+// Resolved by the inline-worker plugin in esbuild.config.mjs to the bundled worker source
+declare module 'inline-worker:*' {
+    const code: string;
+    export default code;
+}
@@ -0,0 +1,26 @@
+import type { IndexFingerprint, IndexedDocumentInput, MarkdownSource } from '../services/SearchIndex';
+import type { NormalizerOptions } from '../services/TextNormalizer';
+import type { ExtractorOptions } from '../services/MarkdownExtractor';
+import type { SearchOptions } from '../services/PatternMatcher';
+import type { SearchHit } from '../services/SearchEngine';
+
+// Messages from SearchService to the search worker
+export type WorkerRequest =
+    | { type: 'configure'; normalizer: NormalizerOptions; extractor: ExtractorOptions } // (Re)creates an empty index
+    | { type: 'upsert'; document: IndexedDocumentInput }
+    | { type: 'remove'; path: string }
+    | { type: 'links'; links: Record<string, string[]> } // Resolved links, source path -> target paths
+    | { type: 'created-property'; property: string } // Frontmatter property with creation dates ('' for file dates)
+    | { type: 'restore'; id: number; data: string } // Replaces the index with one saved by 'serialize'
+    | { type: 'serialize'; id: number }
+    | { type: 'search'; id: number; query: string; limit: number; options: SearchOptions; stream: boolean }
+    | { type: 'cancel'; id: number }
+    | { type: 'content'; id: number; source: MarkdownSource | null }; // Answer to 'load-content'
+
+// Messages from the search worker to SearchService
+export type WorkerResponse =
+    | { type: 'results'; id: number; results: SearchHit[]; done: boolean; suggestion: string | null }
+    | { type: 'error'; id: number; message: string }
+    | { type: 'restored'; id: number; files: IndexFingerprint[] | null } // null when the saved index was not usable
+    | { type: 'serialized'; id: number; data: string }
+    | { type: 'load-content'; id: number; path: string }; // Note text the index no longer caches
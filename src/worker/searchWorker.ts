@@ -0,0 +1,106 @@
+import { SearchEngine } from '../services/SearchEngine';
+import type { MarkdownSource } from '../services/SearchIndex';
+import type { WorkerRequest, WorkerResponse } from './protocol';
+
+// Minimal typing of the dedicated worker scope (the project compiles against the DOM library)
+interface WorkerScope {
+    onmessage: ((event: MessageEvent) => void) | null;
+    postMessage(message: WorkerResponse): void;
+}
+
+const YIELD_INTERVAL_MS = 20; // How long a search may run before queued messages (e.g. a cancel) are handled
+
+const scope = self as unknown as WorkerScope;
+let engine: SearchEngine | null = null;
+// Kept when the engine is re-created
+let links: Record<string, string[]> = {};
+let createdProperty = '';
+const searches: Map<number, AbortController> = new Map();
+const contentRequests: Map<number, (source: MarkdownSource | null) => void> = new Map();
+let nextContentRequestId = 1;
+let lastYield = Date.now();
+
+// The worker has no vault access: note text evicted from the index cache is read by the main thread
+function loadContent(path: string): Promise<MarkdownSource | null> {
+    return new Promise(resolve => {
+        const id = nextContentRequestId++;
+        contentRequests.set(id, resolve);
+        scope.postMessage({ type: 'load-content', id, path });
+    });
+}
+
+async function yieldToMessages(): Promise<void> {
+    if (Date.now() - lastYield < YIELD_INTERVAL_MS) return;
+    await new Promise(resolve => setTimeout(resolve, 0));
+    lastYield = Date.now();
+}
+
+async function search(request: Extract<WorkerRequest, { type: 'search' }>): Promise<void> {
+    if (!engine) {
+        scope.postMessage({ type: 'results', id: request.id, results: [], done: true, suggestion: null });
+        return;
+    }
+
+    const controller = new AbortController();
+    searches.set(request.id, controller);
+    try {
+        const response = await engine.search(request.query, request.limit, request.options, {
+            signal: controller.signal,
+            onResults: request.stream
+                ? (partial) => scope.postMessage({ type: 'results', id: request.id, results: partial, done: false, suggestion: null })
+                : undefined,
+            onBatch: yieldToMessages
+        });
+        if (!controller.signal.aborted) {
+            scope.postMessage({ type: 'results', id: request.id, results: response.results, done: true, suggestion: response.suggestion });
+        }
+    } catch (e) {
+        scope.postMessage({ type: 'error', id: request.id, message: e instanceof Error ? e.message : String(e) });
+    } finally {
+        searches.delete(request.id);
+    }
+}
+
+scope.onmessage = (event) => {
+    const request = event.data as WorkerRequest;
+    switch (request.type) {
+        case 'configure':
+            engine?.clear();
+            engine = new SearchEngine(loadContent, request.normalizer, request.extractor);
+            engine.setLinks(links);
+            engine.setCreatedProperty(createdProperty);
+            break;
+        case 'upsert':
+            engine?.upsert(request.document);
+            break;
+        case 'remove':
+            engine?.remove(request.path);
+            break;
+        case 'links':
+            links = request.links;
+            engine?.setLinks(links);
+            break;
+        case 'created-property':
+            createdProperty = request.property;
+            engine?.setCreatedProperty(createdProperty);
+            break;
+        case 'restore':
+            scope.postMessage({ type: 'restored', id: request.id, files: engine ? engine.restore(request.data) : null });
+            break;
+        case 'serialize':
+            scope.postMessage({ type: 'serialized', id: request.id, data: engine ? engine.serialize() : '' });
+            break;
+        case 'search':
+            void search(request);
+            break;
+        case 'cancel':
+            searches.get(request.id)?.abort();
+            break;
+        case 'content': {
+            const resolve = contentRequests.get(request.id);
+            contentRequests.delete(request.id);
+            resolve?.(request.source);
+            break;
+        }
+    }
+};